@@ -1,41 +1,84 @@
 
 'use client';
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   DialogueTransmissionVector,
   CognitiveLoadState,
-  ApplicationViewMode
+  ApplicationViewMode,
+  SentimentExplanation,
+  SimulationScenarioMatrix
 } from './types';
 import {
-  computeLevenshteinDeviation,
   calculateVerbalVelocityScore,
+  computeRhetoricDeviation,
   SentimentMatrixCalculator
 } from './utils/AlgorithmicCore';
 import { useVoiceStreamProcessor } from './hooks/useVoiceStreamProcessor';
 import { GeminiDeepThinkService } from './services/GeminiDeepThinkService';
 import { ScenarioInjectionModule } from './services/ScenarioInjectionModule';
+import { LexiconRegistry } from './services/LexiconRegistry';
+import { MetricsIngestionQueue } from './services/MetricsIngestionQueue';
 import { RhetoricDensityVisualizer } from './components/RhetoricDensityVisualizer';
 import { NeuralChatInterface } from './components/NeuralChatInterface';
 import { PostMortemAnalysisView } from './components/PostMortemAnalysisView';
+import { SessionHistoryView } from './components/SessionHistoryView';
+import { ScenarioEditorView } from './components/ScenarioEditorView';
+import { CoachWhisperPanel } from './components/CoachWhisperPanel';
 import { useAppStore } from './store/useAppStore';
+import { computeDealOutcome, toYieldJudgement } from './utils/dealScoring';
+import { alignRhetoric } from './utils/rhetoricAlignment';
+import { computeSemanticAdherence } from './utils/semanticAdherence';
+import { toDisfluencyCounts } from './utils/disfluency';
+import { resolveLanguage } from './utils/language';
+import { buildOfferLadder } from './utils/offerExtractor';
+import { assessCoachHints, nextCoachHint, proposeCoachHints } from './utils/coachWhisper';
+import {
+  activityFromEvents,
+  MIN_MEASURABLE_SPEECH_MS,
+  MIN_SPEECH_PAUSE_MS,
+  MIN_TYPING_PAUSE_MS,
+  SpeechTimingStats,
+  summarizeSpeechTiming,
+  VoiceActivityDetector
+} from './utils/speechTiming';
+
+// Offline negotiation state key when no server session could be opened
+const UNBOUND_NEGOTIATION_KEY = 'unbound';
 
 const App: React.FC = () => {
 
   // Services
   const scenarioModule = ScenarioInjectionModule.getInstance();
   const deepThinkServiceRef = useRef<GeminiDeepThinkService | null>(null);
+  const metricsQueueRef = useRef<MetricsIngestionQueue>(
+    new MetricsIngestionQueue(() => useAppStore.getState().activeSessionId)
+  );
+  const sessionOpeningRef = useRef<Promise<string | null> | null>(null);
 
   // Zustand Store
   const {
     activeScenario,
     setActiveScenario,
+    activeSessionId,
+    setActiveSessionId,
     entropyMetrics,
     addEntropyMetric,
+    rhetoricAlignment,
+    setRhetoricAlignment,
     transmissionVectors,
     addTransmissionVector,
+    updateTransmissionPayload,
     clearTransmissionVectors,
     clearEntropyMetrics,
+    yieldTimeline,
+    addYieldSample,
+    clearYieldTimeline,
+    isCoachWhisperEnabled,
+    toggleCoachWhisper,
+    coachHints,
+    addCoachHint,
+    clearCoachHints,
     cognitiveState,
     setCognitiveState,
     isAcousticCaptureActive,
@@ -53,8 +96,18 @@ const App: React.FC = () => {
     resetSimulation
   } = useAppStore();
 
+  // Scenario library: bundled until /api/scenarios answers
+  const [scenarioLibrary, setScenarioLibrary] = useState<SimulationScenarioMatrix[]>(
+    () => scenarioModule.retrieveScenarioLibrary()
+  );
+
   // Audio Analysis Refs
   const latestAudioEnergyRef = useRef<number>(0);
+  const voiceActivityRef = useRef(new VoiceActivityDetector());
+  // Arrival of the previous transcription chunk: each chunk is timed by the voiced audio since then
+  const lastTranscriptAtRef = useRef<number | null>(null);
+  // Transcription chunks of the utterance in progress, aligned word by word once it is finished
+  const pendingUtteranceRef = useRef('');
 
   // Available Voices
   const availableVoices = ['Kore', 'Fenrir', 'Puck', 'Charon', 'Zephyr'];
@@ -68,6 +121,7 @@ const App: React.FC = () => {
     if (!activeScenario) {
       setActiveScenario(scenarioModule.retrieveScenarioLibrary()[0]);
     }
+    syncScenarioLibrary();
 
     // Measure Latency immediately and then every 30s
     const measure = async () => {
@@ -81,28 +135,119 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, []);
 
-  // Handlers for Live API
-  const handleTranscriptUpdate = (text: string, _isFinal: boolean) => {
-    if (!activeScenario) return;
+  // Reload authored scenarios and rebind the active scenario to its latest version
+  const syncScenarioLibrary = async () => {
+    const service = deepThinkServiceRef.current;
+    if (!service) return;
+
+    const library = await scenarioModule.refresh({
+      loadScenarios: () => service.fetchScenarioLibrary()
+    });
+    setScenarioLibrary(library);
+
+    const { activeScenario: current, activeSessionId: currentSessionId } = useAppStore.getState();
+    const match = library.find(s => s.id === current?.id);
+    if (!match && currentSessionId) {
+      // The active scenario no longer exists; its session cannot continue
+      service.closeSession(currentSessionId);
+      setActiveSessionId(null);
+    }
+    if (!match) sessionOpeningRef.current = null;
+    setActiveScenario(match || library[0]);
+  };
+
+  // Opens the server-side session on the scenario's first turn or metric sample,
+  // so browsing scenarios leaves no empty sessions behind. Concurrent callers share one request
+  const ensureSession = (): Promise<string | null> => {
+    const { activeScenario: scenario, activeSessionId: currentSessionId } = useAppStore.getState();
+    const service = deepThinkServiceRef.current;
+    if (currentSessionId) return Promise.resolve(currentSessionId);
+    if (!scenario || !service) return Promise.resolve(null);
+
+    if (!sessionOpeningRef.current) {
+      const opening: Promise<string | null> = service.openSession(scenario.id).then((sessionId) => {
+        // A scenario switch while the request was in flight abandons it
+        const abandoned = sessionOpeningRef.current !== opening;
+        if (!abandoned) sessionOpeningRef.current = null;
+        if (!sessionId) return null;
+        if (abandoned) {
+          service.closeSession(sessionId);
+          return null;
+        }
+
+        console.log(`[SESSION_BOUND] Session: ${sessionId} | Scenario: ${scenario.id}`);
+        setActiveSessionId(sessionId);
+        void metricsQueueRef.current.flush();
+        return sessionId;
+      });
+      sessionOpeningRef.current = opening;
+    }
+    return sessionOpeningRef.current;
+  };
+
+  // Close the session when the tab goes away; beacons survive the unload where a fetch would not
+  useEffect(() => {
+    const handlePageHide = () => {
+      const { activeSessionId: sessionId } = useAppStore.getState();
+      if (!sessionId || !deepThinkServiceRef.current) return;
+      metricsQueueRef.current.flushOnUnload();
+      deepThinkServiceRef.current.closeSessionOnUnload(sessionId);
+      // A page restored from the back/forward cache opens a fresh session on its next turn
+      setActiveSessionId(null);
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, []);
 
-    // 1. Levenshtein against the specific Scenario Target
-    const delta = computeLevenshteinDeviation(text, activeScenario.targetRhetoricPattern);
+  const scenarioLanguage = resolveLanguage(activeScenario?.language);
 
-    // 2. Velocity & Hesitation
-    const velocityData = calculateVerbalVelocityScore(text, 5); // Approx 5s window
+  const getSessionAttribution = () => ({
+    scenarioId: activeScenario?.id || 'default',
+    sessionId: useAppStore.getState().activeSessionId,
+    language: scenarioLanguage
+  });
+
+  // Scores one operator utterance (spoken chunk or typed message) and records its metric.
+  // `finishedUtterance` is the whole utterance once it is complete; only then is the word diff rebuilt.
+  // Returns the sentiment breakdown so typed messages can carry it
+  const scoreOperatorUtterance = (
+    text: string,
+    timing: SpeechTimingStats,
+    finishedUtterance: string | null
+  ): SentimentExplanation | undefined => {
+    if (!activeScenario) return undefined;
+
+    // 1. Word-level distance from the specific Scenario Target (two-row, cheap on every partial)
+    const levenshteinDelta = computeRhetoricDeviation(text, activeScenario.targetRhetoricPattern, scenarioLanguage);
+    if (finishedUtterance !== null) {
+      setRhetoricAlignment(alignRhetoric(finishedUtterance, activeScenario.targetRhetoricPattern, scenarioLanguage));
+    }
+    const semanticAdherence = computeSemanticAdherence(text, activeScenario.targetRhetoricPattern, scenarioLanguage);
+
+    // 2. Velocity & Hesitation, scored with the scenario's vocabulary
+    const lexicon = LexiconRegistry.getInstance().resolveForScenario(activeScenario);
+    // Words per minute of measured speaking time; 0 when too little was measured to tell
+    const speakingSeconds = timing.speakingMs >= MIN_MEASURABLE_SPEECH_MS ? timing.speakingMs / 1000 : 0;
+    const velocityData = calculateVerbalVelocityScore(text, speakingSeconds, lexicon);
 
     // 3. Sentiment Analysis (using latest audio energy as intensity modifier)
-    const rhetoricFactor = SentimentMatrixCalculator.analyze(
+    const explanation = SentimentMatrixCalculator.explain(
       text,
       latestAudioEnergyRef.current,
-      velocityData.hesitationCount
+      velocityData.disfluency,
+      lexicon
     );
+    const rhetoricFactor = explanation.factor;
 
-    addEntropyMetric({
+    const metric = {
       timestamp: Date.now(),
       verbalVelocity: velocityData.velocity,
-      hesitationMarkers: velocityData.hesitationCount,
-      levenshteinDelta: delta,
+      disfluency: toDisfluencyCounts(velocityData.disfluency),
+      levenshteinDelta,
+      semanticAdherence,
+      pauseCount: timing.pauseCount,
+      longestPauseMs: timing.longestPauseMs,
+      speechToSilenceRatio: timing.speechToSilenceRatio,
       spectralIntensity: latestAudioEnergyRef.current,
       sentimentValence: rhetoricFactor.emotionalResonanceIndex,
       confidenceScore: rhetoricFactor.confidenceScore,
@@ -110,7 +255,26 @@ const App: React.FC = () => {
       logicDensity: rhetoricFactor.logicDensity,
       aggressionIndex: rhetoricFactor.aggressionIndex,
       clarityScore: rhetoricFactor.clarityScore
-    });
+    };
+
+    addEntropyMetric(metric);
+    metricsQueueRef.current.enqueue(metric);
+    void ensureSession();
+    return explanation;
+  };
+
+  // Handlers for Live API
+  const handleTranscriptUpdate = (text: string, isFinal: boolean, receivedAt: number) => {
+    const windowStart = lastTranscriptAtRef.current ?? receivedAt;
+    lastTranscriptAtRef.current = receivedAt;
+    const segments = voiceActivityRef.current.segmentsBetween(windowStart, receivedAt);
+
+    // Chunks may not carry their own spacing; extra whitespace is dropped by tokenization
+    pendingUtteranceRef.current = `${pendingUtteranceRef.current} ${text}`;
+    const finishedUtterance = isFinal ? pendingUtteranceRef.current : null;
+    if (isFinal) pendingUtteranceRef.current = '';
+
+    scoreOperatorUtterance(text, summarizeSpeechTiming(segments, MIN_SPEECH_PAUSE_MS), finishedUtterance);
   };
 
   const handleAudioData = (_buffer: AudioBuffer) => {
@@ -119,9 +283,10 @@ const App: React.FC = () => {
   };
 
   // Callback for realtime input visualization
-  const handleSpectralFlux = (flux: number) => {
+  const handleSpectralFlux = (flux: number, capturedAt: number) => {
     setCurrentSpectralFlux(flux);
     latestAudioEnergyRef.current = flux;
+    voiceActivityRef.current.ingest(flux, capturedAt);
   };
 
   // Hook Integration (no API key needed - uses backend proxy)
@@ -132,12 +297,47 @@ const App: React.FC = () => {
     severNeuralLink
   } = useVoiceStreamProcessor({
     voiceName: selectedVoice,
+    language: scenarioLanguage,
     isAcousticCaptureActive,
     onTranscriptUpdate: handleTranscriptUpdate,
     onAudioData: handleAudioData,
     onSpectralFluxAnalysis: handleSpectralFlux
   });
 
+  // Each live connection starts its speech timing afresh
+  useEffect(() => {
+    voiceActivityRef.current.reset();
+    lastTranscriptAtRef.current = null;
+    pendingUtteranceRef.current = '';
+  }, [isConnectionActive]);
+
+  // Coach Whisper: re-read the negotiation whenever a line or metric sample lands,
+  // once the counterpart's reply has finished rendering
+  useEffect(() => {
+    if (!isCoachWhisperEnabled || cognitiveState !== CognitiveLoadState.IDLE) return;
+
+    const now = Date.now();
+    const proposal = nextCoachHint(
+      proposeCoachHints({ vectors: transmissionVectors, metrics: entropyMetrics, scenario: activeScenario, language: scenarioLanguage }),
+      useAppStore.getState().coachHints,
+      now
+    );
+    if (!proposal) return;
+
+    const hint = {
+      ...proposal,
+      id: crypto.randomUUID(),
+      issuedAt: now,
+      dialogueIndex: transmissionVectors.length,
+      metricIndex: entropyMetrics.length
+    };
+    console.log(`[COACH_WHISPER] Kind=${hint.kind} | Dialogue=${hint.dialogueIndex} | Metrics=${hint.metricIndex}`);
+    addCoachHint(hint);
+    ensureSession().then((sessionId) => {
+      if (sessionId) deepThinkServiceRef.current?.recordCoachHint(sessionId, hint);
+    });
+  }, [isCoachWhisperEnabled, cognitiveState, transmissionVectors.length, entropyMetrics.length]);
+
   // Automatic Fallback Logic
   useEffect(() => {
     if (connectionError && connectionError.includes("CIRCUIT_BREAKER_OPEN")) {
@@ -147,34 +347,48 @@ const App: React.FC = () => {
 
 
   // Chat Handler
-  const handleManualTransmit = async (input: string) => {
+  const handleManualTransmit = async (input: string, keystrokeTimes: number[] = []) => {
+    // Perform Analysis for Metrics even on text input, timed by the keystrokes that composed it
+    const typingTiming = summarizeSpeechTiming(activityFromEvents(keystrokeTimes), MIN_TYPING_PAUSE_MS);
+    const sentimentExplanation = scoreOperatorUtterance(input, typingTiming, input);
+
     const newVector: DialogueTransmissionVector = {
       id: crypto.randomUUID(),
       origin: 'OPERATOR',
       payload: input,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      ...(sentimentExplanation ? { metadata: { sentimentExplanation } } : {})
     };
 
     addTransmissionVector(newVector);
     setCognitiveState(CognitiveLoadState.THINKING);
-
-    // Perform Analysis for Metrics even on text input
-    handleTranscriptUpdate(input, true);
+    // The first turn of a scenario opens its session; the turn is recorded against it
+    const sessionId = await ensureSession();
 
     // Branch: Live API vs Simulation Mode
     if (isConnectionActive && deepThinkServiceRef.current && !connectionError) {
-      const response = await deepThinkServiceRef.current.executeDeepThought(input, transmissionVectors);
-      addSyntheticResponse(response);
+      await streamSyntheticResponse(input);
     } else {
       // Offline/Fallback: Use Scenario Injection
       if (activeScenario) {
         console.log(`[FALLBACK_TRIGGERED] Processing via Simulation Matrix: ${activeScenario.id} `);
+        const simulationDelayMs = 1500;
         setTimeout(() => {
           if (activeScenario) {
-            const simResponse = scenarioModule.processOfflineSimulation(activeScenario.id, input);
+            const simulation = scenarioModule.runOfflineTurn(
+              activeScenario.id,
+              input,
+              sessionId ?? UNBOUND_NEGOTIATION_KEY
+            );
+            const simResponse = simulation?.response ?? "ERROR: SCENARIO_DATA_CORRUPTION";
+            const judgement = simulation ? toYieldJudgement(simulation) : undefined;
             addSyntheticResponse(simResponse);
+            if (judgement) addYieldSample(judgement);
+            if (sessionId) {
+              deepThinkServiceRef.current?.recordOfflineTurn(sessionId, input, simResponse, simulationDelayMs, judgement);
+            }
           }
-        }, 1500);
+        }, simulationDelayMs);
       }
     }
   };
@@ -190,15 +404,68 @@ const App: React.FC = () => {
     setCognitiveState(CognitiveLoadState.IDLE);
   };
 
+  // Renders the agent reply token by token as the SSE stream arrives
+  const streamSyntheticResponse = async (input: string) => {
+    if (!deepThinkServiceRef.current) return;
+
+    const responseId = crypto.randomUUID();
+    let streamStarted = false;
+
+    const response = await deepThinkServiceRef.current.executeDeepThought(
+      input,
+      transmissionVectors,
+      getSessionAttribution(),
+      (partialResponse) => {
+        if (!streamStarted) {
+          streamStarted = true;
+          addTransmissionVector({
+            id: responseId,
+            origin: 'SYNTHETIC_AGENT',
+            payload: partialResponse,
+            timestamp: Date.now()
+          });
+          setCognitiveState(CognitiveLoadState.STREAMING);
+          return;
+        }
+        updateTransmissionPayload(responseId, partialResponse);
+      },
+      addYieldSample
+    );
+
+    if (streamStarted) {
+      // Retries or the circuit breaker may replace a partially streamed reply
+      updateTransmissionPayload(responseId, response);
+      setCognitiveState(CognitiveLoadState.IDLE);
+    } else {
+      addSyntheticResponse(response);
+    }
+  };
+
   const handleScenarioChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const newId = e.target.value;
     const s = scenarioModule.getScenarioById(newId);
 
     if (s) {
       console.log(`[SCENARIO_SHIFT] Timestamp: ${new Date().toISOString()} | Previous: ${activeScenario?.id || 'NONE'} | New: ${newId}`);
+      if (activeScenario) {
+        scenarioModule.resetNegotiation(activeScenario.id, activeSessionId ?? UNBOUND_NEGOTIATION_KEY);
+      }
+      if (activeSessionId) {
+        const previousSessionId = activeSessionId;
+        metricsQueueRef.current.flush().then(() => {
+          deepThinkServiceRef.current?.closeSession(previousSessionId);
+        });
+      } else {
+        metricsQueueRef.current.discard();
+      }
+      sessionOpeningRef.current = null;
+      setActiveSessionId(null);
       setActiveScenario(s);
       clearTransmissionVectors();
       clearEntropyMetrics();
+      setRhetoricAlignment(null);
+      clearYieldTimeline();
+      clearCoachHints();
     }
   };
 
@@ -210,9 +477,22 @@ const App: React.FC = () => {
     if (isConnectionActive) severNeuralLink();
 
     setCognitiveState(CognitiveLoadState.THINKING);
+    if (activeScenario) {
+      scenarioModule.resetNegotiation(activeScenario.id, activeSessionId ?? UNBOUND_NEGOTIATION_KEY);
+    }
+
+    // Persist outstanding metrics, then close the session so its duration reflects the negotiation itself
+    if (activeSessionId) {
+      await metricsQueueRef.current.flush();
+      await deepThinkServiceRef.current.closeSession(activeSessionId);
+    }
 
     try {
-      const report = await deepThinkServiceRef.current.generateStrategicAnalysis(transmissionVectors, entropyMetrics);
+      const report = await deepThinkServiceRef.current.generateStrategicAnalysis(
+        transmissionVectors,
+        entropyMetrics,
+        getSessionAttribution()
+      );
       setAnalysisReport(report);
       setViewMode(ApplicationViewMode.ANALYSIS);
     } catch (e) {
@@ -243,6 +523,46 @@ const App: React.FC = () => {
           report={analysisReport}
           metrics={entropyMetrics}
           onReset={resetSimulation}
+          dealOutcome={computeDealOutcome(yieldTimeline)}
+          offerLadder={buildOfferLadder(transmissionVectors, activeScenario, scenarioLanguage)}
+          coachHints={assessCoachHints(coachHints, {
+            vectors: transmissionVectors,
+            metrics: entropyMetrics,
+            scenario: activeScenario,
+            language: scenarioLanguage
+          })}
+        />
+      </div>
+    );
+  }
+
+  // RENDER: HISTORY MODE
+  if (viewMode === ApplicationViewMode.HISTORY && deepThinkServiceRef.current) {
+    const service = deepThinkServiceRef.current;
+    return (
+      <div className="w-screen h-screen bg-obsidian flex flex-col">
+        <SessionHistoryView
+          scenarios={scenarioLibrary}
+          loadSessions={() => service.listSessions()}
+          loadSession={(sessionId) => service.fetchSession(sessionId)}
+          regradeSession={(sessionId) => service.regradeSession(sessionId)}
+          onExit={() => setViewMode(ApplicationViewMode.SIMULATION)}
+        />
+      </div>
+    );
+  }
+
+  // RENDER: EDITOR MODE
+  if (viewMode === ApplicationViewMode.EDITOR && deepThinkServiceRef.current) {
+    const service = deepThinkServiceRef.current;
+    return (
+      <div className="w-screen h-screen bg-obsidian flex flex-col">
+        <ScenarioEditorView
+          scenarios={scenarioLibrary}
+          saveScenario={(scenario, isNew) => service.saveScenario(scenario, isNew)}
+          deleteScenario={(scenarioId) => service.deleteScenario(scenarioId)}
+          onLibraryChanged={syncScenarioLibrary}
+          onExit={() => setViewMode(ApplicationViewMode.SIMULATION)}
         />
       </div>
     );
@@ -285,7 +605,7 @@ const App: React.FC = () => {
             value={activeScenario?.id || ''}
             onChange={handleScenarioChange}
           >
-            {scenarioModule.retrieveScenarioLibrary().map(s => (
+            {scenarioLibrary.map(s => (
               <option key={s.id} value={s.id}>
                 {s.designation} [{s.difficultyLevel}]
               </option>
@@ -304,6 +624,16 @@ const App: React.FC = () => {
               {isAcousticCaptureActive ? 'VOICE ON' : 'MANUAL ONLY'}
             </button>
 
+            {/* Coach Whisper Toggle */}
+            <button
+              onClick={toggleCoachWhisper}
+              className={`px-3 py-1 text-xs font-mono border font-bold transition-all flex items-center gap-2 ${isCoachWhisperEnabled ? 'bg-orange-400/20 text-orange-400 border-orange-400' : 'bg-transparent text-gray-500 border-gray-700 hover:border-orange-400 hover:text-orange-400'}`}
+              title={isCoachWhisperEnabled ? "Hide live coaching hints" : "Show live coaching hints"}
+            >
+              <span className="material-icons text-[14px]">record_voice_over</span>
+              {isCoachWhisperEnabled ? 'COACH ON' : 'COACH OFF'}
+            </button>
+
             <button
               onClick={isConnectionActive ? severNeuralLink : initiateNeuralLink}
               className={`px - 3 py - 1 text - xs font - mono border font - bold transition - all ${isConnectionActive ? 'bg-terminal-green text-black border-terminal-green' : 'bg-transparent text-gray-500 border-gray-700 hover:border-terminal-green hover:text-terminal-green'} `}
@@ -311,10 +641,30 @@ const App: React.FC = () => {
               {isConnectionActive ? 'LIVE NEURAL LINK' : 'CONNECT LIVE'}
             </button>
 
+            {/* SESSION ARCHIVE */}
+            <button
+              onClick={() => setViewMode(ApplicationViewMode.HISTORY)}
+              disabled={cognitiveState !== CognitiveLoadState.IDLE}
+              className="px-3 py-1 text-xs font-mono border font-bold transition-all flex items-center gap-2 bg-transparent text-gray-500 border-gray-700 hover:border-terminal-green hover:text-terminal-green disabled:opacity-50"
+            >
+              <span className="material-icons text-[14px]">history</span>
+              ARCHIVE
+            </button>
+
+            {/* SCENARIO EDITOR */}
+            <button
+              onClick={() => setViewMode(ApplicationViewMode.EDITOR)}
+              disabled={cognitiveState !== CognitiveLoadState.IDLE}
+              className="px-3 py-1 text-xs font-mono border font-bold transition-all flex items-center gap-2 bg-transparent text-gray-500 border-gray-700 hover:border-terminal-green hover:text-terminal-green disabled:opacity-50"
+            >
+              <span className="material-icons text-[14px]">edit_note</span>
+              FORGE
+            </button>
+
             {/* TERMINATE & ANALYZE BUTTON */}
             <button
               onClick={handleTerminateAndAnalyze}
-              disabled={transmissionVectors.length < 2 || cognitiveState === CognitiveLoadState.THINKING}
+              disabled={transmissionVectors.length < 2 || cognitiveState !== CognitiveLoadState.IDLE}
               className={`px - 3 py - 1 text - xs font - mono border font - bold transition - all 
                   ${cognitiveState === CognitiveLoadState.THINKING
                   ? 'bg-gray-800 text-gray-500 border-gray-800 animate-pulse'
@@ -359,6 +709,8 @@ const App: React.FC = () => {
             <RhetoricDensityVisualizer
               data={entropyMetrics}
               currentSpectralFlux={currentSpectralFlux}
+              yieldTimeline={yieldTimeline}
+              rhetoricAlignment={rhetoricAlignment}
             />
           </div>
 
@@ -378,14 +730,18 @@ const App: React.FC = () => {
         </div>
 
         {/* Right: Chat Interface */}
-        <div className="w-1/2 h-full">
+        <div className="flex-1 h-full">
           <NeuralChatInterface
             vectors={transmissionVectors}
             onTransmit={handleManualTransmit}
             cognitiveState={cognitiveState}
+            language={scenarioLanguage}
           />
         </div>
 
+        {/* Side Panel: Coach Whisper (opt-in) */}
+        {isCoachWhisperEnabled && <CoachWhisperPanel hints={coachHints} />}
+
       </div>
     </div>
   );
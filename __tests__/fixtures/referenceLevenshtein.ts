@@ -0,0 +1,13 @@
+// The original full-matrix Levenshtein, kept as the oracle for property tests and the baseline for benchmarks
+export const referenceLevenshtein = (source: ArrayLike<string>, target: ArrayLike<string>): number => {
+    const matrix: number[][] = [];
+    for (let i = 0; i <= source.length; i++) matrix[i] = [i];
+    for (let j = 0; j <= target.length; j++) matrix[0][j] = j;
+    for (let i = 1; i <= source.length; i++) {
+        for (let j = 1; j <= target.length; j++) {
+            const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+            matrix[i][j] = Math.min(matrix[i - 1][j] + 1, matrix[i][j - 1] + 1, matrix[i - 1][j - 1] + cost);
+        }
+    }
+    return matrix[source.length][target.length];
+};
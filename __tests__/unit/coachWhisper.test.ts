@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+    assessCoachHints,
+    COACH_HINT_INTERVAL_MS,
+    COACH_HINT_KIND_COOLDOWN_MS,
+    CoachHintProposal,
+    nextCoachHint,
+    proposeCoachHints
+} from '../../utils/coachWhisper';
+import { CoachHint, DialogueTransmissionVector, NegotiationEntropyMetric } from '../../types';
+import { SCENARIO_DB } from '../../data/scenarios';
+
+const [hostile] = SCENARIO_DB;
+
+let nextId = 0;
+const line = (origin: DialogueTransmissionVector['origin'], payload: string): DialogueTransmissionVector =>
+    ({ id: `v${++nextId}`, origin, payload, timestamp: nextId });
+
+const metric = (overrides: Partial<Omit<NegotiationEntropyMetric, 'disfluency'>> & { fillers?: number } = {}): NegotiationEntropyMetric => {
+    const { fillers = 0, ...rest } = overrides;
+    return {
+        timestamp: 0,
+        verbalVelocity: 140,
+        disfluency: { filledPauses: fillers, repetitions: 0, restarts: 0, hedges: 0 },
+        levenshteinDelta: 4,
+        semanticAdherence: 0.6,
+        pauseCount: 0,
+        longestPauseMs: 0,
+        speechToSilenceRatio: 10,
+        spectralIntensity: 0,
+        sentimentValence: 0,
+        confidenceScore: 0.8,
+        logicDensity: 50,
+        aggressionIndex: 10,
+        clarityScore: 70,
+        ...rest
+    };
+};
+
+const kinds = (proposals: CoachHintProposal[]) => proposals.map(proposal => proposal.kind);
+
+const issue = (proposal: CoachHintProposal, issuedAt: number, dialogueIndex = 0, metricIndex = 0): CoachHint =>
+    ({ ...proposal, id: `h${issuedAt}`, issuedAt, dialogueIndex, metricIndex });
+
+// The operator gives ground twice while the counterpart holds at $950M
+const conceding = () => [
+    line('SYNTHETIC_AGENT', 'Our offer is $950 million.'),
+    line('OPERATOR', 'We need $1.4 billion.'),
+    line('SYNTHETIC_AGENT', 'Still $950 million.'),
+    line('OPERATOR', 'Fine, $1.3 billion.'),
+    line('SYNTHETIC_AGENT', 'Not enough.'),
+    line('OPERATOR', 'Then $1.2 billion.')
+];
+
+describe('coachWhisper', () => {
+    it('should flag repeated concessions the counterpart did not answer', () => {
+        const proposals = proposeCoachHints({ vectors: conceding(), metrics: [], scenario: hostile });
+        expect(kinds(proposals)).toEqual(['UNRECIPROCATED_CONCESSIONS']);
+        expect(proposals[0].trigger).toBe(2);
+
+        const traded = [...conceding().slice(0, 4), line('SYNTHETIC_AGENT', 'We can go to $1 billion.'), line('OPERATOR', 'Then $1.2 billion.')];
+        expect(proposeCoachHints({ vectors: traded, metrics: [], scenario: hostile })).toEqual([]);
+    });
+
+    it('should flag a counterpart tactic while it is unanswered', () => {
+        const vectors = [line('OPERATOR', 'Where do we start?'), line('SYNTHETIC_AGENT', 'This offer expires by Friday.')];
+        const [proposal] = proposeCoachHints({ vectors, metrics: [] });
+        expect(proposal).toMatchObject({ kind: 'COUNTERPART_TACTIC', tactic: 'DEADLINE_PRESSURE' });
+
+        expect(proposeCoachHints({ vectors: [...vectors, line('OPERATOR', 'Why Friday?')], metrics: [] })).toEqual([]);
+    });
+
+    it('should flag hesitation spiking above the recent baseline', () => {
+        const calm = [metric({ fillers: 1 }), metric({ fillers: 0 }), metric({ fillers: 1 })];
+        expect(kinds(proposeCoachHints({ vectors: [], metrics: [...calm, metric({ fillers: 4 })] }))).toEqual(['HESITATION_SPIKE']);
+        expect(proposeCoachHints({ vectors: [], metrics: [metric({ fillers: 3 }), metric({ fillers: 3 }), metric({ fillers: 4 })] })).toEqual([]);
+    });
+
+    it('should flag a confidence drop and sustained rhetoric drift', () => {
+        const steady = [metric(), metric(), metric()];
+        const [drop] = proposeCoachHints({ vectors: [], metrics: [...steady, metric({ confidenceScore: 0.5 })] });
+        expect(drop).toMatchObject({ kind: 'CONFIDENCE_DROP', trigger: 0.5 });
+
+        const drifting = [metric({ semanticAdherence: 0.1 }), metric({ semanticAdherence: 0.05 }), metric({ semanticAdherence: 0.15 })];
+        expect(kinds(proposeCoachHints({ vectors: [], metrics: drifting }))).toEqual(['RHETORIC_DRIFT']);
+        expect(proposeCoachHints({ vectors: [], metrics: drifting.slice(1) })).toEqual([]);
+    });
+
+    it('should whisper at most once per interval and not repeat advice within its cooldown', () => {
+        const spike: CoachHintProposal = { kind: 'HESITATION_SPIKE', message: 'Slow down.', trigger: 4 };
+        const drift: CoachHintProposal = { kind: 'RHETORIC_DRIFT', message: 'Back on message.', trigger: 0.1 };
+        const issued = [issue(spike, 0)];
+
+        expect(nextCoachHint([spike, drift], issued, COACH_HINT_INTERVAL_MS - 1)).toBeNull();
+        expect(nextCoachHint([spike, drift], issued, COACH_HINT_INTERVAL_MS)).toBe(drift);
+        expect(nextCoachHint([spike], issued, COACH_HINT_KIND_COOLDOWN_MS - 1)).toBeNull();
+        expect(nextCoachHint([spike], issued, COACH_HINT_KIND_COOLDOWN_MS)).toBe(spike);
+        expect(nextCoachHint([spike], [], 0)).toBe(spike);
+    });
+
+    it('should judge concession hints by the operator\'s next move', () => {
+        const vectors = conceding();
+        const hint = issue(proposeCoachHints({ vectors, metrics: [], scenario: hostile })[0], 0, vectors.length);
+        const assess = (followUp: DialogueTransmissionVector[]) =>
+            assessCoachHints([hint], { vectors: [...vectors, ...followUp], metrics: [], scenario: hostile })[0].response;
+
+        expect(assess([])).toBe('PENDING');
+        expect(assess([line('SYNTHETIC_AGENT', 'Still no.'), line('OPERATOR', 'We stay at $1.2 billion. What can you add?')])).toBe('ACTED_ON');
+        expect(assess([line('SYNTHETIC_AGENT', 'Still no.'), line('OPERATOR', 'OK, $1.15 billion.')])).toBe('IGNORED');
+    });
+
+    it('should judge delivery hints by the next metric sample', () => {
+        const spike = issue({ kind: 'HESITATION_SPIKE', message: 'Slow down.', trigger: 4 }, 0, 0, 4);
+        const drop = issue({ kind: 'CONFIDENCE_DROP', message: 'Lead strong.', trigger: 0.5 }, 0, 0, 4);
+        const earlier = [metric(), metric(), metric(), metric({ fillers: 4, confidenceScore: 0.5 })];
+
+        expect(assessCoachHints([spike, drop], { vectors: [], metrics: earlier }).map(hint => hint.response))
+            .toEqual(['PENDING', 'PENDING']);
+        expect(assessCoachHints([spike, drop], { vectors: [], metrics: [...earlier, metric({ fillers: 1, confidenceScore: 0.4 })] }).map(hint => hint.response))
+            .toEqual(['ACTED_ON', 'IGNORED']);
+    });
+});
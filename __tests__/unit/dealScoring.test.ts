@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { computeDealOutcome, OUTCOME_MULTIPLIERS } from '../../utils/dealScoring';
+import { parseYieldJudgement } from '../../services/turnYieldJudge';
+import { TurnYieldSample } from '../../types';
+
+const sample = (turn: number, value: number | null, outcome: TurnYieldSample['outcome'] = null): TurnYieldSample => ({
+    turn,
+    timestamp: turn * 1000,
+    yield: value,
+    source: 'MANIFOLD',
+    outcome,
+});
+
+describe('dealScoring', () => {
+    it('should return an unscored outcome for an empty timeline', () => {
+        const outcome = computeDealOutcome([]);
+        expect(outcome.dealValue).toBeNull();
+        expect(outcome.outcome).toBeNull();
+        expect(outcome.totalTurns).toBe(0);
+    });
+
+    it('should weigh later turns more heavily', () => {
+        const improving = computeDealOutcome([sample(1, 0.2), sample(2, 0.8)]);
+        const declining = computeDealOutcome([sample(1, 0.8), sample(2, 0.2)]);
+        expect(improving.weightedYield).toBeCloseTo((0.2 * 1 + 0.8 * 2) / 3);
+        expect(improving.dealValue!).toBeGreaterThan(declining.dealValue!);
+    });
+
+    it('should skip unscored turns but still count them', () => {
+        const outcome = computeDealOutcome([sample(1, 0.6), sample(2, null)]);
+        expect(outcome.weightedYield).toBeCloseTo(0.6);
+        expect(outcome.scoredTurns).toBe(1);
+        expect(outcome.totalTurns).toBe(2);
+    });
+
+    it('should scale the deal value by how the negotiation ended', () => {
+        const walkAway = computeDealOutcome([sample(1, 0.8), sample(2, 0.8, 'WALK_AWAY')]);
+        expect(walkAway.outcome).toBe('WALK_AWAY');
+        expect(walkAway.dealValue).toBeCloseTo(0.8 * OUTCOME_MULTIPLIERS.WALK_AWAY);
+
+        const deal = computeDealOutcome([sample(1, 0.8), sample(2, 0.8, 'DEAL')]);
+        expect(deal.dealValue).toBeCloseTo(0.8);
+    });
+});
+
+describe('parseYieldJudgement', () => {
+    it('should accept a yield between 0 and 1', () => {
+        expect(parseYieldJudgement('```json\n{"yield":0.35,"rationale":" Held firm. "}\n```'))
+            .toEqual({ yield: 0.35, source: 'JUDGE', rationale: 'Held firm.' });
+    });
+
+    it('should leave the turn unscored on out-of-range or malformed output', () => {
+        expect(parseYieldJudgement('{"yield":1.4}').yield).toBeNull();
+        expect(parseYieldJudgement('not json').yield).toBeNull();
+    });
+});
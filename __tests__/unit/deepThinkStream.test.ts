@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GeminiDeepThinkService } from '../../services/GeminiDeepThinkService';
+
+const sseResponse = (frames: string[]): Response => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+            frames.forEach((frame) => controller.enqueue(encoder.encode(frame)));
+            controller.close();
+        },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const collect = async (stream: AsyncGenerator<string>): Promise<string[]> => {
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+};
+
+describe('GeminiDeepThinkService', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('streamDeepThought', () => {
+        it('should yield text chunks until the DONE sentinel', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+                'data: {"text":"Your "}\n\n',
+                'data: {"text":"leverage',
+                '"}\n\ndata: {"text":" is thin."}\n\n',
+                'data: [DONE]\n\n',
+            ])));
+
+            const chunks = await collect(new GeminiDeepThinkService().streamDeepThought('hello', []));
+            expect(chunks).toEqual(['Your ', 'leverage', ' is thin.']);
+        });
+
+        it('should surface error frames emitted by the route', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+                'data: {"text":"partial"}\n\n',
+                'data: {"error":"quota exceeded"}\n\n',
+            ])));
+
+            await expect(collect(new GeminiDeepThinkService().streamDeepThought('hello', [])))
+                .rejects.toThrow('quota exceeded');
+        });
+
+        it('should return the JSON body transparently on cache hits', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+                Response.json({ response: 'cached counter-move', cached: true })
+            ));
+
+            const chunks = await collect(new GeminiDeepThinkService().streamDeepThought('hello', []));
+            expect(chunks).toEqual(['cached counter-move']);
+        });
+    });
+
+    describe('executeDeepThought', () => {
+        it('should report the accumulated reply on every chunk', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+                'data: {"text":"A"}\n\ndata: {"text":"B"}\n\ndata: [DONE]\n\n',
+            ])));
+
+            const onToken = vi.fn();
+            const result = await new GeminiDeepThinkService().executeDeepThought('hello', [], undefined, onToken);
+
+            expect(result).toBe('AB');
+            expect(onToken.mock.calls).toEqual([['A'], ['AB']]);
+        });
+
+        it('should hand the turn judgement to its callback without adding it to the reply', async () => {
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+                'data: {"text":"Fine."}\n\n',
+                'data: {"judgement":{"yield":0.7,"source":"JUDGE","rationale":"Counterpart conceded."}}\n\n',
+                'data: [DONE]\n\n',
+            ])));
+
+            const onJudgement = vi.fn();
+            const result = await new GeminiDeepThinkService().executeDeepThought('hello', [], undefined, undefined, onJudgement);
+
+            expect(result).toBe('Fine.');
+            expect(onJudgement).toHaveBeenCalledWith({ yield: 0.7, source: 'JUDGE', rationale: 'Counterpart conceded.' });
+        });
+
+        it('should resolve the reply at DONE and deliver a later judgement in the background', async () => {
+            let sendJudgement!: () => void;
+            const encoder = new TextEncoder();
+            const body = new ReadableStream<Uint8Array>({
+                start(controller) {
+                    controller.enqueue(encoder.encode('data: {"text":"Fine."}\n\ndata: [DONE]\n\n'));
+                    sendJudgement = () => {
+                        controller.enqueue(encoder.encode('data: {"judgement":{"yield":0.2,"source":"JUDGE"}}\n\n'));
+                        controller.close();
+                    };
+                },
+            });
+            vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { headers: { 'Content-Type': 'text/event-stream' } })));
+
+            const onJudgement = vi.fn();
+            const result = await new GeminiDeepThinkService().executeDeepThought('hello', [], undefined, undefined, onJudgement);
+            expect(result).toBe('Fine.');
+            expect(onJudgement).not.toHaveBeenCalled();
+
+            sendJudgement();
+            await vi.waitFor(() => expect(onJudgement).toHaveBeenCalledWith({ yield: 0.2, source: 'JUDGE' }));
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDisfluency } from '../../utils/disfluency';
+import { SentimentMatrixCalculator } from '../../utils/AlgorithmicCore';
+
+const markersOf = (text: string) =>
+    analyzeDisfluency(text).markers.map(marker => [marker.kind, text.slice(marker.start, marker.end)]);
+
+describe('analyzeDisfluency', () => {
+    describe('context rules', () => {
+        it('should not count "like" as a verb or preposition', () => {
+            expect(markersOf("I'd like a better price")).toEqual([]);
+            expect(markersOf('Terms like these work for us')).toEqual([]);
+            expect(markersOf('It looks like, a fair deal')).toEqual([]);
+        });
+
+        it('should count "like" set off as a filler', () => {
+            expect(markersOf('We need, like, a better price')).toEqual([['FILLED_PAUSE', 'like']]);
+            expect(markersOf('Like, that is the problem')).toEqual([['FILLED_PAUSE', 'Like']]);
+        });
+
+        it('should separate the parenthetical "I mean" from the verb', () => {
+            expect(markersOf('I mean, the price is high')).toEqual([['FILLED_PAUSE', 'I mean']]);
+            expect(markersOf('I mean it when I say no')).toEqual([]);
+            expect(markersOf('That is what I mean by fair')).toEqual([]);
+        });
+
+        it('should separate the filler "you know" from the question', () => {
+            expect(markersOf('We are, you know, close')).toEqual([['FILLED_PAUSE', 'you know']]);
+            expect(markersOf('Do you know what the budget is?')).toEqual([]);
+        });
+
+        it('should treat "kind of" after a determiner as literal', () => {
+            expect(markersOf('What kind of contract is this?')).toEqual([]);
+            expect(markersOf('That is kind of expensive')).toEqual([['HEDGE', 'kind of']]);
+        });
+    });
+
+    it('should detect repeated words and phrases, marking the first copy', () => {
+        expect(markersOf('We, we need this')).toEqual([['REPETITION', 'We']]);
+        expect(markersOf('I think I think we can close')).toEqual([['REPETITION', 'I think']]);
+        expect(markersOf('He said that that was final')).toEqual([]);
+    });
+
+    it('should count doubled fillers as filled pauses, not repetitions', () => {
+        const breakdown = analyzeDisfluency('Um um, okay');
+        expect(breakdown.filledPauses).toBe(2);
+        expect(breakdown.repetitions).toBe(0);
+    });
+
+    it('should detect words abandoned at a dash, but not hyphenated compounds', () => {
+        expect(markersOf('We sh- we can agree')).toEqual([['RESTART', 'sh']]);
+        expect(markersOf('I want— we need a long-term deal')).toEqual([['RESTART', 'want']]);
+        expect(markersOf('A long-term deal')).toEqual([]);
+    });
+
+    it('should treat a stutter across a dash as a repetition', () => {
+        expect(markersOf('I- I think so')).toEqual([['REPETITION', 'I']]);
+    });
+
+    it('should detect self-corrections set off from the retracted words', () => {
+        expect(markersOf('We need thirty, sorry, forty units')).toEqual([['RESTART', 'sorry']]);
+        expect(markersOf('Tuesday or rather Wednesday')).toEqual([['RESTART', 'or rather']]);
+        expect(markersOf('We are sorry for the delay')).toEqual([]);
+    });
+
+    it('should return a typed breakdown whose total matches its markers', () => {
+        const breakdown = analyzeDisfluency('Um, we, we basically want— need a, uh, discount, sorry, rebate');
+        expect(breakdown).toMatchObject({ filledPauses: 2, repetitions: 1, restarts: 2, hedges: 1, total: 6 });
+        expect(breakdown.markers).toHaveLength(breakdown.total);
+        expect(breakdown.markers.map(marker => marker.start)).toEqual([...breakdown.markers.map(marker => marker.start)].sort((a, b) => a - b));
+    });
+
+    it('should penalize confidence per kind of disfluency', () => {
+        const { confidenceContributions } = SentimentMatrixCalculator.explain('Um, we, we probably agree', 0.1);
+        expect(confidenceContributions.filter(c => c.delta < 0).map(c => [c.source, c.delta])).toEqual([
+            ['FILLED_PAUSE', -0.15],
+            ['REPETITION', -0.1],
+            ['HEDGE', -0.05]
+        ]);
+    });
+});
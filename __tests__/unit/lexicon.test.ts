@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { compileLexicon, DEFAULT_LEXICON, DEFAULT_LEXICON_PACKS, matchLexicon } from '../../utils/lexicon';
+import { validateLexiconPack } from '../../utils/lexiconValidator';
+import { calculateVerbalVelocityScore, SentimentMatrixCalculator } from '../../utils/AlgorithmicCore';
+import { LexiconRegistry } from '../../services/LexiconRegistry';
+import { LexiconPack } from '../../types';
+import procurementEn from '../../data/lexicons/procurement-en.json';
+import legalEn from '../../data/lexicons/legal-en.json';
+
+const maritimePack: LexiconPack = {
+    schemaVersion: 1,
+    id: 'maritime-en',
+    version: '1.0.0',
+    stemming: true,
+    categories: {
+        aggression: { 'demurrage claim': 0.9 },
+        logic: { 'laytime': 1 }
+    }
+};
+
+describe('lexicon', () => {
+    describe('matchLexicon', () => {
+        it('should match multi-word filler and hedge phrases', () => {
+            const phrases = matchLexicon('It is, you know, sort of a stretch').map(match => match.phrase);
+            expect(phrases).toEqual(['you know', 'sort of']);
+        });
+
+        it('should match inflected forms only in stemming packs', () => {
+            expect(matchLexicon('They demanded more and refused').map(match => match.phrase)).toEqual(['demand', 'refuse']);
+            // fillers-en is not stemmed, so "liked" is not the filler "like"
+            expect(matchLexicon('I liked the offer')).toEqual([]);
+        });
+
+        it('should prefer the longest phrase within a category', () => {
+            const matches = matchLexicon('This is our last offer');
+            expect(matches).toEqual([{ category: 'aggression', phrase: 'last offer', weight: 0.7, start: 3, length: 2 }]);
+        });
+    });
+
+    describe('compileLexicon', () => {
+        it('should let later packs and overrides replace weights, and weight 0 remove phrases', () => {
+            const lexicon = compileLexicon(DEFAULT_LEXICON_PACKS, { aggression: { now: 0, must: 0.2 }, logic: { 'unit economics': 1 } });
+            const matches = matchLexicon('We must move now on unit economics', lexicon);
+            expect(matches.map(match => [match.phrase, match.weight])).toEqual([['must', 0.2], ['unit economics', 1]]);
+            expect(lexicon.signature).toBe('core-en@1.1.0+fillers-en@2.0.0+overrides');
+        });
+    });
+
+    describe('validateLexiconPack', () => {
+        it('should accept every bundled pack', () => {
+            [...DEFAULT_LEXICON_PACKS, procurementEn, legalEn].forEach(pack => {
+                expect(validateLexiconPack(pack).errors).toEqual([]);
+            });
+        });
+
+        it('should report every problem with a malformed pack', () => {
+            const { pack, errors } = validateLexiconPack({
+                schemaVersion: 2,
+                id: 'Bad Id',
+                version: 'v1',
+                stemming: 'yes',
+                categories: { aggression: { threat: -1 }, swagger: {} }
+            });
+            expect(pack).toBeNull();
+            expect(errors).toEqual([
+                'schemaVersion must be 1',
+                'id must be 2-64 lowercase letters, digits or dashes (e.g. procurement-en)',
+                'version must be a semantic version (e.g. 1.2.0)',
+                'stemming must be a boolean',
+                'categories.swagger is not one of aggression, conciliatory, logic, hesitation, hedge, negation, intensifier',
+                'categories.aggression["threat"] must be a non-negative number'
+            ]);
+        });
+    });
+
+    describe('LexiconRegistry', () => {
+        it('should resolve registered packs for a scenario and skip unknown ones', () => {
+            const registry = LexiconRegistry.getInstance();
+            registry.registerPack(maritimePack);
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            const lexicon = registry.resolve({ packs: ['maritime-en', 'missing-pack'] });
+            expect(lexicon.signature).toBe('core-en@1.1.0+fillers-en@2.0.0+maritime-en@1.0.0');
+            expect(warn).toHaveBeenCalledWith('[LEXICON_REGISTRY] Unknown lexicon pack "missing-pack" skipped');
+            expect(matchLexicon('They filed demurrage claims over laytime', lexicon).map(match => match.phrase))
+                .toEqual(['demurrage claim', 'laytime']);
+
+            expect(registry.unregisterPack('maritime-en')).toBe(true);
+            expect(registry.unregisterPack('core-en')).toBe(false);
+            warn.mockRestore();
+        });
+
+        it('should reject an invalid pack with its validation errors', () => {
+            expect(() => LexiconRegistry.getInstance().registerPack({ ...maritimePack, stemming: undefined }))
+                .toThrow('Invalid lexicon pack: stemming must be a boolean');
+        });
+
+        it('should return the default lexicon for scenarios without a lexicon block', () => {
+            expect(LexiconRegistry.getInstance().resolve(undefined)).toBe(DEFAULT_LEXICON);
+        });
+    });
+
+    describe('AlgorithmicCore with lexicons', () => {
+        it('should count multi-word fillers and hedges as disfluencies', () => {
+            const { disfluency } = calculateVerbalVelocityScore('So, you know, I mean we kind of need this', 5);
+            expect(disfluency.filledPauses).toBe(2);
+            expect(disfluency.hedges).toBe(1);
+        });
+
+        it('should score domain vocabulary only when its pack is in the lexicon', () => {
+            const text = 'We will enforce the penalty clause';
+            const withPack = compileLexicon([...DEFAULT_LEXICON_PACKS, procurementEn as LexiconPack]);
+            expect(SentimentMatrixCalculator.analyze(text, 0.1).aggressionIndex).toBe(0);
+            expect(SentimentMatrixCalculator.analyze(text, 0.1, undefined, withPack).aggressionIndex).toBe(80);
+        });
+    });
+});
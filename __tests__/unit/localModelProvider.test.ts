@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { LocalModelProvider } from '../../services/LocalModelProvider';
+import { parseStrategicAnalysisReport } from '../../utils/reportValidator';
+import { SCENARIO_DB } from '../../data/scenarios';
+
+const collect = async (stream: AsyncGenerator<string>): Promise<string> => {
+    let text = '';
+    for await (const chunk of stream) text += chunk;
+    return text;
+};
+
+describe('LocalModelProvider', () => {
+    const provider = new LocalModelProvider();
+
+    it('should stream the reply of the matching probability manifold', async () => {
+        const reply = await collect(provider.streamNegotiation({
+            prompt: 'ignored by the local provider',
+            operatorInput: 'We reject this valuation',
+            scenarioId: 'SCN-ALPHA-01',
+        }));
+
+        const rejection = SCENARIO_DB[0].probabilityManifolds.find((m) => m.key === 'rejection')!;
+        const candidates = [rejection.syntheticResponse, ...(rejection.alternativeResponses || [])];
+        expect(candidates.some((candidate) => reply.startsWith(`[SIMULATION_MODE]: ${candidate}`))).toBe(true);
+    });
+
+    it('should be deterministic for identical input in a fresh session', async () => {
+        const request = { prompt: '', operatorInput: 'What about equity?', scenarioId: 'SCN-BETA-04' };
+        expect(await collect(provider.streamNegotiation({ ...request, sessionId: 'session-a' })))
+            .toBe(await collect(provider.streamNegotiation({ ...request, sessionId: 'session-b' })));
+    });
+
+    it('should carry negotiation state across turns of a session', async () => {
+        const turn = (operatorInput: string) => collect(provider.streamNegotiation({
+            prompt: '',
+            operatorInput,
+            scenarioId: 'SCN-GAMMA-09',
+            sessionId: 'session-c',
+        }));
+
+        expect(await turn("Let's sign")).not.toContain('[OUTCOME: DEAL]');
+        expect(await turn('We can commit to a twelve month contract')).toContain('[CURRENT OFFER: 6%]');
+        expect(await turn("Let's sign")).toContain('[OUTCOME: DEAL]');
+    });
+
+    it('should score a streamed turn with the yield of the manifold that fired', async () => {
+        const request = { prompt: '', operatorInput: 'Our inventory risk is high', scenarioId: 'SCN-GAMMA-09', sessionId: 'session-d' };
+        await collect(provider.streamNegotiation(request));
+
+        const judgement = await provider.scoreTurn({ ...request, response: '', context: '' });
+        expect(judgement).toMatchObject({ yield: 0.5, source: 'MANIFOLD', outcome: null });
+
+        // Collected once; a second call has nothing left to score
+        expect((await provider.scoreTurn({ ...request, response: '', context: '' })).yield).toBeNull();
+    });
+
+    it('should return a canned analysis that passes report validation', async () => {
+        const raw = await provider.generateAnalysis({
+            prompt: '',
+            responseSchema: {},
+            telemetry: { avgConfidence: 0.7, peakVelocity: 120, avgHesitation: 1, avgSemanticAdherence: 0.4 },
+        });
+
+        const { report, issues } = parseStrategicAnalysisReport(raw);
+        expect(issues).toEqual([]);
+        expect(report.overallGrade).toBe('B');
+    });
+});
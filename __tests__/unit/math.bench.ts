@@ -0,0 +1,49 @@
+import { bench, describe } from 'vitest';
+import { computeBoundedLevenshteinDeviation, computeLevenshteinDeviation } from '../../utils/AlgorithmicCore';
+import { referenceLevenshtein } from '../fixtures/referenceLevenshtein';
+
+// A long monologue against a one-sentence target, as on a late partial transcription
+const TARGET = 'We categorically reject the valuation as it fails to account for our proprietary IP pipeline.';
+const MONOLOGUE = Array.from({ length: 40 }, (_, i) =>
+    i % 2 === 0 ? 'we reject the valuation because it ignores our pipeline' : 'and frankly the numbers do not add up for us'
+).join(' ');
+
+describe('Levenshtein on a long monologue', () => {
+    bench('full matrix', () => {
+        referenceLevenshtein(MONOLOGUE, TARGET);
+    });
+
+    bench('two-row', () => {
+        computeLevenshteinDeviation(MONOLOGUE, TARGET);
+    });
+
+    // Exits before any row is scanned: the length gap alone exceeds the cutoff
+    bench('banded, cutoff 40', () => {
+        computeBoundedLevenshteinDeviation(MONOLOGUE, TARGET, 40);
+    });
+});
+
+describe('Levenshtein on an unrelated utterance of similar length', () => {
+    const unrelated = MONOLOGUE.slice(-TARGET.length);
+
+    bench('two-row', () => {
+        computeLevenshteinDeviation(unrelated, TARGET);
+    });
+
+    // Exits once a whole row of the band is past the cutoff
+    bench('banded, cutoff 10', () => {
+        computeBoundedLevenshteinDeviation(unrelated, TARGET, 10);
+    });
+});
+
+describe('Levenshtein on a close paraphrase', () => {
+    const paraphrase = 'We categorically reject this valuation since it fails to account for our proprietary pipeline.';
+
+    bench('two-row', () => {
+        computeLevenshteinDeviation(paraphrase, TARGET);
+    });
+
+    bench('banded, cutoff 20', () => {
+        computeBoundedLevenshteinDeviation(paraphrase, TARGET, 20);
+    });
+});
@@ -1,5 +1,30 @@
 import { describe, it, expect } from 'vitest';
-import { computeLevenshteinDeviation } from '../../utils/AlgorithmicCore';
+import { computeBoundedLevenshteinDeviation, computeLevenshteinDeviation, computeRhetoricDeviation } from '../../utils/AlgorithmicCore';
+import { alignRhetoric } from '../../utils/rhetoricAlignment';
+import { hashSeed, nextRandom } from '../../utils/seededRandom';
+import { referenceLevenshtein } from '../fixtures/referenceLevenshtein';
+
+// Deterministic random string pairs over a small alphabet, so overlaps are common
+const generatePairs = (count: number, seed: string): [string, string][] => {
+    let state = hashSeed(seed);
+    const draw = () => {
+        const result = nextRandom(state);
+        state = result.state;
+        return result.value;
+    };
+    const randomString = () => {
+        const length = Math.floor(draw() * 24);
+        return Array.from({ length }, () => 'abcd '[Math.floor(draw() * 5)]).join('');
+    };
+    // Every third pair is a light mutation of the first string
+    return Array.from({ length: count }, (_, index) => {
+        const source = randomString();
+        if (index % 3 !== 0) return [source, randomString()] as [string, string];
+        const chars = source.split('');
+        chars.splice(Math.floor(draw() * (chars.length + 1)), Math.floor(draw() * 2), 'x');
+        return [source, chars.join('')] as [string, string];
+    });
+};
 
 describe('AlgorithmicCore', () => {
     describe('computeLevenshteinDeviation', () => {
@@ -27,5 +52,66 @@ describe('AlgorithmicCore', () => {
             const result = computeLevenshteinDeviation('Hello', 'hello');
             expect(result).toBe(1);
         });
+
+        it('should compare token arrays word by word', () => {
+            const result = computeLevenshteinDeviation(['we', 'reject', 'it'], ['we', 'accept', 'it']);
+            expect(result).toBe(1);
+        });
+
+        it('should match the full-matrix implementation on random pairs', () => {
+            generatePairs(300, 'two-row').forEach(([source, target]) => {
+                expect(computeLevenshteinDeviation(source, target)).toBe(referenceLevenshtein(source, target));
+            });
+        });
+
+        it('should be symmetric', () => {
+            generatePairs(100, 'symmetry').forEach(([source, target]) => {
+                expect(computeLevenshteinDeviation(source, target)).toBe(computeLevenshteinDeviation(target, source));
+            });
+        });
+    });
+
+    describe('computeBoundedLevenshteinDeviation', () => {
+        it('should return the exact distance when within the cutoff', () => {
+            expect(computeBoundedLevenshteinDeviation('kitten', 'sitting', 3)).toBe(3);
+        });
+
+        it('should return cutoff + 1 when the distance exceeds the cutoff', () => {
+            expect(computeBoundedLevenshteinDeviation('kitten', 'sitting', 2)).toBe(3);
+            expect(computeBoundedLevenshteinDeviation('abcdef', 'uvwxyz', 1)).toBe(2);
+        });
+
+        it('should exit on length difference alone', () => {
+            expect(computeBoundedLevenshteinDeviation('', 'a much longer target', 5)).toBe(6);
+        });
+
+        it('should treat a zero cutoff as an equality check', () => {
+            expect(computeBoundedLevenshteinDeviation('same', 'same', 0)).toBe(0);
+            expect(computeBoundedLevenshteinDeviation('same', 'sane', 0)).toBe(1);
+        });
+
+        it('should agree with the full-matrix implementation for every cutoff', () => {
+            generatePairs(150, 'banded').forEach(([source, target]) => {
+                const exact = referenceLevenshtein(source, target);
+                [0, 1, 2, 4, 8, 16, 32].forEach(cutoff => {
+                    expect(computeBoundedLevenshteinDeviation(source, target, cutoff)).toBe(Math.min(exact, cutoff + 1));
+                });
+            });
+        });
+    });
+
+    describe('computeRhetoricDeviation', () => {
+        const target = "We can't accept a valuation that ignores our pipeline.";
+
+        it('should match the word-level alignment distance without building the edit script', () => {
+            [
+                'we cannot accept that valuation',
+                'We will not accept a valuation that ignores our IP pipeline, period.',
+                '',
+                target
+            ].forEach(utterance => {
+                expect(computeRhetoricDeviation(utterance, target)).toBe(alignRhetoric(utterance, target).distance);
+            });
+        });
     });
 });
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    FLUSH_BATCH_SIZE,
+    FLUSH_INTERVAL_MS,
+    MAX_PENDING_SAMPLES,
+    MetricsIngestionQueue
+} from '../../services/MetricsIngestionQueue';
+import { NegotiationEntropyMetric } from '../../types';
+
+const sample = (timestamp: number): NegotiationEntropyMetric => ({
+    timestamp,
+    verbalVelocity: 140,
+    disfluency: { filledPauses: 0, repetitions: 0, restarts: 0, hedges: 0 },
+    levenshteinDelta: 4,
+    semanticAdherence: 0.6,
+    pauseCount: 0,
+    longestPauseMs: 0,
+    speechToSilenceRatio: 10,
+    spectralIntensity: 0,
+    sentimentValence: 0,
+    confidenceScore: 0.8,
+    logicDensity: 50,
+    aggressionIndex: 10,
+    clarityScore: 70
+});
+
+const enqueueMany = (queue: MetricsIngestionQueue, count: number, from = 0) => {
+    for (let index = 0; index < count; index++) queue.enqueue(sample(from + index));
+};
+
+// Timestamps of the samples in each request the queue sent
+const sentBatches = (fetchMock: ReturnType<typeof vi.fn>) =>
+    fetchMock.mock.calls.map(([, init]) =>
+        (JSON.parse(init.body).metrics as NegotiationEntropyMetric[]).map(metric => metric.timestamp)
+    );
+
+describe('MetricsIngestionQueue', () => {
+    let sessionId: string | null;
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        sessionId = 'session-1';
+        fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 201 }));
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('should send a full batch at once and a partial batch after the interval', async () => {
+        const queue = new MetricsIngestionQueue(() => sessionId);
+
+        enqueueMany(queue, FLUSH_BATCH_SIZE - 1);
+        expect(fetchMock).not.toHaveBeenCalled();
+        queue.enqueue(sample(FLUSH_BATCH_SIZE - 1));
+        await vi.advanceTimersByTimeAsync(0);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0][0]).toBe('/api/sessions/session-1/metrics');
+        expect(sentBatches(fetchMock)[0]).toHaveLength(FLUSH_BATCH_SIZE);
+
+        queue.enqueue(sample(100));
+        await vi.advanceTimersByTimeAsync(FLUSH_INTERVAL_MS - 1);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(sentBatches(fetchMock)[1]).toEqual([100]);
+    });
+
+    it('should re-queue a failed batch ahead of newer samples', async () => {
+        const queue = new MetricsIngestionQueue(() => sessionId);
+        fetchMock.mockResolvedValueOnce(new Response(null, { status: 500 }));
+
+        enqueueMany(queue, 2);
+        await queue.flush();
+        enqueueMany(queue, 1, 2);
+        await queue.flush();
+
+        expect(sentBatches(fetchMock)).toEqual([[0, 1], [0, 1, 2]]);
+    });
+
+    it('should hold samples without flushing until a session is bound', async () => {
+        sessionId = null;
+        const queue = new MetricsIngestionQueue(() => sessionId);
+
+        enqueueMany(queue, FLUSH_BATCH_SIZE * 2);
+        await vi.advanceTimersByTimeAsync(FLUSH_INTERVAL_MS);
+        expect(fetchMock).not.toHaveBeenCalled();
+
+        sessionId = 'session-1';
+        await queue.flush();
+        expect(sentBatches(fetchMock)[0]).toHaveLength(FLUSH_BATCH_SIZE * 2);
+    });
+
+    it('should keep only the newest samples beyond the cap', async () => {
+        sessionId = null;
+        const queue = new MetricsIngestionQueue(() => sessionId);
+
+        enqueueMany(queue, MAX_PENDING_SAMPLES + 5);
+        sessionId = 'session-1';
+        await queue.flush();
+
+        const [batch] = sentBatches(fetchMock);
+        expect(batch).toHaveLength(MAX_PENDING_SAMPLES);
+        expect(batch[0]).toBe(5);
+        expect(batch[batch.length - 1]).toBe(MAX_PENDING_SAMPLES + 4);
+    });
+
+    it('should drop pending samples and the scheduled flush on discard', async () => {
+        const queue = new MetricsIngestionQueue(() => sessionId);
+
+        enqueueMany(queue, 3);
+        queue.discard();
+        await vi.advanceTimersByTimeAsync(FLUSH_INTERVAL_MS);
+        await queue.flush();
+
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
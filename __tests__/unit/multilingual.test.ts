@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { baseLexiconFor, BASE_LEXICON_PACKS, locateNormalizedWords, matchLexicon } from '../../utils/lexicon';
+import { validateLexiconPack } from '../../utils/lexiconValidator';
+import { analyzeDisfluency } from '../../utils/disfluency';
+import { normalizeRhetoricTokens } from '../../utils/rhetoricAlignment';
+import { computeSemanticAdherence, stemToken } from '../../utils/semanticAdherence';
+import { validateScenario } from '../../utils/scenarioValidator';
+import { resolveLanguage } from '../../utils/language';
+import { LexiconRegistry } from '../../services/LexiconRegistry';
+import { buildSystemInstruction } from '../../services/personaPromptBuilder';
+import { SCENARIO_DB } from '../../data/scenarios';
+
+const [hostile] = SCENARIO_DB;
+
+describe('multilingual support', () => {
+    it('should keep accented letters inside tokens', () => {
+        expect(normalizeRhetoricTokens('Die Überprüfung ist unmöglich!', 'de')).toEqual(['die', 'überprüfung', 'ist', 'unmöglich']);
+        expect(normalizeRhetoricTokens("Nous avons demandé l'accord", 'fr')).toEqual(['nous', 'avons', 'demandé', 'l', 'accord']);
+    });
+
+    it('should locate words by UTF-16 offsets in accented text', () => {
+        const text = '¿Señor, qué opina?';
+        const spans = locateNormalizedWords(text, 'es');
+        expect(spans.map(span => text.slice(span.start, span.end))).toEqual(['Señor', 'qué', 'opina']);
+    });
+
+    it('should stem inflected forms of a language to one stem', () => {
+        expect(stemToken('forderungen', 'de')).toBe(stemToken('forderung', 'de'));
+        expect(stemToken('negociaciones', 'es')).toBe(stemToken('negociación', 'es'));
+    });
+
+    it('should score German and French phrases with their own packs', () => {
+        const german = matchLexicon('Das ist inakzeptabel, weil der Preis steigt', baseLexiconFor('de'));
+        expect(german.map(match => [match.category, match.phrase])).toEqual([
+            ['aggression', 'inakzeptabel'],
+            ['logic', 'weil']
+        ]);
+        expect(matchLexicon('Das ist inakzeptabel').map(match => match.phrase)).toEqual([]);
+    });
+
+    it('should find fillers and hedges of the lexicon language', () => {
+        const breakdown = analyzeDisfluency('Euh, en fait, on peut, tu sais, signer', baseLexiconFor('fr'));
+        expect(breakdown).toMatchObject({ filledPauses: 2, hedges: 1 });
+        expect(analyzeDisfluency('Le genre de contrat', baseLexiconFor('fr')).total).toBe(0);
+    });
+
+    it('should ship base packs that validate and declare their language', () => {
+        Object.entries(BASE_LEXICON_PACKS).forEach(([language, packs]) => {
+            packs.forEach(pack => {
+                expect(validateLexiconPack(pack).errors).toEqual([]);
+                expect(pack.language ?? 'en').toBe(language);
+            });
+        });
+    });
+
+    it('should skip scenario packs written for another language', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const lexicon = LexiconRegistry.getInstance().resolve({ packs: ['procurement-en'] }, 'de');
+        expect(lexicon.signature).toBe('core-de@1.0.0+fillers-de@1.0.0');
+        expect(lexicon.language).toBe('de');
+        expect(warn).toHaveBeenCalledWith('[LEXICON_REGISTRY] Lexicon pack "procurement-en" is en, not de; skipped');
+        warn.mockRestore();
+    });
+
+    it('should compare against the target in the scenario language', () => {
+        const adherence = computeSemanticAdherence('Wir brauchen Flexibilität bei den Lieferterminen', 'Flexibilität bei Lieferterminen', 'de');
+        expect(adherence).toBeGreaterThan(0.5);
+    });
+
+    it('should validate the scenario language and default stored rows to English', () => {
+        expect(validateScenario({ ...hostile, language: 'fr' }).scenario?.language).toBe('fr');
+        expect(validateScenario({ ...hostile, language: 'it' }).errors).toContain('language must be one of en, de, es, fr');
+        expect(resolveLanguage(null)).toBe('en');
+        expect(resolveLanguage('xx')).toBe('en');
+    });
+
+    it('should instruct the counterpart to negotiate in the scenario language', () => {
+        const german = buildSystemInstruction({ ...hostile, language: 'de' });
+        expect(german.instruction).toContain('LANGUAGE: Conduct the entire negotiation in German');
+        expect(german.version).not.toBe(buildSystemInstruction(hostile).version);
+        expect(buildSystemInstruction(hostile).instruction).not.toContain('LANGUAGE:');
+    });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { advanceNegotiation, createNegotiationState } from '../../utils/negotiationStateMachine';
+import { SimulationScenarioMatrix } from '../../types';
+
+const scenario: SimulationScenarioMatrix = {
+    id: 'SCN-DELTA-02',
+    designation: 'PROCUREMENT RENEWAL',
+    difficultyLevel: 'HIGH_YIELD',
+    targetRhetoricPattern: 'Renewal depends on a five percent reduction.',
+    negotiationParameters: { openingOffer: 100, patience: 2, maxTurns: 4 },
+    probabilityManifolds: [
+        {
+            key: 'close',
+            triggerCondition: '(deal|sign)',
+            syntheticResponse: 'Agreed.',
+            outcomeYield: 0.9,
+            preconditions: { afterManifolds: ['volume'] },
+            effects: { outcome: 'DEAL' },
+        },
+        {
+            key: 'volume',
+            triggerCondition: '(volume|commit)',
+            syntheticResponse: 'Volume helps.',
+            outcomeYield: 0.7,
+            cooldownTurns: 1,
+            followUps: ['close'],
+            effects: { offerAdjustment: -0.1 },
+        },
+        { key: 'threat', triggerCondition: '(walk|leave)', syntheticResponse: 'Go ahead.', outcomeYield: 0.1, effects: { patienceDelta: -1 } },
+    ],
+};
+
+const play = (utterances: string[]) =>
+    utterances.reduce((state, utterance) => advanceNegotiation(scenario, state, utterance).state, createNegotiationState(scenario));
+
+describe('negotiationStateMachine', () => {
+    it('should start from the scenario parameters', () => {
+        const state = createNegotiationState(scenario);
+        expect(state).toMatchObject({ turn: 0, currentOffer: 100, patience: 2, runningYield: null, outcome: null });
+    });
+
+    it('should hold back a branch until its parent manifold fires', () => {
+        const opening = advanceNegotiation(scenario, createNegotiationState(scenario), 'let us sign the deal');
+        expect(opening.firedIndex).toBeNull();
+        expect(opening.blockedIndices).toEqual([0]);
+
+        const afterVolume = play(['we can commit to volume']);
+        const closing = advanceNegotiation(scenario, afterVolume, 'then sign it');
+        expect(closing.firedIndex).toBe(0);
+        expect(closing.state.outcome).toBe('DEAL');
+        expect(closing.response).toContain('[OUTCOME: DEAL]');
+    });
+
+    it('should apply offer adjustments and keep a mean running yield', () => {
+        const state = play(['we can commit to volume', 'we might walk']);
+        expect(state.currentOffer).toBeCloseTo(90);
+        expect(state.runningYield).toBeCloseTo(0.4);
+        expect(state.patience).toBe(1);
+    });
+
+    it('should enforce cooldowns', () => {
+        const afterVolume = play(['volume']);
+        const repeat = advanceNegotiation(scenario, afterVolume, 'more volume');
+        expect(repeat.firedIndex).toBeNull();
+        expect(repeat.blockedIndices).toEqual([1]);
+    });
+
+    it('should walk away when patience runs out', () => {
+        const state = play(['we will walk', 'nothing relevant']);
+        expect(state.outcome).toBe('WALK_AWAY');
+    });
+
+    it('should end in a stalemate at the turn limit', () => {
+        const patient = { ...scenario, negotiationParameters: { openingOffer: 100, patience: 10, maxTurns: 4 } };
+        const state = ['volume', 'hmm', 'volume', 'hmm']
+            .reduce((current, utterance) => advanceNegotiation(patient, current, utterance).state, createNegotiationState(patient));
+        expect(state.outcome).toBe('STALEMATE');
+    });
+
+    it('should only repeat the closing line once an outcome is reached', () => {
+        const finished = play(['we will walk', 'nothing relevant']);
+        const result = advanceNegotiation(scenario, finished, 'volume');
+        expect(result.firedIndex).toBeNull();
+        expect(result.state).toBe(finished);
+        expect(result.response).toContain('[OUTCOME: WALK_AWAY]');
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { buildOfferLadder, computeZopa, extractOffers, parseNumeral, parseSpelledNumber } from '../../utils/offerExtractor';
+import { DialogueTransmissionVector } from '../../types';
+import { SCENARIO_DB } from '../../data/scenarios';
+
+const [hostile, salary] = SCENARIO_DB;
+
+let nextId = 0;
+const line = (origin: DialogueTransmissionVector['origin'], payload: string) => ({ id: `v${++nextId}`, origin, payload });
+
+const figures = (text: string, language?: Parameters<typeof extractOffers>[1]) =>
+    extractOffers(text, language).map(offer => [offer.value, offer.unit, offer.change]);
+
+describe('offerExtractor', () => {
+    it('should read currency amounts with symbols, scales and currency words', () => {
+        expect(figures('Our bid is $950 million, or 1.2bn with earn-outs, not $1,200,000.')).toEqual([
+            [950000000, 'USD', null],
+            [1200000000, 'USD', null],
+            [1200000, 'USD', null]
+        ]);
+        expect(figures('We can pay 80k dollars')).toEqual([[80000, 'USD', null]]);
+    });
+
+    it('should read percentages and spelled-out numbers', () => {
+        expect(figures('I want twenty percent plus equity')).toEqual([[20, 'PERCENT', null]]);
+        expect(figures('One point two billion is our number')).toEqual([[1200000000, 'USD', null]]);
+        expect(figures('a 12.5% raise')).toEqual([[12.5, 'PERCENT', null]]);
+    });
+
+    it('should skip bare numbers that are not on the table', () => {
+        expect(figures('We have 40 trucks and one more thing to settle by 2025.')).toEqual([]);
+    });
+
+    it('should mark relative changes and their direction', () => {
+        expect(figures('We are lowering the offer by 15%.')).toEqual([[15, 'PERCENT', 'DOWN']]);
+        expect(figures('That is 5% more than last year')).toEqual([[5, 'PERCENT', 'UP']]);
+        expect(figures('Call it 10% off.')).toEqual([[10, 'PERCENT', 'DOWN']]);
+    });
+
+    it('should read separators the way the language writes them', () => {
+        expect(parseNumeral('1,5', 'de')).toBe(1.5);
+        expect(parseNumeral('1.200', 'de')).toBe(1200);
+        expect(parseNumeral('1,200', 'en')).toBe(1200);
+        expect(parseNumeral('1.250', 'en')).toBe(1.25);
+        expect(parseNumeral('1.234.567,89', 'es')).toBe(1234567.89);
+        expect(figures('Unser Angebot: 1,2 Mio. Euro, also 10 Prozent weniger.', 'de')).toEqual([
+            [1200000, 'USD', null],
+            [10, 'PERCENT', 'DOWN']
+        ]);
+        expect(figures('Notre prix est 200 000 € hors taxes.', 'fr')).toEqual([[200000, 'USD', null]]);
+    });
+
+    it('should parse spelled-out numbers', () => {
+        expect(parseSpelledNumber('one hundred and twenty-five thousand')).toBe(125000);
+        expect(parseSpelledNumber('three point five')).toBe(3.5);
+        expect(parseSpelledNumber('point five')).toBeNull();
+    });
+
+    it('should build a ladder with concessions measured against each side\'s interest', () => {
+        const ladder = buildOfferLadder([
+            line('SYNTHETIC_AGENT', 'Our offer is $950 million.'),
+            line('OPERATOR', 'We need $1.4 billion.'),
+            line('SYNTHETIC_AGENT', 'We can raise it by 10%.'),
+            line('OPERATOR', 'At $1,045,000,000 you insult us; we could do $1.3bn.'),
+            line('SYNTHETIC_AGENT', 'Fine, $1.1 billion.'),
+            line('OPERATOR', 'Then $1.1 billion it is.')
+        ], hostile);
+
+        expect(ladder?.unit).toBe('USD');
+        expect(ladder?.operatorWantsHigher).toBe(true);
+        expect(ladder?.rungs.map(rung => [rung.side, rung.value, rung.concession])).toEqual([
+            ['SYNTHETIC_AGENT', 950000000, null],
+            ['OPERATOR', 1400000000, null],
+            ['SYNTHETIC_AGENT', 1045000000, 95000000],
+            ['OPERATOR', 1300000000, 100000000],
+            ['SYNTHETIC_AGENT', 1100000000, 55000000],
+            ['OPERATOR', 1100000000, 200000000]
+        ]);
+        expect(ladder?.zopa).toEqual({ low: 1050000000, high: 1200000000 });
+    });
+
+    it('should chart only figures in the reservation unit', () => {
+        const ladder = buildOfferLadder([
+            line('OPERATOR', 'I am asking for twenty percent, given the $2 million pipeline I closed.'),
+            line('SYNTHETIC_AGENT', 'We can do 10%.')
+        ], salary);
+
+        expect(ladder?.rungs.map(rung => [rung.side, rung.value])).toEqual([['OPERATOR', 20], ['SYNTHETIC_AGENT', 10]]);
+        expect(ladder?.zopa).toEqual({ low: 12, high: 15 });
+        expect(buildOfferLadder([line('OPERATOR', 'Hello there')], salary)).toBeNull();
+    });
+
+    it('should infer the direction of interest from the opening figures without a persona', () => {
+        const ladder = buildOfferLadder([line('OPERATOR', 'We offer $500k.'), line('SYNTHETIC_AGENT', 'We want $700k.'), line('OPERATOR', 'Make it $550k.')]);
+        expect(ladder?.operatorWantsHigher).toBe(false);
+        expect(ladder?.rungs[2].concession).toBe(50000);
+        expect(ladder?.zopa).toBeNull();
+    });
+
+    it('should leave the ZOPA open on an unconfigured side and empty when limits cross', () => {
+        expect(computeZopa({ value: 15, unit: 'PERCENT', bound: 'CEILING' }, null)).toEqual({ low: null, high: 15 });
+        expect(computeZopa(
+            { value: 10, unit: 'PERCENT', bound: 'CEILING' },
+            { value: 12, unit: 'PERCENT', bound: 'FLOOR' }
+        )).toBeNull();
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { buildSystemInstruction } from '../../services/personaPromptBuilder';
+import { SCENARIO_DB } from '../../data/scenarios';
+
+const [hostile, , lowYield] = SCENARIO_DB;
+
+describe('personaPromptBuilder', () => {
+    it('should embed the persona fields in the instruction', () => {
+        const { instruction } = buildSystemInstruction(hostile);
+        expect(instruction).toContain(hostile.persona!.role);
+        expect(instruction).toContain(hostile.persona!.batna);
+        expect(instruction).toContain('Never agree to more than $1,200,000,000.');
+    });
+
+    it('should prescribe different conduct per difficulty level', () => {
+        expect(buildSystemInstruction(hostile).instruction).toContain('CONDUCT (HOSTILE_TAKEOVER): Adversarial');
+        expect(buildSystemInstruction(lowYield).instruction).toContain('CONDUCT (LOW_YIELD): Cooperative');
+    });
+
+    it('should let the persona override conduct and tone for its difficulty', () => {
+        const persona = {
+            ...hostile.persona!,
+            difficultyStyles: { HOSTILE_TAKEOVER: { conduct: 'Stall, then demand exclusivity.' }, LOW_YIELD: { tone: 'Friendly' } },
+        };
+        const { instruction } = buildSystemInstruction({ ...hostile, persona });
+        expect(instruction).toContain('CONDUCT (HOSTILE_TAKEOVER): Stall, then demand exclusivity.');
+        expect(instruction).toContain(`TONE: ${hostile.persona!.tone}`);
+        expect(buildSystemInstruction({ ...hostile, difficultyLevel: 'LOW_YIELD', persona }).instruction).toContain('TONE: Friendly');
+    });
+
+    it('should change version when the persona changes', () => {
+        const edited = { ...hostile, persona: { ...hostile.persona!, tone: 'Warm and patient' } };
+        expect(buildSystemInstruction(edited).version).not.toBe(buildSystemInstruction(hostile).version);
+        expect(buildSystemInstruction(hostile).version).toBe(buildSystemInstruction({ ...hostile }).version);
+    });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+    parseGrade,
+    parseStrategicAnalysisReport,
+    validateStrategicAnalysisReport,
+} from '../../utils/reportValidator';
+
+const validReport = {
+    strengths: [{ point: 'Held the anchor', example: 'We categorically reject the valuation.' }],
+    missedOpportunities: [{ context: 'Accepted the premium', betterAlternative: 'Ask for volume terms first.' }],
+    psychologicalTacticsDetected: [{ tacticName: 'Flinch', description: 'Feigned shock at the offer.' }],
+    confidenceTrajectoryAnalysis: 'Confidence rose steadily after the second turn.',
+    trainingRecommendations: ['Practice silence after anchoring.'],
+    overallGrade: 'A',
+};
+
+describe('reportValidator', () => {
+    describe('validateStrategicAnalysisReport', () => {
+        it('should accept a well-formed report without issues', () => {
+            const { report, issues } = validateStrategicAnalysisReport(validReport);
+            expect(issues).toEqual([]);
+            expect(report).toEqual(validReport);
+        });
+
+        it('should default missing arrays so the debrief can render', () => {
+            const { report, issues } = validateStrategicAnalysisReport({ ...validReport, strengths: undefined });
+            expect(report.strengths).toEqual([]);
+            expect(issues).toContain('strengths must be an array');
+        });
+
+        it('should drop entries with empty strings', () => {
+            const { report, issues } = validateStrategicAnalysisReport({
+                ...validReport,
+                missedOpportunities: [{ context: '  ', betterAlternative: 'x' }],
+                trainingRecommendations: ['Drill one', ''],
+            });
+            expect(report.missedOpportunities).toEqual([]);
+            expect(report.trainingRecommendations).toEqual(['Drill one']);
+            expect(issues).toHaveLength(2);
+        });
+
+        it('should reject grades outside the enum', () => {
+            const { report, issues } = validateStrategicAnalysisReport({ ...validReport, overallGrade: 'A+' });
+            expect(report.overallGrade).toBeNull();
+            expect(issues).toEqual(['overallGrade must be one of S, A, B, C, F']);
+        });
+    });
+
+    describe('parseGrade', () => {
+        it('should read stored grades and leave anything else ungraded', () => {
+            expect(parseGrade('S')).toBe('S');
+            expect(parseGrade('A+')).toBeNull();
+            expect(parseGrade(null)).toBeNull();
+        });
+    });
+
+    describe('parseStrategicAnalysisReport', () => {
+        it('should tolerate code fences around the JSON', () => {
+            const { issues } = parseStrategicAnalysisReport('```json\n' + JSON.stringify(validReport) + '\n```');
+            expect(issues).toEqual([]);
+        });
+
+        it('should report free text as invalid JSON', () => {
+            const { report, issues } = parseStrategicAnalysisReport('Here is your report: great job!');
+            expect(issues[0]).toMatch(/^response is not valid JSON/);
+            expect(report.strengths).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { alignRhetoric, alignTokens, normalizeRhetoricTokens } from '../../utils/rhetoricAlignment';
+
+describe('rhetoricAlignment', () => {
+    describe('normalizeRhetoricTokens', () => {
+        it('should lowercase, strip punctuation and expand contractions', () => {
+            expect(normalizeRhetoricTokens("We CAN'T accept this—it won't work!")).toEqual(
+                ['we', 'can', 'not', 'accept', 'this', 'it', 'will', 'not', 'work']
+            );
+        });
+
+        it('should fold typographic apostrophes before expanding', () => {
+            expect(normalizeRhetoricTokens('We’re ready')).toEqual(['we', 'are', 'ready']);
+        });
+
+        it('should return no tokens for punctuation-only input', () => {
+            expect(normalizeRhetoricTokens(' ... !? ')).toEqual([]);
+        });
+    });
+
+    describe('alignTokens', () => {
+        it('should return distance 0 and only matches for identical sequences', () => {
+            const result = alignTokens(['hold', 'the', 'line'], ['hold', 'the', 'line']);
+            expect(result.distance).toBe(0);
+            expect(result.edits.every(edit => edit.operation === 'MATCH')).toBe(true);
+        });
+
+        it('should produce an edit script of inserts, deletes and substitutions', () => {
+            const result = alignTokens(['we', 'totally', 'reject', 'the', 'price'], ['we', 'reject', 'the', 'valuation', 'now']);
+            expect(result.distance).toBe(3);
+            expect(result.edits).toEqual([
+                { operation: 'MATCH', source: 'we', target: 'we' },
+                { operation: 'DELETE', source: 'totally', target: null },
+                { operation: 'MATCH', source: 'reject', target: 'reject' },
+                { operation: 'MATCH', source: 'the', target: 'the' },
+                { operation: 'SUBSTITUTE', source: 'price', target: 'valuation' },
+                { operation: 'INSERT', source: null, target: 'now' }
+            ]);
+        });
+
+        it('should insert every target word when the source is empty', () => {
+            const result = alignTokens([], ['a', 'b']);
+            expect(result.distance).toBe(2);
+            expect(result.edits.map(edit => edit.operation)).toEqual(['INSERT', 'INSERT']);
+        });
+
+        it('should have as many non-match edits as the distance', () => {
+            const result = alignTokens(['x', 'y', 'z', 'w'], ['y', 'q', 'w', 'r', 's']);
+            expect(result.edits.filter(edit => edit.operation !== 'MATCH')).toHaveLength(result.distance);
+        });
+    });
+
+    describe('alignRhetoric', () => {
+        it('should treat case, punctuation and contraction variants as identical', () => {
+            const result = alignRhetoric('we cannot accept, that is final', "We can't accept that is FINAL.");
+            expect(result.distance).toBe(0);
+        });
+
+        it('should score a close paraphrase far better than gibberish', () => {
+            const target = 'We need to align on a delivery schedule that mitigates our inventory risk.';
+            const paraphrase = alignRhetoric('We need to agree on a delivery schedule that reduces our inventory risk', target);
+            const gibberish = alignRhetoric('banana keyboard purple', target);
+            expect(paraphrase.distance).toBe(2);
+            expect(gibberish.distance).toBe(paraphrase.targetTokenCount);
+        });
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ScenarioInjectionModule } from '../../services/ScenarioInjectionModule';
+import { SimulationScenarioMatrix } from '../../types';
+
+const draft: SimulationScenarioMatrix = {
+    id: 'SCN-DELTA-02',
+    designation: 'PROCUREMENT RENEWAL',
+    difficultyLevel: 'HIGH_YIELD',
+    targetRhetoricPattern: 'Renewal depends on a five percent reduction.',
+    probabilityManifolds: [
+        { triggerCondition: '(discount|reduction)', syntheticResponse: 'Our margins are already thin.', outcomeYield: 0.4 },
+        { triggerCondition: '(price|discount)', syntheticResponse: 'Price is not the issue.', outcomeYield: 0.7 },
+        { triggerCondition: '(broken', syntheticResponse: 'Never fires.', outcomeYield: 0.1 },
+    ],
+};
+
+describe('ScenarioInjectionModule.simulateScenario', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const engine = ScenarioInjectionModule.getInstance();
+
+    it('should draw among overlapping manifolds and explain the winner', () => {
+        const result = engine.simulateScenario(draft, 'We need a DISCOUNT on the price');
+        expect(result.matchingIndices).toEqual([0, 1]);
+        expect(result.matchingIndices).toContain(result.firedIndex);
+        expect(result.outcomeYield).toBe(draft.probabilityManifolds[result.firedIndex!].outcomeYield);
+        expect(result.selectionReason).toMatch(/weighted draw .* \[#1 50%, #2 50%\]/);
+    });
+
+    it('should fall back when nothing matches', () => {
+        const result = engine.simulateScenario(draft, 'Let us talk about timelines');
+        expect(result.firedIndex).toBeNull();
+        expect(result.outcomeYield).toBeNull();
+        expect(result.matchingIndices).toEqual([]);
+    });
+
+    it('should skip triggers that do not compile instead of throwing', () => {
+        const result = engine.simulateScenario(draft, 'anything');
+        expect(result.invalidIndices).toEqual([2]);
+    });
+
+    it('should dry-run without writing the offline turn audit log', () => {
+        log.mockClear();
+        engine.simulateScenario(draft, 'We need a discount');
+        engine.simulateScenario(draft, 'Let us talk about timelines');
+        expect(log).not.toHaveBeenCalled();
+    });
+});
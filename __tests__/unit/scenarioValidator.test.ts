@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { validateScenario } from '../../utils/scenarioValidator';
+import { SCENARIO_DB } from '../../data/scenarios';
+
+const draft = {
+    id: 'SCN-DELTA-02',
+    designation: 'PROCUREMENT RENEWAL',
+    difficultyLevel: 'HIGH_YIELD',
+    targetRhetoricPattern: 'Renewal depends on a five percent reduction.',
+    probabilityManifolds: [
+        { triggerCondition: '(discount|reduction)', syntheticResponse: 'Our margins are already thin.', outcomeYield: 0.4 },
+    ],
+};
+
+describe('scenarioValidator', () => {
+    it('should accept every bundled scenario', () => {
+        SCENARIO_DB.forEach((scenario) => {
+            expect(validateScenario(scenario).errors).toEqual([]);
+        });
+    });
+
+    it('should accept a well-formed draft', () => {
+        const { scenario, errors } = validateScenario(draft);
+        expect(errors).toEqual([]);
+        expect(scenario?.id).toBe('SCN-DELTA-02');
+    });
+
+    it('should reject a trigger condition that does not compile', () => {
+        const { scenario, errors } = validateScenario({
+            ...draft,
+            probabilityManifolds: [{ ...draft.probabilityManifolds[0], triggerCondition: '(discount|reduction' }],
+        });
+        expect(scenario).toBeNull();
+        expect(errors[0]).toMatch(/^probabilityManifolds\[0\]\.triggerCondition is not a valid regex/);
+    });
+
+    it('should reject unknown difficulty levels and out-of-range yields', () => {
+        const { errors } = validateScenario({
+            ...draft,
+            difficultyLevel: 'IMPOSSIBLE',
+            probabilityManifolds: [{ ...draft.probabilityManifolds[0], outcomeYield: 1.5 }],
+        });
+        expect(errors).toHaveLength(2);
+    });
+
+    it('should keep state-machine fields and reject branches to unknown keys', () => {
+        const branching = {
+            ...draft,
+            negotiationParameters: { openingOffer: 5, patience: 3, maxTurns: 8 },
+            probabilityManifolds: [
+                { ...draft.probabilityManifolds[0], key: 'discount', cooldownTurns: 2, followUps: ['close'] },
+                { triggerCondition: 'sign', syntheticResponse: 'Done.', outcomeYield: 0.9, key: 'close', effects: { outcome: 'DEAL' } },
+            ],
+        };
+        const { scenario, errors } = validateScenario(branching);
+        expect(errors).toEqual([]);
+        expect(scenario?.probabilityManifolds[0]).toMatchObject({ key: 'discount', cooldownTurns: 2, followUps: ['close'] });
+        expect(scenario?.negotiationParameters?.patience).toBe(3);
+
+        const dangling = validateScenario({
+            ...branching,
+            probabilityManifolds: [{ ...branching.probabilityManifolds[0], followUps: ['missing'] }],
+        });
+        expect(dangling.errors).toEqual(['probabilityManifolds[0].followUps references unknown manifold key "missing"']);
+    });
+
+    it('should require the operator reservation to face the persona reservation', () => {
+        const [hostile] = SCENARIO_DB;
+        const facing = validateScenario({ ...hostile, operatorReservationPrice: { value: 1000000000, unit: 'USD', bound: 'FLOOR' } });
+        expect(facing.scenario?.operatorReservationPrice).toEqual({ value: 1000000000, unit: 'USD', bound: 'FLOOR' });
+
+        const { errors } = validateScenario({ ...hostile, operatorReservationPrice: { value: 20, unit: 'PERCENT', bound: 'CEILING' } });
+        expect(errors).toEqual([
+            'operatorReservationPrice.unit must match persona.reservationPrice.unit',
+            'operatorReservationPrice.bound must be the opposite of persona.reservationPrice.bound',
+        ]);
+    });
+
+    it('should validate per-difficulty persona styles', () => {
+        const [hostile] = SCENARIO_DB;
+        const styled = (difficultyStyles: unknown) => validateScenario({ ...hostile, persona: { ...hostile.persona!, difficultyStyles } });
+
+        expect(styled({ HOSTILE_TAKEOVER: { tone: 'Icy and clipped' } }).errors).toEqual([]);
+        expect(styled({ BRUTAL: { conduct: 'Never concede.' }, LOW_YIELD: { conduct: ' ' } }).errors).toEqual([
+            'persona.difficultyStyles.BRUTAL is not one of LOW_YIELD, HIGH_YIELD, HOSTILE_TAKEOVER',
+            'persona.difficultyStyles.LOW_YIELD.conduct must be a non-empty string',
+        ]);
+        expect(styled(['LOW_YIELD']).errors).toEqual(['persona.difficultyStyles must be an object keyed by difficulty level']);
+    });
+});
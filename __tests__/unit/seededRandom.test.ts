@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { hashSeed, nextRandom, pickWeightedIndex } from '../../utils/seededRandom';
+import { advanceNegotiation, createNegotiationState } from '../../utils/negotiationStateMachine';
+import { SimulationScenarioMatrix } from '../../types';
+
+const scenario: SimulationScenarioMatrix = {
+    id: 'SCN-DELTA-02',
+    designation: 'PROCUREMENT RENEWAL',
+    difficultyLevel: 'HIGH_YIELD',
+    targetRhetoricPattern: 'Renewal depends on a five percent reduction.',
+    negotiationParameters: { openingOffer: null, patience: 50, maxTurns: 500 },
+    probabilityManifolds: [
+        { key: 'soft', triggerCondition: 'price', syntheticResponse: 'Soft.', outcomeYield: 0.5, weight: 1 },
+        {
+            key: 'hard',
+            triggerCondition: 'price',
+            syntheticResponse: 'Hard.',
+            alternativeResponses: ['Harder.'],
+            outcomeYield: 0.5,
+            weight: 3,
+        },
+    ],
+};
+
+const playMany = (seed: number, turns: number) => {
+    let state = createNegotiationState(scenario, seed);
+    const fired: (number | null)[] = [];
+    for (let i = 0; i < turns; i++) {
+        const result = advanceNegotiation(scenario, state, 'about the price');
+        fired.push(result.firedIndex);
+        state = result.state;
+    }
+    return fired;
+};
+
+describe('seededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+        const a = nextRandom(42);
+        const b = nextRandom(42);
+        expect(a).toEqual(b);
+        expect(nextRandom(a.state).value).toBe(nextRandom(b.state).value);
+        expect(a.value).toBeGreaterThanOrEqual(0);
+        expect(a.value).toBeLessThan(1);
+    });
+
+    it('should hash session ids to stable, distinct seeds', () => {
+        expect(hashSeed('session-a')).toBe(hashSeed('session-a'));
+        expect(hashSeed('session-a')).not.toBe(hashSeed('session-b'));
+    });
+
+    it('should pick indices in proportion to their weights', () => {
+        expect(pickWeightedIndex([1, 3], 0.2)).toBe(0);
+        expect(pickWeightedIndex([1, 3], 0.3)).toBe(1);
+        expect(pickWeightedIndex([1, 3], 0.999)).toBe(1);
+    });
+
+    it('should replay a seeded negotiation exactly', () => {
+        expect(playMany(7, 40)).toEqual(playMany(7, 40));
+        expect(playMany(7, 40)).not.toEqual(playMany(8, 40));
+    });
+
+    it('should favour heavier manifolds over many draws', () => {
+        const fired = playMany(hashSeed('distribution'), 400);
+        const hardShare = fired.filter((index) => index === 1).length / fired.length;
+        expect(hardShare).toBeGreaterThan(0.65);
+        expect(hardShare).toBeLessThan(0.85);
+    });
+});
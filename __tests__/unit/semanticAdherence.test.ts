@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { computeSemanticAdherence, embedText, EMBEDDING_DIMENSIONS, stemToken } from '../../utils/semanticAdherence';
+
+const TARGET = 'We need to align on a delivery schedule that mitigates our inventory risk.';
+
+describe('semanticAdherence', () => {
+    it('should fold plurals and tense when stemming', () => {
+        expect(stemToken('schedules')).toBe(stemToken('schedule'));
+        expect(stemToken('process')).toBe('process');
+        expect(stemToken('mitigated')).toBe(stemToken('mitigates'));
+        expect(stemToken('is')).toBe('is');
+    });
+
+    it('should embed into a fixed-size deterministic vector', () => {
+        const first = embedText(TARGET);
+        expect(first).toHaveLength(EMBEDDING_DIMENSIONS);
+        expect(Array.from(embedText(TARGET))).toEqual(Array.from(first));
+    });
+
+    it('should score the target against itself as 1', () => {
+        expect(computeSemanticAdherence(TARGET, TARGET)).toBeCloseTo(1, 5);
+    });
+
+    it('should score 0 when the utterance has no content words', () => {
+        expect(computeSemanticAdherence('um, we, the...', TARGET)).toBe(0);
+    });
+
+    it('should rank a reworded paraphrase above an unrelated utterance', () => {
+        const paraphrase = computeSemanticAdherence('Can we agree on delivery schedules that reduce the inventory risks we carry?', TARGET);
+        const unrelated = computeSemanticAdherence('My performance metrics justify a twenty percent raise.', TARGET);
+        expect(paraphrase).toBeGreaterThan(0.5);
+        expect(unrelated).toBeLessThan(0.2);
+    });
+
+    it('should be insensitive to case, punctuation and word order', () => {
+        const reordered = computeSemanticAdherence('Inventory risk: mitigate it with a delivery schedule we align on!', TARGET);
+        expect(reordered).toBeGreaterThan(0.7);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { SentimentMatrixCalculator } from '../../utils/AlgorithmicCore';
+import { locateNormalizedWords } from '../../utils/lexicon';
+
+describe('SentimentMatrixCalculator breakdown', () => {
+    it('should locate normalized words in the original text, contractions sharing their token', () => {
+        expect(locateNormalizedWords("We don't  budge!")).toEqual([
+            { start: 0, end: 2 },
+            { start: 3, end: 8 },
+            { start: 3, end: 8 },
+            { start: 10, end: 15 }
+        ]);
+    });
+
+    it('should highlight contributing words at their character offsets', () => {
+        const text = 'Um, I absolutely demand it because the data says so';
+        const { highlights } = SentimentMatrixCalculator.explain(text, 0.1);
+        expect(highlights.map(h => [text.slice(h.start, h.end), h.category])).toEqual([
+            ['Um', 'hesitation'],
+            ['absolutely', 'intensifier'],
+            ['demand', 'aggression'],
+            ['because', 'logic'],
+            ['data', 'logic']
+        ]);
+    });
+
+    it('should list every confidence penalty and bonus that produced the score', () => {
+        const explanation = SentimentMatrixCalculator.explain('Um, you know, I must insist because of the data', 0.01);
+        expect(explanation.disfluency.markers.map(marker => marker.phrase)).toEqual(['um', 'you know']);
+        expect(explanation.mumblingPenaltyApplied).toBe(true);
+        expect(explanation.confidenceContributions.map(c => c.source)).toEqual(['FILLED_PAUSE', 'MUMBLING', 'LOGIC', 'AGGRESSION']);
+
+        const total = explanation.confidenceContributions.reduce((sum, c) => sum + c.delta, 1);
+        expect(explanation.factor.confidenceScore).toBeCloseTo(Math.max(0, Math.min(1, total)));
+    });
+
+    it('should report the clarity verbosity penalty and logic bonus', () => {
+        const text = 'Therefore the result is proven';
+        const explanation = SentimentMatrixCalculator.explain(text, 0.1);
+        expect(explanation.verbosityPenalty).toBeCloseTo(text.length * 0.02);
+        expect(explanation.clarityLogicBonus).toBeCloseTo(45 * 0.3);
+        expect(explanation.factor.clarityScore).toBe(100);
+        expect(explanation.mumblingPenaltyApplied).toBe(false);
+    });
+});
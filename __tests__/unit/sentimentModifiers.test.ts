@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { SentimentMatrixCalculator } from '../../utils/AlgorithmicCore';
+import { compileLexicon, DEFAULT_LEXICON_PACKS } from '../../utils/lexicon';
+import corpus from '../fixtures/sentimentCorpus.json';
+
+type Relation = 'LOWER' | 'SAME' | 'HIGHER';
+
+// Above the mumbling penalty, below the level where raw energy replaces valence
+const SPECTRAL_INTENSITY = 0.1;
+
+// Lexicon matching alone, as scored before negation and intensifiers existed
+const BASELINE_LEXICON = compileLexicon(DEFAULT_LEXICON_PACKS.map(pack => {
+    const { negation: _negation, intensifier: _intensifier, ...categories } = pack.categories;
+    return { ...pack, categories };
+}));
+
+const relationOf = (value: number, baseline: number): Relation =>
+    Math.abs(value - baseline) < 1e-9 ? 'SAME' : value < baseline ? 'LOWER' : 'HIGHER';
+
+const polarityOf = (valence: number) => (valence > 0 ? 'POSITIVE' : valence < 0 ? 'NEGATIVE' : 'NEUTRAL');
+
+describe('SentimentMatrixCalculator negation and intensifiers', () => {
+    describe('labelled corpus', () => {
+        corpus.entries.forEach(entry => {
+            it(`should score "${entry.text}" as labelled`, () => {
+                const factor = SentimentMatrixCalculator.analyze(entry.text, SPECTRAL_INTENSITY);
+                const baseline = SentimentMatrixCalculator.analyze(entry.text, SPECTRAL_INTENSITY, undefined, BASELINE_LEXICON);
+
+                expect(polarityOf(factor.emotionalResonanceIndex)).toBe(entry.valence);
+                expect(factor.aggressionIndex > 0).toBe(entry.aggressive);
+
+                const expected = entry.versusBaseline as Partial<Record<'aggression' | 'valence' | 'logic', Relation>>;
+                if (expected.aggression) expect(relationOf(factor.aggressionIndex, baseline.aggressionIndex)).toBe(expected.aggression);
+                if (expected.valence) expect(relationOf(factor.emotionalResonanceIndex, baseline.emotionalResonanceIndex)).toBe(expected.valence);
+                if (expected.logic) expect(relationOf(factor.logicDensity, baseline.logicDensity)).toBe(expected.logic);
+            });
+        });
+    });
+
+    describe('explain', () => {
+        it('should trace a negated phrase with its modifier and effect', () => {
+            const { trace } = SentimentMatrixCalculator.explain('I do not demand a new valuation');
+            expect(trace).toHaveLength(1);
+            expect(trace[0]).toMatchObject({
+                phrase: 'demand',
+                category: 'aggression',
+                baseWeight: 0.8,
+                adjustments: [{ kind: 'NEGATION', modifier: 'not', strength: 1 }],
+                aggressionDelta: 0
+            });
+            expect(trace[0].valenceDelta).toBeCloseTo(0.4);
+            expect(trace[0].explanation).toBe('"demand" (aggression 0.8) negated by "not": aggression 0, valence +0.4');
+        });
+
+        it('should trace intensifiers and diminishers with their multiplier', () => {
+            const { trace } = SentimentMatrixCalculator.explain('That is absolutely fair, but slightly ridiculous');
+            expect(trace.map(entry => entry.explanation)).toEqual([
+                '"fair" (conciliatory 0.6) intensified ×1.5 by "absolutely": valence +0.9',
+                '"ridiculous" (aggression 0.8) diminished ×0.6 by "slightly": aggression 48, valence -0.48'
+            ]);
+        });
+
+        it('should not carry negation across clause punctuation', () => {
+            const { trace } = SentimentMatrixCalculator.explain('No. We must act now');
+            expect(trace.every(entry => entry.adjustments.length === 0)).toBe(true);
+        });
+
+        it('should return the same factor as analyze', () => {
+            const text = 'We absolutely refuse, because the data is not proven';
+            expect(SentimentMatrixCalculator.explain(text, 0.3).factor).toEqual(SentimentMatrixCalculator.analyze(text, 0.3));
+        });
+    });
+});
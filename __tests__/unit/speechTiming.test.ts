@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+    activityFromEvents,
+    MAX_SPEECH_TO_SILENCE_RATIO,
+    summarizeSpeechTiming,
+    VoiceActivityDetector
+} from '../../utils/speechTiming';
+import { calculateVerbalVelocityScore } from '../../utils/AlgorithmicCore';
+
+// Feeds a constant RMS level every 10ms over [from, to)
+const feed = (detector: VoiceActivityDetector, rms: number, from: number, to: number) => {
+    for (let t = from; t < to; t += 10) detector.ingest(rms, t);
+};
+
+describe('speechTiming', () => {
+    it('should open a voiced segment at onset and close it after the hangover', () => {
+        const detector = new VoiceActivityDetector();
+        feed(detector, 0, 0, 500);
+        feed(detector, 0.05, 500, 1500);
+        feed(detector, 0, 1500, 2500);
+
+        expect(detector.segmentsBetween(0, 2500)).toEqual([{ start: 500, end: 1490 }]);
+    });
+
+    it('should bridge dips that stay above the release threshold or inside the hangover', () => {
+        const detector = new VoiceActivityDetector();
+        feed(detector, 0.05, 0, 500);
+        feed(detector, 0.015, 500, 700); // Between release and onset
+        feed(detector, 0.001, 700, 850); // Shorter than the hangover
+        feed(detector, 0.05, 850, 1000);
+
+        expect(detector.segmentsBetween(0, 1000)).toEqual([{ start: 0, end: 990 }]);
+    });
+
+    it('should clip segments to the requested window, including the open one', () => {
+        const detector = new VoiceActivityDetector();
+        feed(detector, 0.05, 0, 1000);
+        feed(detector, 0, 1000, 1500);
+        feed(detector, 0.05, 1500, 2000);
+
+        expect(detector.segmentsBetween(800, 1700)).toEqual([
+            { start: 800, end: 990 },
+            { start: 1500, end: 1700 }
+        ]);
+    });
+
+    it('should count only internal pauses at or above the minimum', () => {
+        const stats = summarizeSpeechTiming([
+            { start: 1000, end: 2000 },
+            { start: 2100, end: 3000 }, // 100ms gap: articulation
+            { start: 4000, end: 5000 } // 1000ms gap: pause
+        ], 250);
+
+        expect(stats.speakingMs).toBe(2900);
+        expect(stats.elapsedMs).toBe(4000);
+        expect(stats.pauseCount).toBe(1);
+        expect(stats.longestPauseMs).toBe(1000);
+        expect(stats.speechToSilenceRatio).toBeCloseTo(2900 / 1100, 5);
+    });
+
+    it('should cap the ratio when there was no silence and report zeros without speech', () => {
+        expect(summarizeSpeechTiming([{ start: 0, end: 3000 }]).speechToSilenceRatio).toBe(MAX_SPEECH_TO_SILENCE_RATIO);
+        expect(summarizeSpeechTiming([])).toEqual({
+            speakingMs: 0,
+            elapsedMs: 0,
+            pauseCount: 0,
+            longestPauseMs: 0,
+            speechToSilenceRatio: 0
+        });
+    });
+
+    it('should merge keystrokes into typing bursts', () => {
+        const segments = activityFromEvents([0, 100, 200, 2000, 2100], 300);
+        expect(segments).toEqual([
+            { start: 0, end: 500 },
+            { start: 2000, end: 2400 }
+        ]);
+        expect(summarizeSpeechTiming(segments, 1000).pauseCount).toBe(1);
+    });
+
+    it('should derive words per minute from measured speaking time', () => {
+        const stats = summarizeSpeechTiming([{ start: 0, end: 2000 }, { start: 3000, end: 4000 }]);
+        const { velocity } = calculateVerbalVelocityScore('we can close this today', stats.speakingMs / 1000);
+        expect(velocity).toBeCloseTo(100, 5); // 5 words in 3s of speech
+    });
+
+    it('should report zero velocity but still count disfluencies when timing is unmeasured', () => {
+        const result = calculateVerbalVelocityScore('um, we can, uh, close', 0);
+        expect(result.velocity).toBe(0);
+        expect(result.disfluency.filledPauses).toBe(2);
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { annotateTactics, detectTactics, detectTurnTactics, extendTacticAnnotations, parseStoredTactics, tacticsOf } from '../../utils/tacticDetector';
+import { DialogueTransmissionVector } from '../../types';
+
+type Line = Pick<DialogueTransmissionVector, 'origin' | 'payload'>;
+
+const operator = (payload: string): Line => ({ origin: 'OPERATOR', payload });
+const agent = (payload: string): Line => ({ origin: 'SYNTHETIC_AGENT', payload });
+
+const tacticsIn = (line: Line, earlier: Line[] = []) => tacticsOf(detectTactics(line, earlier));
+
+describe('tacticDetector', () => {
+    it('should flag the first figure framed as an offer as an anchor, and only the first', () => {
+        const [anchor] = detectTactics(agent('Our price is $2.4 million for the fleet.'), []);
+        expect(anchor).toMatchObject({ tactic: 'ANCHORING', cue: '$2.4 million' });
+
+        expect(tacticsIn(operator('How about $1.8 million?'), [agent('Our price is $2.4 million.')])).toEqual([]);
+        expect(tacticsIn(agent('We have 40 trucks in the fleet.'))).toEqual([]);
+    });
+
+    it('should flag shock only when it answers a figure', () => {
+        const offer = agent('We are asking for 30% upfront.');
+        expect(tacticsIn(operator("What? You can't be serious."), [offer])).toEqual(['FLINCH']);
+        expect(tacticsIn(operator('Wow, thanks for the tour.'), [agent('Welcome to the plant.')])).toEqual([]);
+    });
+
+    it('should flag add-ons once the deal looks settled', () => {
+        const ask = operator('Oh, and could you also throw in free shipping?');
+        expect(tacticsIn(ask, [agent('Fine, we have a deal.')])).toEqual(['NIBBLING']);
+        expect(tacticsIn(ask, [agent('Tell me what you need.')])).toEqual([]);
+    });
+
+    it('should pair an absent hard-liner with personal goodwill', () => {
+        const hardLine = agent('My board will never approve that number.');
+        expect(tacticsIn(hardLine)).toEqual([]);
+        expect(tacticsIn(hardLine, [agent("Between us, I'd like to help you here.")])).toEqual(['GOOD_COP_BAD_COP']);
+    });
+
+    it('should flag deadline pressure and BATNA reveals from their phrasing', () => {
+        expect(tacticsIn(agent('This offer expires by Friday.'))).toEqual(['DEADLINE_PRESSURE']);
+        expect(tacticsIn(operator('We have another supplier ready to sign.'))).toEqual(['BATNA_REVEAL']);
+        expect(tacticsIn(operator('Our other offices agree.'))).toEqual([]);
+    });
+
+    it('should flag concession framing only when the figure has not moved', () => {
+        const earlier = [agent('Our price is $500k.')];
+        expect(tacticsIn(agent('As a favor, we can hold it at $500k.'), earlier)).toEqual(['FALSE_CONCESSION']);
+        expect(tacticsIn(agent('As a favor, we can do $450k.'), earlier)).toEqual([]);
+    });
+
+    it('should annotate a conversation in order with cue offsets into each message', () => {
+        const lines = [agent('Our offer is €90,000, valid until Monday.'), operator('That is way too high! We have a better quote.')];
+        const annotated = annotateTactics(lines);
+
+        expect(annotated.map(tacticsOf)).toEqual([['ANCHORING', 'DEADLINE_PRESSURE'], ['FLINCH', 'BATNA_REVEAL']]);
+        annotated.forEach((detections, index) => detections.forEach(found => {
+            expect(lines[index].payload.slice(found.start, found.end)).toBe(found.cue);
+        }));
+    });
+
+    it('should reuse detections of unchanged messages and re-detect from the first change', () => {
+        const lines = [
+            { id: 'a', ...agent('Our offer is €90,000.') },
+            { id: 'b', ...operator('That is way too high!') }
+        ];
+        const first = extendTacticAnnotations(lines, []);
+        expect(first.map(annotation => tacticsOf(annotation.detections))).toEqual([['ANCHORING'], ['FLINCH']]);
+
+        const grown = extendTacticAnnotations([...lines, { id: 'c', ...agent('Valid until Monday.') }], first);
+        expect(grown[0]).toBe(first[0]);
+        expect(grown[1]).toBe(first[1]);
+        expect(tacticsOf(grown[2].detections)).toEqual(['DEADLINE_PRESSURE']);
+
+        const edited = extendTacticAnnotations([lines[0], { id: 'b', ...operator('Sounds fair.') }], grown);
+        expect(edited).toHaveLength(2);
+        expect(edited[0]).toBe(first[0]);
+        expect(edited[1].detections).toEqual([]);
+    });
+
+    it('should use the patterns of the conversation language', () => {
+        expect(tacticsOf(detectTactics(agent('Das Angebot ist nur heute gültig, wir haben ein anderes Angebot.'), [], 'de')))
+            .toEqual(['DEADLINE_PRESSURE', 'BATNA_REVEAL']);
+        expect(tacticsOf(detectTactics(operator("Vous plaisantez ? C'est beaucoup trop cher."), [agent('Notre prix est 200 000 €.')], 'fr')))
+            .toEqual(['FLINCH']);
+    });
+
+    it('should split a turn into prompt and response tactics', () => {
+        expect(detectTurnTactics('Our budget is $80k, final by tomorrow.', 'Whoa, that is way too low.', [])).toEqual({
+            promptTactics: ['ANCHORING', 'DEADLINE_PRESSURE'],
+            responseTactics: ['FLINCH']
+        });
+    });
+
+    it('should read stored labels, dropping unknown ones and keeping legacy rows null', () => {
+        expect(parseStoredTactics('["FLINCH","SHOUTING"]')).toEqual(['FLINCH']);
+        expect(parseStoredTactics(null)).toBeNull();
+        expect(parseStoredTactics('not json')).toBeNull();
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import type { NegotiationTurn } from '@prisma/client';
+import { expandTurns, toTurnRecord } from '../../utils/turnTranscript';
+
+const row: NegotiationTurn = {
+    id: 't1',
+    sessionId: 's1',
+    prompt: 'Our budget is $80k.',
+    response: 'Whoa, that is way too low.',
+    latencyMs: 1200,
+    cacheHit: false,
+    timestamp: new Date('2026-01-01T10:00:00.000Z'),
+    outcomeYield: 0.4,
+    yieldSource: 'MANIFOLD',
+    yieldRationale: null,
+    negotiationOutcome: null,
+    promptTactics: '["ANCHORING"]',
+    responseTactics: null,
+};
+
+describe('turnTranscript', () => {
+    it('should map a stored row to a turn record with parsed tactics', () => {
+        expect(toTurnRecord(row)).toMatchObject({
+            timestamp: '2026-01-01T10:00:00.000Z',
+            promptTactics: ['ANCHORING'],
+            responseTactics: null,
+        });
+    });
+
+    it('should read unknown stored labels as null', () => {
+        expect(toTurnRecord({ ...row, negotiationOutcome: 'DEAL' })).toMatchObject({ yieldSource: 'MANIFOLD', negotiationOutcome: 'DEAL' });
+        expect(toTurnRecord({ ...row, yieldSource: 'ORACLE', negotiationOutcome: 'SURRENDER' })).toMatchObject({ yieldSource: null, negotiationOutcome: null });
+    });
+
+    it('should expand each turn into the prompt placed before its reply', () => {
+        const respondedAt = row.timestamp.getTime();
+        expect(expandTurns([toTurnRecord(row)])).toEqual([
+            { id: 't1-prompt', origin: 'OPERATOR', payload: row.prompt, timestamp: respondedAt - 1200, metadata: { tactics: ['ANCHORING'] } },
+            { id: 't1-response', origin: 'SYNTHETIC_AGENT', payload: row.response, timestamp: respondedAt, metadata: { thinkingDurationMs: 1200, tactics: undefined } },
+        ]);
+    });
+});
@@ -1,18 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
+import { MetricsRepository } from '../../../services/metricsRepository';
+import { resolveModelProvider } from '../../../services/NegotiationModelProvider';
+import { ReportRepository } from '../../../services/reportRepository';
+import { StrategicAnalysisService } from '../../../services/strategicAnalysisService';
+import { resolveLanguage } from '../../../utils/language';
 
 interface AnalysisRequest {
+    sessionId?: string;
+    language?: string; // NegotiationLanguage of the session; English when absent or unsupported
     history: Array<{
         id: string;
         origin: 'OPERATOR' | 'SYNTHETIC_AGENT';
         payload: string;
         timestamp: number;
     }>;
-    metrics: Array<{
+    metrics?: Array<{
         timestamp: number;
         verbalVelocity: number;
-        hesitationMarkers: number;
+        disfluency: {
+            filledPauses: number;
+            repetitions: number;
+            restarts: number;
+            hedges: number;
+        };
         levenshteinDelta: number;
+        semanticAdherence: number;
+        pauseCount: number;
+        longestPauseMs: number;
+        speechToSilenceRatio: number;
         spectralIntensity: number;
         sentimentValence: number;
         confidenceScore: number;
@@ -24,8 +39,8 @@ interface AnalysisRequest {
 
 export async function POST(request: NextRequest) {
     try {
-        const apiKey = process.env.GEMINI_API_KEY;
-        if (!apiKey) {
+        const provider = resolveModelProvider();
+        if (!provider) {
             return NextResponse.json(
                 { error: 'API service not configured' },
                 { status: 500 }
@@ -33,64 +48,42 @@ export async function POST(request: NextRequest) {
         }
 
         const body: AnalysisRequest = await request.json();
-        const { history, metrics } = body;
+        const { history, sessionId } = body;
 
-        if (!history || !metrics) {
+        if (!history || (!body.metrics && !sessionId)) {
             return NextResponse.json(
                 { error: 'History and metrics are required' },
                 { status: 400 }
             );
         }
 
-        // Calculate metrics summary
-        const avgConfidence = metrics.reduce((acc, m) => acc + m.confidenceScore, 0) / (metrics.length || 1);
-        const maxVelocity = Math.max(...metrics.map(m => m.verbalVelocity));
-        const avgHesitation = metrics.reduce((acc, m) => acc + m.hesitationMarkers, 0) / (metrics.length || 1);
-
-        // Construct context
-        const context = history.map(h =>
-            `[${new Date(h.timestamp).toLocaleTimeString()}] ${h.origin}: ${h.payload}`
-        ).join('\n');
-
-        const prompt = `
-      ROLE: Expert Negotiation Psychologist & Linguistics Coach.
-      TASK: Analyze the following negotiation transcript and telemetry data. Generate a JSON report.
-      
-      TELEMETRY SUMMARY:
-      - Average Confidence Score: ${(avgConfidence * 100).toFixed(1)}%
-      - Peak Verbal Velocity: ${maxVelocity.toFixed(0)} WPM
-      - Average Hesitation Markers: ${avgHesitation.toFixed(1)} per segment
-
-      TRANSCRIPT:
-      ${context}
-
-      REQUIREMENTS:
-      You must output a VALID JSON object matching this structure exactly. Do not include markdown formatting or code blocks. Just the raw JSON string.
-      
-      Structure:
-      {
-        "strengths": [{"point": "string", "example": "quote from transcript"}],
-        "missedOpportunities": [{"context": "what happened", "betterAlternative": "what they should have said"}],
-        "psychologicalTacticsDetected": [{"tacticName": "string", "description": "string"}],
-        "confidenceTrajectoryAnalysis": "A narrative paragraph explaining how the user's confidence evolved.",
-        "trainingRecommendations": ["string", "string"],
-        "overallGrade": "S" | "A" | "B" | "C" | "F"
-      }
-    `;
-
-        const ai = new GoogleGenAI({ apiKey });
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-preview',
-            contents: prompt,
-            config: {
-                thinkingConfig: { thinkingBudget: 32768 },
+        // Prefer the persisted metric history over the client's copy
+        let metrics = body.metrics || [];
+        let metricsSource = 'CLIENT';
+        if (sessionId) {
+            try {
+                const stored = await MetricsRepository.loadSessionMetrics(sessionId);
+                if (stored.length > 0) {
+                    metrics = stored;
+                    metricsSource = 'DATABASE';
+                }
+            } catch (error) {
+                console.error('[DB_ERROR] Failed to load session metrics:', error);
             }
-        });
+        }
+
+        const language = resolveLanguage(body.language);
+        console.log(`[ANALYSIS_INVOKE] Session=${sessionId || 'NONE'} Turns=${history.length} Metrics=${metrics.length} Source=${metricsSource} Language=${language}`);
 
-        let cleanJson = response.text || '{}';
-        cleanJson = cleanJson.replace(/```json/g, '').replace(/```/g, '').trim();
+        const analysis = await StrategicAnalysisService.generate(provider, history, metrics, language);
+        const { report } = analysis;
 
-        const report = JSON.parse(cleanJson);
+        // Keep the report for audit, regrading and the history browser
+        if (sessionId) {
+            ReportRepository.save(sessionId, analysis).catch((error: unknown) =>
+                console.error('[DB_ERROR] Failed to save report:', error)
+            );
+        }
 
         return NextResponse.json({
             report,
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
 import { RateLimiterMemory } from 'rate-limiter-flexible';
-import { PrismaClient } from '@prisma/client';
+import prisma from '../../../lib/prisma';
 import { CachedNegotiationService } from '../../../services/cacheService';
-
-const prisma = new PrismaClient();
+import { NegotiationModelProvider, resolveModelProvider } from '../../../services/NegotiationModelProvider';
+import { TurnScoringRequest } from '../../../services/turnYieldJudge';
+import { NegotiationTactic, TurnYieldJudgement } from '../../../types';
+import { ScenarioInjectionModule } from '../../../services/ScenarioInjectionModule';
+import { buildSystemInstruction } from '../../../services/personaPromptBuilder';
+import { databaseScenarioStore } from '../../../services/scenarioRepository';
+import { detectTurnTactics } from '../../../utils/tacticDetector';
+import { resolveLanguage } from '../../../utils/language';
 
 // Rate limiter: 10 requests per minute per IP
 const rateLimiter = new RateLimiterMemory({
@@ -12,6 +17,12 @@ const rateLimiter = new RateLimiterMemory({
     duration: 60,
 });
 
+const SSE_HEADERS = {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+};
+
 interface NegotiateRequest {
     prompt: string;
     scenarioId?: string;
@@ -37,42 +48,83 @@ function getClientIP(request: NextRequest): string {
 
 /**
  * Helper: Save turn to database (fire-and-forget)
+ * Turns are only persisted when attributed to a session opened via /api/sessions.
  */
 async function saveTurnAsync(
     sessionId: string | undefined,
     prompt: string,
     response: string,
     latencyMs: number,
-    cacheHit: boolean
+    cacheHit: boolean,
+    judgement: TurnYieldJudgement,
+    tactics: { promptTactics: NegotiationTactic[]; responseTactics: NegotiationTactic[] }
 ): Promise<void> {
-    try {
-        // Create session if doesn't exist
-        let finalSessionId = sessionId;
-        if (!finalSessionId) {
-            const session = await prisma.session.create({
-                data: { userId: null },
-            });
-            finalSessionId = session.id;
-        }
+    if (!sessionId) {
+        console.log('[DB_SKIP] Turn has no session attribution');
+        return;
+    }
 
-        // Save turn
+    try {
         await prisma.negotiationTurn.create({
             data: {
-                sessionId: finalSessionId,
+                sessionId,
                 prompt,
                 response,
                 latencyMs,
                 cacheHit,
+                outcomeYield: judgement.yield,
+                yieldSource: judgement.source,
+                yieldRationale: judgement.rationale ?? null,
+                negotiationOutcome: judgement.outcome ?? null,
+                promptTactics: JSON.stringify(tactics.promptTactics),
+                responseTactics: JSON.stringify(tactics.responseTactics),
             },
         });
 
-        console.log(`[DB_SAVE] Turn saved to session: ${finalSessionId}`);
+        console.log(`[DB_SAVE] Turn saved to session: ${sessionId}`);
     } catch (error) {
         console.error('[DB_ERROR] Failed to save turn:', error);
         // Don't throw - persistence is optional
     }
 }
 
+/**
+ * Helper: Score a finished turn for the deal-outcome timeline.
+ * Scoring failures leave the turn unscored instead of failing the reply.
+ */
+async function scoreTurnSafely(
+    provider: NegotiationModelProvider,
+    request: TurnScoringRequest
+): Promise<TurnYieldJudgement> {
+    try {
+        const judgement = await provider.scoreTurn(request);
+        console.log(`[TURN_SCORED] Provider=${provider.name} Yield=${judgement.yield ?? 'NONE'} Source=${judgement.source}`);
+        return judgement;
+    } catch (error: any) {
+        console.error(`[SCORING_ERROR] Provider=${provider.name}`, error);
+        return { yield: null, source: 'JUDGE', rationale: `scoring failed: ${error.message}` };
+    }
+}
+
+/**
+ * Helper: Send the turn's judgement after [DONE] and close the stream.
+ * The client has the whole reply before the judge answers; if it has gone
+ * away by then, only the live yield sample is lost.
+ */
+async function sendLateJudgement(
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    encoder: TextEncoder,
+    judging: Promise<TurnYieldJudgement>
+): Promise<void> {
+    const judgement = await judging;
+    try {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ judgement })}\n\n`));
+        controller.close();
+    } catch {
+        console.log('[STREAM_CLOSED] Client left before the judgement');
+    }
+}
+
 export async function POST(request: NextRequest) {
     const startTime = Date.now();
     const clientIP = getClientIP(request);
@@ -94,10 +146,9 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // 2. VALIDATE API KEY
-        const apiKey = process.env.GEMINI_API_KEY;
-        if (!apiKey) {
-            console.error('[API_ERROR] GEMINI_API_KEY not configured');
+        // 2. RESOLVE MODEL PROVIDER
+        const provider = resolveModelProvider();
+        if (!provider) {
             return NextResponse.json(
                 { error: 'API service not configured' },
                 { status: 500 }
@@ -115,45 +166,60 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        console.log(`[API_INVOKE] IP=${clientIP} Scenario=${scenarioId} Prompt="${prompt.substring(0, 50)}..."`);
+        console.log(`[API_INVOKE] IP=${clientIP} Scenario=${scenarioId} Session=${sessionId || 'NONE'} Prompt="${prompt.substring(0, 50)}..."`);
 
-        // 4. CHECK CACHE
-        const cachedResponse = await CachedNegotiationService.getCachedResponse(
-            prompt,
-            scenarioId
-        );
+        // 4. ASSEMBLE PERSONA (versioned so persona edits invalidate cached replies)
+        const scenarioModule = ScenarioInjectionModule.getInstance();
+        await scenarioModule.ensureLoaded(databaseScenarioStore);
+        const scenario = scenarioModule.getScenarioById(scenarioId);
+        const systemInstruction = scenario ? buildSystemInstruction(scenario) : null;
+
+        const context =
+            history?.map((h) => `${h.origin}: ${h.payload}`).join('\n') || '';
+        const scoringRequest = (response: string): TurnScoringRequest => ({
+            scenarioId,
+            sessionId,
+            operatorInput: prompt,
+            response,
+            context,
+            persona: scenario?.persona,
+        });
+        const turnTactics = (response: string) =>
+            detectTurnTactics(prompt, response, history ?? [], resolveLanguage(scenario?.language));
+
+        // 5. CHECK CACHE (stateful providers are never served from cache)
+        const cacheVariant = `${provider.name}:${provider.negotiationModel}:${systemInstruction?.version || 'no-persona'}`;
+        const cachedResponse = provider.cacheable
+            ? await CachedNegotiationService.getCachedResponse(prompt, scenarioId, cacheVariant)
+            : null;
 
         if (cachedResponse) {
             const latency = Date.now() - startTime;
             console.log(`[API_INVOKE] IP=${clientIP} Scenario=${scenarioId} Cache=HIT Latency=${latency}ms`);
 
-            // Save to DB asynchronously
-            saveTurnAsync(sessionId, prompt, cachedResponse, latency, true).catch(
-                console.error
-            );
+            // The reply is cached, its value in this conversation is not; the turn is saved once judged
+            const judging = scoreTurnSafely(provider, scoringRequest(cachedResponse));
+            judging
+                .then((judgement) => saveTurnAsync(sessionId, prompt, cachedResponse, latency, true, judgement, turnTactics(cachedResponse)))
+                .catch(console.error);
 
-            return NextResponse.json(
-                {
-                    response: cachedResponse,
-                    success: true,
-                    cached: true,
+            const encoder = new TextEncoder();
+            const stream = new ReadableStream<Uint8Array>({
+                async start(controller) {
+                    controller.enqueue(encoder.encode(`data: ${JSON.stringify({ text: cachedResponse })}\n\n`));
+                    controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+                    await sendLateJudgement(controller, encoder, judging);
                 },
-                {
-                    headers: {
-                        'X-Cache': 'HIT',
-                    },
-                }
-            );
+            });
+
+            return new NextResponse(stream, {
+                headers: { ...SSE_HEADERS, 'X-Cache': 'HIT' },
+            });
         }
 
         console.log(`[API_INVOKE] IP=${clientIP} Scenario=${scenarioId} Cache=MISS`);
 
-        // 5. INITIALIZE GEMINI AI
-        const ai = new GoogleGenAI({ apiKey });
-
         // 6. CONSTRUCT PROMPT
-        const context =
-            history?.map((h) => `${h.origin}: ${h.payload}`).join('\n') || '';
         const fullPrompt = `
 CONTEXT_HISTORY:
 ${context}
@@ -162,51 +228,57 @@ CURRENT_INPUT:
 ${prompt}
 
 MISSION:
-Analyze the negotiation leverage. Provide a strategic counter-move.
+${systemInstruction
+    ? 'Respond in character as the counterpart. Use your leverage and protect your reservation price.'
+    : 'Analyze the negotiation leverage. Provide a strategic counter-move.'}
     `.trim();
 
         // 7. STREAMING RESPONSE
         const encoder = new TextEncoder();
         let fullResponse = '';
 
-        const stream = new ReadableStream({
+        const stream = new ReadableStream<Uint8Array>({
             async start(controller) {
                 try {
-                    const response = await ai.models.streamGenerateContent({
-                        model: 'gemini-2.0-flash-thinking-exp-1219',
-                        contents: fullPrompt,
-                        config: {
-                            thinkingConfig: { thinkingBudget: 32768 },
-                        },
+                    const response = provider.streamNegotiation({
+                        prompt: fullPrompt,
+                        operatorInput: prompt,
+                        scenarioId,
+                        sessionId,
+                        systemInstruction: systemInstruction?.instruction,
                     });
 
                     // Stream chunks
-                    for await (const chunk of response.stream) {
-                        const text = chunk.text || '';
+                    for await (const text of response) {
                         fullResponse += text;
                         controller.enqueue(encoder.encode(`data: ${JSON.stringify({ text })}\n\n`));
                     }
 
-                    // Send completion signal
+                    const latency = Date.now() - startTime;
+
+                    // Send completion signal; the reply is done for the client
                     controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-                    controller.close();
 
-                    const latency = Date.now() - startTime;
-                    console.log(`[API_INVOKE] IP=${clientIP} Scenario=${scenarioId} Cache=MISS Latency=${latency}ms`);
+                    console.log(`[API_INVOKE] IP=${clientIP} Scenario=${scenarioId} Cache=MISS Provider=${provider.name} Latency=${latency}ms`);
 
-                    // Cache response asynchronously
-                    CachedNegotiationService.cacheResponse(
-                        prompt,
-                        scenarioId,
-                        fullResponse
-                    ).catch(console.error);
+                    // Cache response asynchronously, without waiting for the judge
+                    if (provider.cacheable) {
+                        CachedNegotiationService.cacheResponse(
+                            prompt,
+                            scenarioId,
+                            fullResponse,
+                            cacheVariant
+                        ).catch(console.error);
+                    }
 
-                    // Save to DB asynchronously
-                    saveTurnAsync(sessionId, prompt, fullResponse, latency, false).catch(
-                        console.error
-                    );
+                    // 8. SCORE TURN, then save it to DB asynchronously; the judgement follows [DONE]
+                    const judging = scoreTurnSafely(provider, scoringRequest(fullResponse));
+                    judging
+                        .then((judgement) => saveTurnAsync(sessionId, prompt, fullResponse, latency, false, judgement, turnTactics(fullResponse)))
+                        .catch(console.error);
+                    await sendLateJudgement(controller, encoder, judging);
                 } catch (error: any) {
-                    console.error('[GEMINI_ERROR]', error);
+                    console.error(`[PROVIDER_ERROR] Provider=${provider.name}`, error);
                     controller.enqueue(
                         encoder.encode(
                             `data: ${JSON.stringify({ error: error.message })}\n\n`
@@ -218,12 +290,7 @@ Analyze the negotiation leverage. Provide a strategic counter-move.
         });
 
         return new NextResponse(stream, {
-            headers: {
-                'Content-Type': 'text/event-stream',
-                'Cache-Control': 'no-cache',
-                'Connection': 'keep-alive',
-                'X-Cache': 'MISS',
-            },
+            headers: { ...SSE_HEADERS, 'X-Cache': 'MISS' },
         });
     } catch (error: any) {
         const latency = Date.now() - startTime;
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SCENARIO_DB } from '../../../../data/scenarios';
+import { CachedNegotiationService } from '../../../../services/cacheService';
+import { ScenarioInjectionModule } from '../../../../services/ScenarioInjectionModule';
+import { ScenarioRepository, databaseScenarioStore } from '../../../../services/scenarioRepository';
+import { validateScenario } from '../../../../utils/scenarioValidator';
+
+interface ScenarioRouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Returns a single scenario from the active library.
+ */
+export async function GET(_request: NextRequest, { params }: ScenarioRouteContext) {
+    const { id } = await params;
+    const scenarioModule = ScenarioInjectionModule.getInstance();
+    await scenarioModule.ensureLoaded(databaseScenarioStore);
+
+    const scenario = scenarioModule.getScenarioById(id);
+    if (!scenario) {
+        return NextResponse.json(
+            { error: 'Scenario not found' },
+            { status: 404 }
+        );
+    }
+
+    return NextResponse.json({ scenario, success: true });
+}
+
+/**
+ * Replaces a scenario and its manifolds.
+ */
+export async function PUT(request: NextRequest, { params }: ScenarioRouteContext) {
+    const { id } = await params;
+
+    try {
+        const body = await request.json();
+        const { scenario, errors } = validateScenario({ ...body, id });
+
+        if (!scenario) {
+            return NextResponse.json(
+                { error: 'Scenario validation failed', details: errors },
+                { status: 422 }
+            );
+        }
+
+        await ScenarioRepository.seedIfEmpty(SCENARIO_DB);
+
+        if (!(await ScenarioRepository.get(id))) {
+            return NextResponse.json(
+                { error: 'Scenario not found' },
+                { status: 404 }
+            );
+        }
+
+        const updated = await ScenarioRepository.update(scenario);
+        await ScenarioInjectionModule.getInstance().refresh(databaseScenarioStore);
+        await CachedNegotiationService.invalidateScenario(id);
+
+        return NextResponse.json({ scenario: updated, success: true });
+    } catch (error: any) {
+        console.error(`[SCENARIO_ERROR] Update failed for ${id}:`, error);
+        return NextResponse.json(
+            { error: 'Failed to update scenario', details: error.message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Deletes a scenario. Sessions keep their scenarioId for the archive.
+ */
+export async function DELETE(_request: NextRequest, { params }: ScenarioRouteContext) {
+    const { id } = await params;
+
+    try {
+        await ScenarioRepository.seedIfEmpty(SCENARIO_DB);
+
+        if (!(await ScenarioRepository.get(id))) {
+            return NextResponse.json(
+                { error: 'Scenario not found' },
+                { status: 404 }
+            );
+        }
+
+        await ScenarioRepository.delete(id);
+        await ScenarioInjectionModule.getInstance().refresh(databaseScenarioStore);
+        await CachedNegotiationService.invalidateScenario(id);
+
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        console.error(`[SCENARIO_ERROR] Delete failed for ${id}:`, error);
+        return NextResponse.json(
+            { error: 'Failed to delete scenario', details: error.message },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SCENARIO_DB } from '../../../data/scenarios';
+import { ScenarioInjectionModule } from '../../../services/ScenarioInjectionModule';
+import { ScenarioRepository, databaseScenarioStore } from '../../../services/scenarioRepository';
+import { validateScenario } from '../../../utils/scenarioValidator';
+
+/**
+ * Lists the active scenario library (stored scenarios, or the bundled set when the store is empty).
+ */
+export async function GET() {
+    const scenarioModule = ScenarioInjectionModule.getInstance();
+    const scenarios = await scenarioModule.refresh(databaseScenarioStore);
+
+    return NextResponse.json({
+        scenarios,
+        source: scenarioModule.getRegistrySource(),
+        success: true,
+    });
+}
+
+/**
+ * Creates a scenario after validating it (including every trigger regex).
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { scenario, errors } = validateScenario(body);
+
+        if (!scenario) {
+            return NextResponse.json(
+                { error: 'Scenario validation failed', details: errors },
+                { status: 422 }
+            );
+        }
+
+        await ScenarioRepository.seedIfEmpty(SCENARIO_DB);
+
+        if (await ScenarioRepository.get(scenario.id)) {
+            return NextResponse.json(
+                { error: `Scenario ${scenario.id} already exists` },
+                { status: 409 }
+            );
+        }
+
+        const created = await ScenarioRepository.create(scenario);
+        await ScenarioInjectionModule.getInstance().refresh(databaseScenarioStore);
+
+        return NextResponse.json(
+            { scenario: created, success: true },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error('[SCENARIO_ERROR] Create failed:', error);
+        return NextResponse.json(
+            { error: 'Failed to create scenario', details: error.message },
+            { status: 500 }
+        );
+    }
+}
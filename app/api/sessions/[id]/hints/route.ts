@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { CoachHintRepository, isCoachHint } from '../../../../../services/coachHintRepository';
+
+interface HintsRouteContext {
+    params: Promise<{ id: string }>;
+}
+
+interface HintIngestionRequest {
+    hint: unknown;
+}
+
+/**
+ * Records a coach whisper shown during the session, so the post-mortem can
+ * check which hints were acted on.
+ */
+export async function POST(request: NextRequest, { params }: HintsRouteContext) {
+    const { id } = await params;
+
+    try {
+        const body: HintIngestionRequest = await request.json();
+        const { hint } = body;
+
+        if (!isCoachHint(hint)) {
+            return NextResponse.json(
+                { error: 'Malformed coach hint' },
+                { status: 400 }
+            );
+        }
+
+        const session = await prisma.session.findUnique({ where: { id } });
+        if (!session) {
+            return NextResponse.json(
+                { error: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        await CoachHintRepository.persist(id, hint);
+
+        return NextResponse.json({ success: true }, { status: 201 });
+    } catch (error: any) {
+        console.error(`[DB_ERROR] Failed to save coach hint for ${id}:`, error);
+        return NextResponse.json(
+            { error: 'Failed to save coach hint', details: error.message },
+            { status: 500 }
+        );
+    }
+}
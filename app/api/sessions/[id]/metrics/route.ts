@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import {
+    MetricsRepository,
+    MAX_METRIC_BATCH_SIZE,
+    isEntropyMetric,
+} from '../../../../../services/metricsRepository';
+
+interface MetricsRouteContext {
+    params: Promise<{ id: string }>;
+}
+
+interface MetricsIngestionRequest {
+    metrics: unknown[];
+}
+
+/**
+ * Batch-ingests the client's NegotiationEntropyMetric samples as Metric rows.
+ */
+export async function POST(request: NextRequest, { params }: MetricsRouteContext) {
+    const { id } = await params;
+
+    try {
+        const body: MetricsIngestionRequest = await request.json();
+        const { metrics } = body;
+
+        if (!Array.isArray(metrics) || metrics.length === 0) {
+            return NextResponse.json(
+                { error: 'A non-empty metrics array is required' },
+                { status: 400 }
+            );
+        }
+
+        if (metrics.length > MAX_METRIC_BATCH_SIZE) {
+            return NextResponse.json(
+                { error: `Batch exceeds ${MAX_METRIC_BATCH_SIZE} samples` },
+                { status: 413 }
+            );
+        }
+
+        const invalidIndex = metrics.findIndex((m) => !isEntropyMetric(m));
+        if (invalidIndex !== -1) {
+            return NextResponse.json(
+                { error: `Malformed metric at index ${invalidIndex}` },
+                { status: 400 }
+            );
+        }
+
+        const session = await prisma.session.findUnique({ where: { id } });
+        if (!session) {
+            return NextResponse.json(
+                { error: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        const count = await MetricsRepository.persistBatch(
+            id,
+            metrics.filter(isEntropyMetric)
+        );
+
+        return NextResponse.json({ count, success: true }, { status: 201 });
+    } catch (error: any) {
+        console.error(`[METRICS_ERROR] Ingestion failed for ${id}:`, error);
+        return NextResponse.json(
+            { error: 'Failed to persist metrics', details: error.message },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { MetricsRepository } from '../../../../../services/metricsRepository';
+import { resolveModelProvider } from '../../../../../services/NegotiationModelProvider';
+import { ReportRepository } from '../../../../../services/reportRepository';
+import {
+    StrategicAnalysisService,
+    gradeDelta,
+} from '../../../../../services/strategicAnalysisService';
+import { resolveLanguage } from '../../../../../utils/language';
+import { expandTurns, toTurnRecord } from '../../../../../utils/turnTranscript';
+
+interface ReportsRouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Lists every stored report for a session, oldest first.
+ */
+export async function GET(_request: NextRequest, { params }: ReportsRouteContext) {
+    const { id } = await params;
+
+    try {
+        const reports = await ReportRepository.listForSession(id);
+        return NextResponse.json({ reports, success: true });
+    } catch (error: any) {
+        console.error(`[REPORT_ERROR] Listing failed for ${id}:`, error);
+        return NextResponse.json(
+            { error: 'Failed to list reports', details: error.message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Regrades a stored session with the current analysis prompt and
+ * returns the new report alongside the grade movement.
+ */
+export async function POST(_request: NextRequest, { params }: ReportsRouteContext) {
+    const { id } = await params;
+
+    try {
+        const provider = resolveModelProvider();
+        if (!provider) {
+            return NextResponse.json(
+                { error: 'API service not configured' },
+                { status: 500 }
+            );
+        }
+
+        const session = await prisma.session.findUnique({
+            where: { id },
+            include: { turns: { orderBy: { timestamp: 'asc' } } },
+        });
+
+        if (!session) {
+            return NextResponse.json(
+                { error: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        if (session.turns.length === 0) {
+            return NextResponse.json(
+                { error: 'Session has no turns to grade' },
+                { status: 422 }
+            );
+        }
+
+        const previous = await ReportRepository.latestForSession(id);
+        const metrics = await MetricsRepository.loadSessionMetrics(id);
+        const history = expandTurns(session.turns.map(toTurnRecord));
+
+        console.log(`[REGRADE_INVOKE] Session=${id} Turns=${session.turns.length} Metrics=${metrics.length}`);
+
+        const analysis = await StrategicAnalysisService.generate(provider, history, metrics, resolveLanguage(session.language));
+        const record = await ReportRepository.save(id, analysis);
+
+        const previousGrade = previous?.report.overallGrade ?? null;
+
+        return NextResponse.json(
+            {
+                report: record,
+                previousGrade,
+                previousPromptVersion: previous?.promptVersion ?? null,
+                gradeDelta: gradeDelta(previousGrade, record.report.overallGrade),
+                success: true,
+            },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error(`[REGRADE_ERROR] Session=${id}`, error);
+        return NextResponse.json(
+            { error: 'Failed to regrade session', details: error.message },
+            { status: 500 }
+        );
+    }
+}
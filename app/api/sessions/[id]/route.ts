@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../lib/prisma';
+import { MetricsRepository } from '../../../../services/metricsRepository';
+import { ReportRepository } from '../../../../services/reportRepository';
+import { CoachHintRepository } from '../../../../services/coachHintRepository';
+import { SessionRecord } from '../../../../types';
+import { resolveLanguage } from '../../../../utils/language';
+import { parseGrade } from '../../../../utils/reportValidator';
+import { toTurnRecord } from '../../../../utils/turnTranscript';
+
+interface SessionRouteContext {
+    params: Promise<{ id: string }>;
+}
+
+/**
+ * Returns a session with its turns, metrics and coach hints in chronological
+ * order, plus its most recent report.
+ */
+export async function GET(_request: NextRequest, { params }: SessionRouteContext) {
+    const { id } = await params;
+
+    try {
+        const session = await prisma.session.findUnique({
+            where: { id },
+            include: {
+                turns: { orderBy: { timestamp: 'asc' } },
+            },
+        });
+
+        if (!session) {
+            return NextResponse.json(
+                { error: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        const record: SessionRecord = {
+            id: session.id,
+            scenarioId: session.scenarioId,
+            language: resolveLanguage(session.language),
+            createdAt: session.createdAt.toISOString(),
+            duration: session.duration,
+            overallGrade: parseGrade(session.overallGrade),
+            turnCount: session.turns.length,
+            turns: session.turns.map(toTurnRecord),
+            metrics: await MetricsRepository.loadSessionMetrics(id),
+            coachHints: await CoachHintRepository.loadSessionHints(id),
+            latestReport: await ReportRepository.latestForSession(id),
+        };
+
+        return NextResponse.json({ session: record, success: true });
+    } catch (error: any) {
+        console.error(`[SESSION_ERROR] Fetch failed for ${id}:`, error);
+        return NextResponse.json(
+            { error: 'Failed to load session', details: error.message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Closes a session and records its duration in seconds.
+ */
+export async function PATCH(_request: NextRequest, { params }: SessionRouteContext) {
+    const { id } = await params;
+
+    try {
+        const existing = await prisma.session.findUnique({ where: { id } });
+
+        if (!existing) {
+            return NextResponse.json(
+                { error: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        if (existing.endedAt) {
+            return NextResponse.json(
+                { error: 'Session already closed', session: existing },
+                { status: 409 }
+            );
+        }
+
+        const endedAt = new Date();
+        const duration = Math.round((endedAt.getTime() - existing.createdAt.getTime()) / 1000);
+
+        const session = await prisma.session.update({
+            where: { id },
+            data: { endedAt, duration },
+        });
+
+        console.log(`[SESSION_CLOSE] Session=${id} Duration=${duration}s`);
+
+        return NextResponse.json({ session, success: true });
+    } catch (error: any) {
+        console.error(`[SESSION_ERROR] Close failed for ${id}:`, error);
+        return NextResponse.json(
+            { error: 'Failed to close session', details: error.message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Closes a session from `navigator.sendBeacon` on page unload, which can only POST.
+ */
+export const POST = PATCH;
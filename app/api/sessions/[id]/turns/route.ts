@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../../../lib/prisma';
+import { TurnYieldJudgement } from '../../../../../types';
+import { detectTurnTactics } from '../../../../../utils/tacticDetector';
+import { resolveLanguage } from '../../../../../utils/language';
+import { expandTurns, toTurnRecord } from '../../../../../utils/turnTranscript';
+
+interface TurnsRouteContext {
+    params: Promise<{ id: string }>;
+}
+
+interface TurnIngestionRequest {
+    prompt: string;
+    response: string;
+    latencyMs?: number;
+    judgement?: TurnYieldJudgement; // Yield of the manifold that fired
+}
+
+/**
+ * Records a turn produced on the client by the offline simulation matrix,
+ * so offline sessions can be replayed like live ones.
+ */
+export async function POST(request: NextRequest, { params }: TurnsRouteContext) {
+    const { id } = await params;
+
+    try {
+        const body: TurnIngestionRequest = await request.json();
+        const { prompt, response, latencyMs = 0, judgement } = body;
+
+        if (!prompt || !response) {
+            return NextResponse.json(
+                { error: 'Prompt and response are required' },
+                { status: 400 }
+            );
+        }
+
+        const session = await prisma.session.findUnique({
+            where: { id },
+            include: { turns: { orderBy: { timestamp: 'asc' } } },
+        });
+        if (!session) {
+            return NextResponse.json(
+                { error: 'Session not found' },
+                { status: 404 }
+            );
+        }
+
+        // Earlier turns give the detector its context (a flinch needs the figure before it)
+        const tactics = detectTurnTactics(prompt, response, expandTurns(session.turns.map(toTurnRecord)), resolveLanguage(session.language));
+
+        const turn = await prisma.negotiationTurn.create({
+            data: {
+                sessionId: id,
+                prompt,
+                response,
+                latencyMs: Math.max(0, Math.round(latencyMs)),
+                cacheHit: false,
+                outcomeYield: typeof judgement?.yield === 'number' ? judgement.yield : null,
+                yieldSource: judgement ? judgement.source : null,
+                yieldRationale: judgement?.rationale ?? null,
+                negotiationOutcome: judgement?.outcome ?? null,
+                promptTactics: JSON.stringify(tactics.promptTactics),
+                responseTactics: JSON.stringify(tactics.responseTactics),
+            },
+        });
+
+        console.log(`[DB_SAVE] Offline turn saved to session: ${id}`);
+
+        return NextResponse.json({ turn, success: true }, { status: 201 });
+    } catch (error: any) {
+        console.error(`[DB_ERROR] Failed to save offline turn for ${id}:`, error);
+        return NextResponse.json(
+            { error: 'Failed to save turn', details: error.message },
+            { status: 500 }
+        );
+    }
+}
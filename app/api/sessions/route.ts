@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '../../../lib/prisma';
+import { ScenarioInjectionModule } from '../../../services/ScenarioInjectionModule';
+import { databaseScenarioStore } from '../../../services/scenarioRepository';
+import { SessionSummary } from '../../../types';
+import { resolveLanguage } from '../../../utils/language';
+import { parseGrade } from '../../../utils/reportValidator';
+
+interface OpenSessionRequest {
+    scenarioId: string;
+    userId?: string;
+}
+
+const HISTORY_PAGE_SIZE = 50;
+
+/**
+ * Lists past sessions, newest first, for the history browser.
+ */
+export async function GET() {
+    try {
+        const sessions = await prisma.session.findMany({
+            orderBy: { createdAt: 'desc' },
+            take: HISTORY_PAGE_SIZE,
+            include: { _count: { select: { turns: true } } },
+        });
+
+        const summaries: SessionSummary[] = sessions.map((session: any) => ({
+            id: session.id,
+            scenarioId: session.scenarioId,
+            language: resolveLanguage(session.language),
+            createdAt: session.createdAt.toISOString(),
+            duration: session.duration,
+            overallGrade: parseGrade(session.overallGrade),
+            turnCount: session._count.turns,
+        }));
+
+        return NextResponse.json({ sessions: summaries, success: true });
+    } catch (error: any) {
+        console.error('[SESSION_ERROR] Listing failed:', error);
+        return NextResponse.json(
+            { error: 'Failed to list sessions', details: error.message },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Opens a training session bound to a SimulationScenarioMatrix.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body: OpenSessionRequest = await request.json();
+        const { scenarioId, userId } = body;
+
+        if (!scenarioId) {
+            return NextResponse.json(
+                { error: 'Scenario ID is required' },
+                { status: 400 }
+            );
+        }
+
+        const scenarioModule = ScenarioInjectionModule.getInstance();
+        await scenarioModule.ensureLoaded(databaseScenarioStore);
+
+        const scenario = scenarioModule.getScenarioById(scenarioId);
+        if (!scenario) {
+            return NextResponse.json(
+                { error: `Unknown scenario: ${scenarioId}` },
+                { status: 404 }
+            );
+        }
+
+        // The session keeps the scenario's language even if the scenario is edited later
+        const language = resolveLanguage(scenario.language);
+        const session = await prisma.session.create({
+            data: { scenarioId, userId: userId ?? null, language },
+        });
+
+        console.log(`[SESSION_OPEN] Session=${session.id} Scenario=${scenarioId} Language=${language}`);
+
+        return NextResponse.json(
+            { session, success: true },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error('[SESSION_ERROR] Open failed:', error);
+        return NextResponse.json(
+            { error: 'Failed to open session', details: error.message },
+            { status: 500 }
+        );
+    }
+}
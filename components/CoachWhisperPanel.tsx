@@ -0,0 +1,77 @@
+import React from 'react';
+import { AssessedCoachHint, CoachHint, CoachHintResponse } from '../types';
+import { COACH_HINT_INTERVAL_MS, COACH_HINT_LABELS } from '../utils/coachWhisper';
+
+interface CoachWhisperPanelProps {
+  hints: CoachHint[];
+}
+
+interface CoachHintReviewProps {
+  hints: AssessedCoachHint[];
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const RESPONSE_STYLES: Record<CoachHintResponse, string> = {
+  ACTED_ON: 'text-terminal-green border-terminal-green',
+  IGNORED: 'text-alert-crimson border-alert-crimson',
+  PENDING: 'text-gray-500 border-gray-700'
+};
+
+/**
+ * Live side panel of coach whispers, newest first.
+ */
+export const CoachWhisperPanel: React.FC<CoachWhisperPanelProps> = ({ hints }) => (
+  <aside className="w-72 h-full border-l border-matrix-gray bg-black/60 flex flex-col font-mono">
+    <div className="px-4 py-3 border-b border-matrix-gray">
+      <h2 className="text-xs font-bold text-orange-400 uppercase tracking-widest">Coach Whisper</h2>
+      <p className="text-[10px] text-gray-500">ONE HINT PER {COACH_HINT_INTERVAL_MS / 1000}s AT MOST</p>
+    </div>
+    <ul className="flex-1 overflow-y-auto p-3 space-y-3">
+      {hints.length === 0 && (
+        <li className="text-[10px] text-gray-600">LISTENING... NO HINTS YET</li>
+      )}
+      {[...hints].reverse().map((hint, index) => (
+        <li
+          key={hint.id}
+          className={`border-l-2 pl-3 py-1 ${index === 0 ? 'border-orange-400 text-gray-200' : 'border-gray-700 text-gray-500'}`}
+        >
+          <div className="flex justify-between text-[10px] tracking-widest mb-1">
+            <span className={index === 0 ? 'text-orange-400' : ''}>{COACH_HINT_LABELS[hint.kind].toUpperCase()}</span>
+            <span>{formatClock(hint.issuedAt)}</span>
+          </div>
+          <p className="text-xs leading-relaxed">{hint.message}</p>
+        </li>
+      ))}
+    </ul>
+  </aside>
+);
+
+/**
+ * Post-mortem list of the whispers shown, with whether each was acted on.
+ */
+export const CoachHintReview: React.FC<CoachHintReviewProps> = ({ hints }) => {
+  const actedOn = hints.filter((hint) => hint.response === 'ACTED_ON').length;
+  const judged = hints.filter((hint) => hint.response !== 'PENDING').length;
+
+  return (
+    <div className="bg-black/50 border border-matrix-gray p-4 rounded mb-6">
+      <div className="flex justify-between items-baseline mb-4">
+        <h3 className="text-xs font-bold text-orange-400 uppercase tracking-widest">Coach Whispers // Follow-Through</h3>
+        <span className="text-[10px] text-gray-500 tracking-widest">ACTED ON {actedOn} / {judged} JUDGED</span>
+      </div>
+      <ul className="space-y-2">
+        {hints.map((hint) => (
+          <li key={hint.id} className="flex items-start gap-3 text-xs">
+            <span className={`shrink-0 w-20 text-center text-[10px] font-bold border px-1 py-0.5 ${RESPONSE_STYLES[hint.response]}`}>
+              {hint.response.replace('_', ' ')}
+            </span>
+            <span className="text-gray-500 shrink-0">{formatClock(hint.issuedAt)}</span>
+            <span className="text-gray-300">{hint.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
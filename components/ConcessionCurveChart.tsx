@@ -0,0 +1,105 @@
+import React from 'react';
+import { LineChart, Line, CartesianGrid, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea } from 'recharts';
+import { OfferLadder } from '../types';
+
+interface ConcessionCurveChartProps {
+  ladder: OfferLadder;
+}
+
+const formatOfferValue = (value: number, unit: OfferLadder['unit']) => {
+  if (unit === 'PERCENT') return `${Number(value.toFixed(2))}%`;
+  return `$${value.toLocaleString('en-US', { notation: 'compact', maximumFractionDigits: 2 })}`;
+};
+
+const describeZopa = ({ zopa, unit, counterpartReservation, operatorReservation }: OfferLadder) => {
+  if (!zopa) {
+    return counterpartReservation && operatorReservation ? 'NO ZOPA: LIMITS DO NOT OVERLAP' : 'ZOPA UNKNOWN';
+  }
+  if (zopa.low === null) return `ZOPA ≤ ${formatOfferValue(zopa.high!, unit)}`;
+  if (zopa.high === null) return `ZOPA ≥ ${formatOfferValue(zopa.low, unit)}`;
+  return `ZOPA ${formatOfferValue(zopa.low, unit)} – ${formatOfferValue(zopa.high, unit)}`;
+};
+
+/**
+ * Offers and counter-offers per ladder step, with both walk-away points and
+ * the zone of possible agreement between them.
+ */
+export const ConcessionCurveChart: React.FC<ConcessionCurveChartProps> = ({ ladder }) => {
+  const { rungs, unit, zopa, counterpartReservation, operatorReservation } = ladder;
+  const data = rungs.map((rung) => ({
+    step: rung.step,
+    operator: rung.side === 'OPERATOR' ? rung.value : undefined,
+    counterpart: rung.side === 'SYNTHETIC_AGENT' ? rung.value : undefined
+  }));
+
+  const values = [
+    ...rungs.map((rung) => rung.value),
+    ...[counterpartReservation, operatorReservation].flatMap((price) => (price ? [price.value] : []))
+  ];
+  const spread = Math.max(...values) - Math.min(...values) || Math.abs(values[0]) || 1;
+  const domain: [number, number] = [Math.max(0, Math.min(...values) - spread * 0.1), Math.max(...values) + spread * 0.1];
+
+  const conceded = (side: 'OPERATOR' | 'SYNTHETIC_AGENT') =>
+    rungs.filter((rung) => rung.side === side).reduce((sum, rung) => sum + (rung.concession ?? 0), 0);
+
+  return (
+    <div className="bg-black/50 border border-matrix-gray p-4 rounded mb-6">
+      <div className="flex justify-between items-baseline mb-4">
+        <h3 className="text-xs font-bold text-orange-400 uppercase tracking-widest">Concession Curve // ZOPA</h3>
+        <span className="text-[10px] text-gray-500 tracking-widest">
+          {describeZopa(ladder)}
+          {ladder.operatorWantsHigher !== null && (
+            <> · CONCEDED: YOU {formatOfferValue(conceded('OPERATOR'), unit)} / COUNTERPART {formatOfferValue(conceded('SYNTHETIC_AGENT'), unit)}</>
+          )}
+        </span>
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+            <XAxis dataKey="step" stroke="#444" tick={{ fontSize: 10 }} />
+            <YAxis
+              stroke="#444"
+              tick={{ fontSize: 10 }}
+              width={70}
+              domain={domain}
+              tickFormatter={(value: number) => formatOfferValue(value, unit)}
+            />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#000', borderColor: '#fb923c', color: '#fff' }}
+              labelFormatter={(step) => `OFFER #${step}`}
+              formatter={(value) => formatOfferValue(Number(value), unit)}
+            />
+            {zopa && (
+              <ReferenceArea
+                y1={zopa.low ?? domain[0]}
+                y2={zopa.high ?? domain[1]}
+                fill="#00ff41"
+                fillOpacity={0.08}
+                stroke="none"
+              />
+            )}
+            {counterpartReservation && (
+              <ReferenceLine
+                y={counterpartReservation.value}
+                stroke="#ff0040"
+                strokeDasharray="4 4"
+                label={{ value: 'COUNTERPART LIMIT', fill: '#ff0040', fontSize: 9, position: 'insideTopRight' }}
+              />
+            )}
+            {operatorReservation && (
+              <ReferenceLine
+                y={operatorReservation.value}
+                stroke="#00ff41"
+                strokeDasharray="4 4"
+                label={{ value: 'YOUR LIMIT', fill: '#00ff41', fontSize: 9, position: 'insideBottomRight' }}
+              />
+            )}
+            <Line type="stepAfter" dataKey="operator" name="YOU" stroke="#00ff41" strokeWidth={2} connectNulls dot={{ r: 3 }} />
+            <Line type="stepAfter" dataKey="counterpart" name="COUNTERPART" stroke="#fb923c" strokeWidth={2} connectNulls dot={{ r: 3 }} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
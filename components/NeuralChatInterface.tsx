@@ -1,15 +1,37 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { DialogueTransmissionVector, CognitiveLoadState } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { DialogueTransmissionVector, CognitiveLoadState, NegotiationLanguage, NegotiationTactic } from '../types';
+import { HighlightedUtterance, MetricBreakdownPanel } from './UtteranceBreakdown';
+import { extendTacticAnnotations, TacticAnnotation, TACTIC_LABELS, tacticsOf } from '../utils/tacticDetector';
+import { DEFAULT_LANGUAGE } from '../utils/language';
 
 interface NeuralChatInterfaceProps {
   vectors: DialogueTransmissionVector[];
-  onTransmit: (input: string) => void;
+  onTransmit: (input: string, keystrokeTimes: number[]) => void; // keystrokeTimes: wall-clock ms of each edit
   cognitiveState: CognitiveLoadState;
+  readOnly?: boolean; // Replay mode: hides the input matrix
+  language?: NegotiationLanguage; // Language the tactic detector reads the messages in
 }
 
-export const NeuralChatInterface: React.FC<NeuralChatInterfaceProps> = ({ vectors, onTransmit, cognitiveState }) => {
+const TacticChips: React.FC<{ tactics: NegotiationTactic[]; cues: Partial<Record<NegotiationTactic, string>> }> = ({ tactics, cues }) => (
+  <div className="flex flex-wrap gap-1 mt-2">
+    {tactics.map((tactic) => (
+      <span
+        key={tactic}
+        className="text-[9px] uppercase tracking-widest px-1.5 py-0.5 border border-orange-400/60 text-orange-400 bg-orange-400/10"
+        title={cues[tactic] ? `Cue: "${cues[tactic]}"` : undefined}
+      >
+        {TACTIC_LABELS[tactic]}
+      </span>
+    ))}
+  </div>
+);
+
+export const NeuralChatInterface: React.FC<NeuralChatInterfaceProps> = ({ vectors, onTransmit, cognitiveState, readOnly = false, language = DEFAULT_LANGUAGE }) => {
   const [inputBuffer, setInputBuffer] = useState('');
+  const [inspectedVectorId, setInspectedVectorId] = useState<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Timing of the edits that composed the current message, for typing-rate metrics
+  const keystrokeTimesRef = useRef<number[]>([]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -17,10 +39,26 @@ export const NeuralChatInterface: React.FC<NeuralChatInterfaceProps> = ({ vector
     }
   }, [vectors, cognitiveState]);
 
+  const isStreaming = cognitiveState === CognitiveLoadState.STREAMING;
+  const isBusy = cognitiveState === CognitiveLoadState.THINKING || isStreaming;
+  const streamingVectorId = isStreaming ? vectors[vectors.length - 1]?.id : undefined;
+
+  // Detected once per message text and reused across renders; the message still streaming
+  // in is skipped until it settles. Stored labels win on replayed turns
+  const tacticCacheRef = useRef<{ language: NegotiationLanguage; annotations: TacticAnnotation[] }>({ language, annotations: [] });
+  const detectedTactics = useMemo(() => {
+    const settled = streamingVectorId ? vectors.slice(0, -1) : vectors;
+    const cache = tacticCacheRef.current;
+    const annotations = extendTacticAnnotations(settled, cache.language === language ? cache.annotations : [], language);
+    tacticCacheRef.current = { language, annotations };
+    return annotations.map((annotation) => annotation.detections);
+  }, [vectors, language, streamingVectorId]);
+
   const handleSubmission = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputBuffer.trim() || cognitiveState === CognitiveLoadState.THINKING) return;
-    onTransmit(inputBuffer);
+    if (!inputBuffer.trim() || isBusy) return;
+    onTransmit(inputBuffer, keystrokeTimesRef.current);
+    keystrokeTimesRef.current = [];
     setInputBuffer('');
   };
 
@@ -30,7 +68,10 @@ export const NeuralChatInterface: React.FC<NeuralChatInterfaceProps> = ({ vector
       {/* Header */}
       <div className="p-3 border-b border-matrix-gray bg-black/80 backdrop-blur flex justify-between items-center">
         <span className="text-xs font-mono text-terminal-green animate-pulse">
-          {cognitiveState === CognitiveLoadState.THINKING ? '>>> NEURAL_PATHWAY_ACTIVE [THINKING]' : '>>> SYSTEM_READY'}
+          {cognitiveState === CognitiveLoadState.THINKING
+            ? '>>> NEURAL_PATHWAY_ACTIVE [THINKING]'
+            : isStreaming ? '>>> NEURAL_PATHWAY_ACTIVE [STREAMING]'
+            : readOnly ? '>>> TRANSCRIPT_REPLAY' : '>>> SYSTEM_READY'}
         </span>
         <div className="flex gap-1">
           <div className="w-2 h-2 bg-terminal-green rounded-full"></div>
@@ -41,25 +82,55 @@ export const NeuralChatInterface: React.FC<NeuralChatInterfaceProps> = ({ vector
 
       {/* Vector Stream (Chat) */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4 font-mono text-sm" ref={scrollRef}>
-        {vectors.map((vector) => (
-          <div 
-            key={vector.id} 
-            className={`flex flex-col ${vector.origin === 'OPERATOR' ? 'items-end' : 'items-start'}`}
-          >
-            <div className={`max-w-[80%] p-3 border ${
-              vector.origin === 'OPERATOR' 
-                ? 'border-terminal-green/50 bg-terminal-green/10 text-terminal-green' 
-                : 'border-matrix-gray bg-gray-900 text-gray-300'
-            }`}>
-              <div className="text-[10px] opacity-50 mb-1 border-b border-white/10 pb-1">
-                {vector.origin} :: {new Date(vector.timestamp).toLocaleTimeString()}
-              </div>
-              <div className="whitespace-pre-wrap leading-relaxed">
-                {vector.payload}
+        {vectors.map((vector, index) => {
+          const explanation = vector.metadata?.sentimentExplanation;
+          const detections = detectedTactics[index] ?? [];
+          const tactics = vector.metadata?.tactics ?? tacticsOf(detections);
+          const cues = Object.fromEntries(detections.map((found) => [found.tactic, found.cue]));
+          const isInspected = !!explanation && vector.id === inspectedVectorId;
+          const toggleInspection = () => setInspectedVectorId(isInspected ? null : vector.id);
+
+          return (
+            <div 
+              key={vector.id} 
+              className={`flex flex-col ${vector.origin === 'OPERATOR' ? 'items-end' : 'items-start'}`}
+            >
+              <div
+                className={`max-w-[80%] p-3 border ${
+                  vector.origin === 'OPERATOR' 
+                    ? 'border-terminal-green/50 bg-terminal-green/10 text-terminal-green' 
+                    : 'border-matrix-gray bg-gray-900 text-gray-300'
+                } ${explanation ? 'cursor-pointer hover:border-terminal-green' : ''}`}
+                {...(explanation ? {
+                  role: 'button',
+                  tabIndex: 0,
+                  'aria-expanded': isInspected,
+                  title: isInspected ? 'Hide metric breakdown' : 'Show metric breakdown',
+                  onClick: toggleInspection,
+                  onKeyDown: (e: React.KeyboardEvent) => {
+                    if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      toggleInspection();
+                    }
+                  }
+                } : {})}
+              >
+                <div className="text-[10px] opacity-50 mb-1 border-b border-white/10 pb-1">
+                  {vector.origin} :: {new Date(vector.timestamp).toLocaleTimeString()}
+                  {explanation && !isInspected && ' :: WHY?'}
+                </div>
+                <div className="whitespace-pre-wrap leading-relaxed">
+                  {isInspected ? <HighlightedUtterance text={vector.payload} explanation={explanation} /> : vector.payload}
+                  {vector.id === streamingVectorId && (
+                    <span className="inline-block w-2 h-4 bg-terminal-green ml-1 align-middle animate-pulse"></span>
+                  )}
+                </div>
+                {tactics.length > 0 && vector.id !== streamingVectorId && <TacticChips tactics={tactics} cues={cues} />}
+                {isInspected && <MetricBreakdownPanel explanation={explanation} />}
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
 
         {cognitiveState === CognitiveLoadState.THINKING && (
           <div className="flex items-start animate-pulse">
@@ -72,25 +143,30 @@ export const NeuralChatInterface: React.FC<NeuralChatInterfaceProps> = ({ vector
       </div>
 
       {/* Input Matrix */}
-      <form onSubmit={handleSubmission} className="p-4 border-t border-matrix-gray bg-black">
-        <div className="flex gap-2">
-          <input
-            type="text"
-            value={inputBuffer}
-            onChange={(e) => setInputBuffer(e.target.value)}
-            placeholder="Enter rhetorical vector..."
-            className="flex-1 bg-gray-900 border border-matrix-gray text-terminal-green p-3 focus:outline-none focus:border-terminal-green font-mono text-sm"
-            disabled={cognitiveState === CognitiveLoadState.THINKING}
-          />
-          <button 
-            type="submit"
-            disabled={cognitiveState === CognitiveLoadState.THINKING}
-            className="bg-terminal-green/10 border border-terminal-green text-terminal-green px-6 hover:bg-terminal-green hover:text-black transition-colors font-bold uppercase text-xs tracking-widest disabled:opacity-50"
-          >
-            Transmit
-          </button>
-        </div>
-      </form>
+      {!readOnly && (
+        <form onSubmit={handleSubmission} className="p-4 border-t border-matrix-gray bg-black">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={inputBuffer}
+              onChange={(e) => {
+                keystrokeTimesRef.current = e.target.value ? [...keystrokeTimesRef.current, Date.now()] : [];
+                setInputBuffer(e.target.value);
+              }}
+              placeholder="Enter rhetorical vector..."
+              className="flex-1 bg-gray-900 border border-matrix-gray text-terminal-green p-3 focus:outline-none focus:border-terminal-green font-mono text-sm"
+              disabled={isBusy}
+            />
+            <button 
+              type="submit"
+              disabled={isBusy}
+              className="bg-terminal-green/10 border border-terminal-green text-terminal-green px-6 hover:bg-terminal-green hover:text-black transition-colors font-bold uppercase text-xs tracking-widest disabled:opacity-50"
+            >
+              Transmit
+            </button>
+          </div>
+        </form>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,25 +1,40 @@
 import React from 'react';
-import { StrategicAnalysisReport, NegotiationEntropyMetric } from '../types';
+import { StrategicAnalysisReport, NegotiationEntropyMetric, DealOutcome, NegotiationOutcome, OfferLadder, AssessedCoachHint } from '../types';
 import { AreaChart, Area, CartesianGrid, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ConcessionCurveChart } from './ConcessionCurveChart';
+import { CoachHintReview } from './CoachWhisperPanel';
 
 interface PostMortemAnalysisViewProps {
   report: StrategicAnalysisReport;
   metrics: NegotiationEntropyMetric[];
   onReset: () => void;
+  resetLabel?: string;
+  dealOutcome?: DealOutcome;
+  offerLadder?: OfferLadder | null; // Omitted or null when no offers were extracted
+  coachHints?: AssessedCoachHint[]; // Whispers shown during the session
 }
 
-export const PostMortemAnalysisView: React.FC<PostMortemAnalysisViewProps> = ({ report, metrics, onReset }) => {
-  
-  // Grade Color Logic
-  const getGradeColor = (grade: string) => {
-    switch(grade) {
-      case 'S': return 'text-terminal-green border-terminal-green shadow-[0_0_20px_#00ff41]';
-      case 'A': return 'text-terminal-green border-terminal-green';
-      case 'B': return 'text-blue-400 border-blue-400';
-      case 'C': return 'text-orange-400 border-orange-400';
-      default: return 'text-alert-crimson border-alert-crimson';
-    }
-  };
+// Grade Color Logic (shared with the session archive)
+export const getGradeColor = (grade: string) => {
+  switch(grade) {
+    case 'S': return 'text-terminal-green border-terminal-green shadow-[0_0_20px_#00ff41]';
+    case 'A': return 'text-terminal-green border-terminal-green';
+    case 'B': return 'text-blue-400 border-blue-400';
+    case 'C': return 'text-orange-400 border-orange-400';
+    default: return 'text-alert-crimson border-alert-crimson';
+  }
+};
+
+const getDealOutcomeColor = (outcome: NegotiationOutcome | null) => {
+  switch(outcome) {
+    case 'DEAL': return 'text-terminal-green border-terminal-green';
+    case 'STALEMATE': return 'text-orange-400 border-orange-400';
+    case 'WALK_AWAY': return 'text-alert-crimson border-alert-crimson';
+    default: return 'text-gray-400 border-gray-600';
+  }
+};
+
+export const PostMortemAnalysisView: React.FC<PostMortemAnalysisViewProps> = ({ report, metrics, onReset, resetLabel = 'Initialize New Simulation', dealOutcome, offerLadder, coachHints }) => {
 
   return (
     <div className="w-full h-full flex flex-col bg-obsidian text-gray-200 overflow-y-auto p-6 font-mono">
@@ -30,11 +45,39 @@ export const PostMortemAnalysisView: React.FC<PostMortemAnalysisViewProps> = ({
           <h1 className="text-2xl font-bold tracking-wider text-white mb-2">MISSION DEBRIEF // <span className="text-terminal-green">POST-MORTEM</span></h1>
           <p className="text-xs text-gray-500 uppercase">Strategic Analysis & Psycholinguistic Evaluation</p>
         </div>
-        <div className={`text-6xl font-bold border-4 rounded-sm px-6 py-2 ${getGradeColor(report.overallGrade)}`}>
-          {report.overallGrade}
+        <div className="flex items-stretch gap-4">
+          {/* Deal Outcome */}
+          {dealOutcome && (
+            <div className={`border-2 rounded-sm px-4 py-2 flex flex-col justify-center text-right ${getDealOutcomeColor(dealOutcome.outcome)}`}>
+              <span className="text-[10px] tracking-widest text-gray-500">DEAL VALUE</span>
+              <span className="text-4xl font-bold">
+                {dealOutcome.dealValue === null ? '–' : `${Math.round(dealOutcome.dealValue * 100)}%`}
+              </span>
+              <span className="text-[10px] tracking-widest">
+                {dealOutcome.outcome || 'UNRESOLVED'} · ×{dealOutcome.outcomeMultiplier} · {dealOutcome.scoredTurns}/{dealOutcome.totalTurns} TURNS SCORED
+              </span>
+            </div>
+          )}
+          <div className={`text-6xl font-bold border-4 rounded-sm px-6 py-2 ${report.overallGrade ? getGradeColor(report.overallGrade) : 'text-gray-600 border-gray-700'}`}>
+            {report.overallGrade || '–'}
+          </div>
         </div>
       </div>
 
+      {/* Partial Report Advisory */}
+      {report.validationWarnings && report.validationWarnings.length > 0 && (
+        <div className="border border-orange-400/50 bg-orange-400/5 p-4 rounded mb-6">
+          <h3 className="text-xs font-bold text-orange-400 uppercase tracking-widest mb-2 flex items-center gap-2">
+            <span className="material-icons text-sm">report_problem</span> Partial Report — Model Output Failed Validation
+          </h3>
+          <ul className="text-xs text-gray-400 space-y-1">
+            {report.validationWarnings.map((w, i) => (
+              <li key={i}>• {w}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Top Row: Confidence Chart & Trajectory Analysis */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
         
@@ -80,6 +123,10 @@ export const PostMortemAnalysisView: React.FC<PostMortemAnalysisViewProps> = ({
 
       </div>
 
+      {offerLadder && <ConcessionCurveChart ladder={offerLadder} />}
+
+      {coachHints && coachHints.length > 0 && <CoachHintReview hints={coachHints} />}
+
       {/* Detailed Grids */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
         
@@ -157,7 +204,7 @@ export const PostMortemAnalysisView: React.FC<PostMortemAnalysisViewProps> = ({
           onClick={onReset}
           className="px-8 py-3 bg-terminal-green text-black font-bold uppercase tracking-widest hover:bg-white transition-colors"
         >
-          Initialize New Simulation
+          {resetLabel}
         </button>
       </div>
 
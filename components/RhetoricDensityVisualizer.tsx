@@ -5,11 +5,15 @@ import {
   AreaChart, Area, BarChart, Bar, ReferenceLine, Cell,
   Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis
 } from 'recharts';
-import { NegotiationEntropyMetric } from '../types';
+import { NegotiationEntropyMetric, RhetoricAlignment, RhetoricEdit, TurnYieldSample } from '../types';
+import { computeDealOutcome } from '../utils/dealScoring';
+import { totalDisfluency } from '../utils/disfluency';
 
 interface RhetoricDensityVisualizerProps {
   data: NegotiationEntropyMetric[];
   currentSpectralFlux: number; // Real-time amplitude (0.0 - 1.0)
+  yieldTimeline?: TurnYieldSample[];
+  rhetoricAlignment?: RhetoricAlignment | null; // Latest transcript vs. scenario target
 }
 
 // Animation variants
@@ -34,18 +38,59 @@ const cardVariants = {
   }
 };
 
-export const RhetoricDensityVisualizer: React.FC<RhetoricDensityVisualizerProps> = ({ data, currentSpectralFlux }) => {
+// Live charts only plot the most recent window; the store keeps the full history
+const LIVE_WINDOW_SIZE = 20;
+
+// Words away from the target phrasing before the deviation card turns red
+const DEVIATION_ALERT_WORDS = 5;
+
+const renderEdit = (edit: RhetoricEdit, index: number) => {
+  switch (edit.operation) {
+    case 'MATCH':
+      return <span key={index} className="text-gray-300">{edit.source}</span>;
+    case 'DELETE':
+      return <span key={index} className="text-alert-crimson line-through" title="Not in target">{edit.source}</span>;
+    case 'INSERT':
+      return <span key={index} className="text-terminal-green underline" title="Missing from your phrasing">{edit.target}</span>;
+    case 'SUBSTITUTE':
+      return (
+        <span key={index} title={`Target: ${edit.target}`}>
+          <span className="text-alert-crimson line-through">{edit.source}</span>
+          <span className="text-yellow-400">→{edit.target}</span>
+        </span>
+      );
+  }
+};
+
+export const RhetoricDensityVisualizer: React.FC<RhetoricDensityVisualizerProps> = ({ data: history, currentSpectralFlux, yieldTimeline = [], rhetoricAlignment = null }) => {
+  const data = history.slice(-LIVE_WINDOW_SIZE);
+
+  // Per-turn yield alongside the deal value as it stood after that turn
+  const yieldData = React.useMemo(
+    () => yieldTimeline.map((sample, index) => ({
+      turn: sample.turn,
+      yield: sample.yield,
+      dealValue: computeDealOutcome(yieldTimeline.slice(0, index + 1)).dealValue
+    })),
+    [yieldTimeline]
+  );
+  const latestDealValue = yieldData.length > 0 ? yieldData[yieldData.length - 1].dealValue : null;
+
   // Calculate latest metrics for display
   const latest = data[data.length - 1] || {
     timestamp: 0,
     verbalVelocity: 0,
     levenshteinDelta: 0,
+    semanticAdherence: 0,
+    pauseCount: 0,
+    longestPauseMs: 0,
+    speechToSilenceRatio: 0,
     sentimentValence: 0,
     confidenceScore: 0,
     logicDensity: 0,
     aggressionIndex: 0,
     clarityScore: 0,
-    hesitationMarkers: 0,
+    disfluency: { filledPauses: 0, repetitions: 0, restarts: 0, hedges: 0 },
     spectralIntensity: 0
   };
 
@@ -53,7 +98,7 @@ export const RhetoricDensityVisualizer: React.FC<RhetoricDensityVisualizerProps>
   const velocityColor = latest.verbalVelocity > 160 ? 'border-alert-crimson' : latest.verbalVelocity > 120 ? 'border-terminal-green' : 'border-terminal-green/30';
   const velocityPulse = latest.verbalVelocity > 160 ? 'pulse-glow' : '';
 
-  const deviationColor = latest.levenshteinDelta > 20 ? 'border-alert-crimson' : 'border-alert-crimson/30';
+  const deviationColor = latest.levenshteinDelta > DEVIATION_ALERT_WORDS ? 'border-alert-crimson' : 'border-alert-crimson/30';
 
   // Haptic feedback for low confidence
   React.useEffect(() => {
@@ -67,8 +112,10 @@ export const RhetoricDensityVisualizer: React.FC<RhetoricDensityVisualizerProps>
     { subject: 'Logic', A: latest.logicDensity, fullMark: 100 },
     { subject: 'Aggression', A: latest.aggressionIndex, fullMark: 100 },
     { subject: 'Clarity', A: latest.clarityScore, fullMark: 100 },
-    { subject: 'Fluidity', A: Math.max(0, 100 - (latest.hesitationMarkers * 10)), fullMark: 100 },
+    { subject: 'Fluidity', A: Math.max(0, 100 - (totalDisfluency(latest) * 10)), fullMark: 100 },
     { subject: 'Energy', A: Math.min(100, latest.spectralIntensity * 1000), fullMark: 100 },
+    // Older stored samples predate the metric
+    { subject: 'Adherence', A: (latest.semanticAdherence ?? 0) * 100, fullMark: 100 },
   ];
 
   return (
@@ -149,6 +196,35 @@ export const RhetoricDensityVisualizer: React.FC<RhetoricDensityVisualizerProps>
         </ResponsiveContainer>
       </motion.div>
 
+      {/* Deal Yield */}
+      {yieldData.length > 0 && (
+        <motion.div
+          variants={cardVariants}
+          className="glass-card glass-card-hover flex flex-col h-40 border-yellow-400/30 rounded p-2"
+          role="region"
+          aria-label={`Deal value: ${latestDealValue === null ? 'unscored' : `${Math.round(latestDealValue * 100)} percent`}`}
+        >
+          <h3 className="text-xs uppercase tracking-widest text-yellow-400 mb-2 flex justify-between">
+            <span>Deal Yield</span>
+            <span className="text-white">{latestDealValue === null ? '–' : `${Math.round(latestDealValue * 100)}%`}</span>
+          </h3>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={yieldData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
+              <XAxis dataKey="turn" tick={{ fill: '#666', fontSize: 10 }} />
+              <YAxis domain={[0, 1]} hide />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#000', borderColor: '#facc15', color: '#fff' }}
+                formatter={(value: number) => `${Math.round(value * 100)}%`}
+              />
+              <ReferenceLine y={0.5} stroke="#333" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="yield" name="Turn yield" stroke="#facc15" strokeWidth={0} dot={{ r: 3, fill: '#facc15' }} isAnimationActive={false} />
+              <Line type="monotone" dataKey="dealValue" name="Deal value" stroke="#facc15" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </motion.div>
+      )}
+
       {/* Verbal Velocity */}
       <motion.div
         variants={cardVariants}
@@ -168,6 +244,11 @@ export const RhetoricDensityVisualizer: React.FC<RhetoricDensityVisualizerProps>
             {Math.round(latest.verbalVelocity)}
           </motion.span>
         </h3>
+        <div className="text-[10px] text-gray-500 tracking-widest flex gap-3 -mt-1 mb-1">
+          <span>PAUSES <span className="text-gray-300">{latest.pauseCount ?? 0}</span></span>
+          <span>LONGEST <span className="text-gray-300">{((latest.longestPauseMs ?? 0) / 1000).toFixed(1)}s</span></span>
+          <span>SPEECH:SILENCE <span className="text-gray-300">{(latest.speechToSilenceRatio ?? 0).toFixed(1)}</span></span>
+        </div>
         <ResponsiveContainer width="100%" height="100%">
           <AreaChart data={data}>
             <defs>
@@ -191,7 +272,7 @@ export const RhetoricDensityVisualizer: React.FC<RhetoricDensityVisualizerProps>
       {/* Levenshtein Deviation */}
       <motion.div
         variants={cardVariants}
-        className={`glass-card glass-card-hover flex flex-col h-40 rounded p-2 transition-colors duration-300 ${deviationColor}`}
+        className={`glass-card glass-card-hover flex flex-col h-48 rounded p-2 transition-colors duration-300 ${deviationColor}`}
         role="region"
         aria-label={`Rhetoric deviation: ${latest.levenshteinDelta}`}
       >
@@ -207,6 +288,14 @@ export const RhetoricDensityVisualizer: React.FC<RhetoricDensityVisualizerProps>
             {latest.levenshteinDelta}
           </motion.span>
         </h3>
+        {rhetoricAlignment && rhetoricAlignment.edits.length > 0 && (
+          <p
+            className="font-mono text-[10px] leading-relaxed flex flex-wrap gap-x-1 mb-1 max-h-12 overflow-y-auto scrollbar-hide"
+            aria-label="Word diff against target phrasing"
+          >
+            {rhetoricAlignment.edits.map(renderEdit)}
+          </p>
+        )}
         <ResponsiveContainer width="100%" height="100%">
           <LineChart data={data}>
             <CartesianGrid strokeDasharray="3 3" stroke="#1a1a1a" />
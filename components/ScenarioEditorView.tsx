@@ -0,0 +1,456 @@
+import React, { useMemo, useState } from 'react';
+import { NegotiationLanguage, OfflineNegotiationState, ProbabilityManifold, SimulationScenarioMatrix } from '../types';
+import { ScenarioInjectionModule } from '../services/ScenarioInjectionModule';
+import { DIFFICULTY_LEVELS, compileTriggerCondition, validateScenario } from '../utils/scenarioValidator';
+import { createNegotiationState } from '../utils/negotiationStateMachine';
+import { LANGUAGE_PROFILES, SUPPORTED_LANGUAGES, resolveLanguage } from '../utils/language';
+
+interface ScenarioEditorViewProps {
+  scenarios: SimulationScenarioMatrix[];
+  saveScenario: (scenario: SimulationScenarioMatrix, isNew: boolean) => Promise<SimulationScenarioMatrix>;
+  deleteScenario: (scenarioId: string) => Promise<void>;
+  onLibraryChanged: () => Promise<void>;
+  onExit: () => void;
+}
+
+const BLANK_MANIFOLD: ProbabilityManifold = {
+  triggerCondition: '',
+  syntheticResponse: '',
+  outcomeYield: 0.5
+};
+
+const createBlankScenario = (): SimulationScenarioMatrix => ({
+  id: '',
+  designation: '',
+  targetRhetoricPattern: '',
+  difficultyLevel: 'LOW_YIELD',
+  probabilityManifolds: [{ ...BLANK_MANIFOLD }]
+});
+
+// Deep copy so edits never leak into the registry's objects
+const cloneScenario = (scenario: SimulationScenarioMatrix): SimulationScenarioMatrix => ({
+  ...scenario,
+  probabilityManifolds: scenario.probabilityManifolds.map((m) => ({ ...m }))
+});
+
+// Blank alternative lines are kept while typing and dropped on save
+const withoutBlankAlternatives = (scenario: SimulationScenarioMatrix): SimulationScenarioMatrix => ({
+  ...scenario,
+  probabilityManifolds: scenario.probabilityManifolds.map(({ alternativeResponses, ...manifold }) => {
+    const alternatives = (alternativeResponses || []).filter((response) => response.trim());
+    return alternatives.length > 0 ? { ...manifold, alternativeResponses: alternatives } : manifold;
+  })
+});
+
+// One-line summary of a manifold's state-machine rules
+const describeBehaviour = (manifold: ProbabilityManifold): string[] => {
+  const rules: string[] = [];
+  const conditions = manifold.preconditions;
+  if (conditions?.afterManifolds) rules.push(`AFTER ${conditions.afterManifolds.join('|')}`);
+  if (conditions?.minTurn !== undefined) rules.push(`TURN ≥ ${conditions.minTurn}`);
+  if (conditions?.minPatience !== undefined) rules.push(`PATIENCE ≥ ${conditions.minPatience}`);
+  if (conditions?.maxPatience !== undefined) rules.push(`PATIENCE ≤ ${conditions.maxPatience}`);
+  if (conditions?.minRunningYield !== undefined) rules.push(`YIELD ≥ ${conditions.minRunningYield}`);
+  if (conditions?.maxRunningYield !== undefined) rules.push(`YIELD ≤ ${conditions.maxRunningYield}`);
+  if (manifold.cooldownTurns) rules.push(`COOLDOWN ${manifold.cooldownTurns}`);
+  if (manifold.followUps?.length) rules.push(`→ ${manifold.followUps.join(', ')}`);
+  if (manifold.effects?.patienceDelta) rules.push(`PATIENCE ${manifold.effects.patienceDelta > 0 ? '+' : ''}${manifold.effects.patienceDelta}`);
+  if (manifold.effects?.offerAdjustment) rules.push(`OFFER ${manifold.effects.offerAdjustment > 0 ? '+' : ''}${Math.round(manifold.effects.offerAdjustment * 100)}%`);
+  if (manifold.effects?.outcome) rules.push(`ENDS IN ${manifold.effects.outcome}`);
+  return rules;
+};
+
+const inputClass = 'w-full bg-black border border-gray-700 p-2 text-xs font-mono text-gray-200 focus:border-terminal-green focus:outline-none';
+
+export const ScenarioEditorView: React.FC<ScenarioEditorViewProps> = ({ scenarios, saveScenario, deleteScenario, onLibraryChanged, onExit }) => {
+  const scenarioModule = ScenarioInjectionModule.getInstance();
+
+  const [draft, setDraft] = useState<SimulationScenarioMatrix>(() =>
+    scenarios[0] ? cloneScenario(scenarios[0]) : createBlankScenario()
+  );
+  const [isNew, setIsNew] = useState(scenarios.length === 0);
+  const [testUtterance, setTestUtterance] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Rehearsal state, advanced only when a test turn is committed
+  const [negotiationState, setNegotiationState] = useState<OfflineNegotiationState>(() => createNegotiationState(draft));
+
+  // Runs the offline engine against the unsaved draft on every keystroke
+  const simulation = useMemo(
+    () => (testUtterance.trim() ? scenarioModule.simulateScenario(withoutBlankAlternatives(draft), testUtterance, negotiationState) : null),
+    [draft, testUtterance, negotiationState]
+  );
+
+  const commitTestTurn = () => {
+    if (!simulation) return;
+    setNegotiationState(simulation.state);
+    setTestUtterance('');
+  };
+
+  const selectScenario = (scenarioId: string) => {
+    const scenario = scenarios.find((s) => s.id === scenarioId);
+    const next = scenario ? cloneScenario(scenario) : createBlankScenario();
+    setDraft(next);
+    setNegotiationState(createNegotiationState(next));
+    setIsNew(!scenario);
+    setErrors([]);
+    setStatus(null);
+  };
+
+  const updateDraft = (patch: Partial<SimulationScenarioMatrix>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const updateManifold = (index: number, patch: Partial<ProbabilityManifold>) =>
+    setDraft((prev) => ({
+      ...prev,
+      probabilityManifolds: prev.probabilityManifolds.map((m, i) => (i === index ? { ...m, ...patch } : m))
+    }));
+
+  const addManifold = () =>
+    setDraft((prev) => ({ ...prev, probabilityManifolds: [...prev.probabilityManifolds, { ...BLANK_MANIFOLD }] }));
+
+  const removeManifold = (index: number) =>
+    setDraft((prev) => ({ ...prev, probabilityManifolds: prev.probabilityManifolds.filter((_, i) => i !== index) }));
+
+  // Order decides follow-up precedence and the order overlaps are listed in
+  const moveManifold = (index: number, offset: number) =>
+    setDraft((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.probabilityManifolds.length) return prev;
+      const manifolds = [...prev.probabilityManifolds];
+      [manifolds[index], manifolds[target]] = [manifolds[target], manifolds[index]];
+      return { ...prev, probabilityManifolds: manifolds };
+    });
+
+  const handleSave = async () => {
+    const { scenario, errors: validationErrors } = validateScenario(withoutBlankAlternatives(draft));
+    if (!scenario) {
+      setErrors(validationErrors);
+      setStatus(null);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveScenario(scenario, isNew);
+      await onLibraryChanged();
+      setDraft(cloneScenario(saved));
+      setIsNew(false);
+      setErrors([]);
+      setStatus(`SAVED ${saved.id}`);
+    } catch (error: any) {
+      console.error("[SCENARIO_SAVE_FAILED]", error);
+      setErrors([error.message]);
+      setStatus(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (isNew || !window.confirm(`Delete scenario ${draft.id}?`)) return;
+    try {
+      await deleteScenario(draft.id);
+      await onLibraryChanged();
+      const remaining = scenarios.filter((s) => s.id !== draft.id);
+      const next = remaining[0] ? cloneScenario(remaining[0]) : createBlankScenario();
+      setDraft(next);
+      setNegotiationState(createNegotiationState(next));
+      setIsNew(remaining.length === 0);
+      setErrors([]);
+      setStatus(`DELETED ${draft.id}`);
+    } catch (error: any) {
+      console.error("[SCENARIO_DELETE_FAILED]", error);
+      setErrors([error.message]);
+    }
+  };
+
+  const describeRow = (index: number) => {
+    if (!simulation) return null;
+    if (simulation.firedIndex === index) return { label: 'FIRED', className: 'border-terminal-green bg-terminal-green/10' };
+    if (simulation.matchingIndices.includes(index)) return { label: 'OUTDRAWN', className: 'border-orange-400 bg-orange-400/10' };
+    if (simulation.blockedIndices.includes(index)) return { label: 'BLOCKED', className: 'border-gray-500 bg-gray-500/10' };
+    return null;
+  };
+
+  const overlapping = simulation ? simulation.matchingIndices.filter((index) => index !== simulation.firedIndex) : [];
+
+  return (
+    <div className="w-full h-full flex flex-col bg-obsidian text-gray-200 font-mono overflow-hidden">
+
+      {/* Header */}
+      <div className="flex justify-between items-center border-b border-matrix-gray px-6 py-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-wider text-white mb-1">SCENARIO FORGE // <span className="text-terminal-green">EDITOR</span></h1>
+          <p className="text-xs text-gray-500 uppercase">Manifold Authoring & Trigger Verification</p>
+        </div>
+        <button
+          onClick={onExit}
+          className="px-6 py-2 border border-terminal-green text-terminal-green font-bold uppercase text-xs tracking-widest hover:bg-terminal-green hover:text-black transition-colors"
+        >
+          Return to Simulation
+        </button>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+
+        {/* Scenario List */}
+        <div className="w-1/5 border-r border-matrix-gray overflow-y-auto">
+          <button
+            onClick={() => selectScenario('')}
+            className={`w-full text-left p-3 border-b border-matrix-gray text-xs font-bold text-terminal-green hover:bg-terminal-green/5 ${isNew ? 'bg-terminal-green/10' : ''}`}
+          >
+            + NEW SCENARIO
+          </button>
+          <ul>
+            {scenarios.map((scenario) => (
+              <li key={scenario.id}>
+                <button
+                  onClick={() => selectScenario(scenario.id)}
+                  className={`w-full text-left p-3 border-b border-matrix-gray hover:bg-terminal-green/5 ${!isNew && draft.id === scenario.id ? 'bg-terminal-green/10' : ''}`}
+                >
+                  <div className="text-xs font-bold text-gray-200 truncate">{scenario.designation}</div>
+                  <div className="text-[10px] text-gray-500">{scenario.id} · {scenario.probabilityManifolds.length} MANIFOLDS</div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Draft Form */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+
+          <div className="grid grid-cols-2 gap-4">
+            <label className="text-[10px] text-gray-500 tracking-widest space-y-1">
+              <span>SCENARIO ID</span>
+              <input
+                className={inputClass}
+                value={draft.id}
+                onChange={(e) => updateDraft({ id: e.target.value.toUpperCase() })}
+                disabled={!isNew}
+                placeholder="SCN-DELTA-04"
+              />
+            </label>
+            <label className="text-[10px] text-gray-500 tracking-widest space-y-1">
+              <span>DIFFICULTY</span>
+              <select
+                className={inputClass}
+                value={draft.difficultyLevel}
+                onChange={(e) => updateDraft({ difficultyLevel: e.target.value as SimulationScenarioMatrix['difficultyLevel'] })}
+              >
+                {DIFFICULTY_LEVELS.map((level) => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-[10px] text-gray-500 tracking-widest space-y-1">
+              <span>LANGUAGE</span>
+              <select
+                className={inputClass}
+                value={resolveLanguage(draft.language)}
+                onChange={(e) => updateDraft({ language: e.target.value as NegotiationLanguage })}
+              >
+                {SUPPORTED_LANGUAGES.map((language) => (
+                  <option key={language} value={language}>{LANGUAGE_PROFILES[language].name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-[10px] text-gray-500 tracking-widest space-y-1">
+              <span>DESIGNATION</span>
+              <input className={inputClass} value={draft.designation} onChange={(e) => updateDraft({ designation: e.target.value })} />
+            </label>
+            <label className="text-[10px] text-gray-500 tracking-widest space-y-1">
+              <span>TARGET RHETORIC PATTERN</span>
+              <input className={inputClass} value={draft.targetRhetoricPattern} onChange={(e) => updateDraft({ targetRhetoricPattern: e.target.value })} />
+            </label>
+          </div>
+
+          {draft.persona && (
+            <p className="text-[10px] text-gray-500">
+              PERSONA: {draft.persona.role} ({draft.persona.tone}) — preserved on save
+            </p>
+          )}
+          {draft.lexicon && (
+            <p className="text-[10px] text-gray-500">
+              LEXICON: {draft.lexicon.packs?.join(', ') || 'defaults'}
+              {draft.lexicon.overrides ? ' + overrides' : ''} — preserved on save
+            </p>
+          )}
+
+          {/* Test Utterance */}
+          <div className="border border-matrix-gray p-4 bg-black/50 space-y-2">
+            <div className="flex justify-between items-center text-[10px] tracking-widest">
+              <span className="text-gray-500">TEST UTTERANCE</span>
+              <span className="text-gray-400">
+                TURN {negotiationState.turn} · PATIENCE {negotiationState.patience}
+                {negotiationState.currentOffer !== null && ` · OFFER ${Math.round(negotiationState.currentOffer * 100) / 100}`}
+                {negotiationState.runningYield !== null && ` · YIELD ${negotiationState.runningYield.toFixed(2)}`}
+                {negotiationState.outcome && <span className="text-terminal-green"> · {negotiationState.outcome}</span>}
+                {` · SEED ${negotiationState.seed}`}
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <input
+                className={inputClass}
+                value={testUtterance}
+                onChange={(e) => setTestUtterance(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && commitTestTurn()}
+                placeholder="Type what an operator might say..."
+              />
+              <button
+                onClick={commitTestTurn}
+                disabled={!simulation}
+                className="px-3 text-xs border border-gray-700 text-gray-400 hover:border-terminal-green hover:text-terminal-green disabled:opacity-30"
+                title="Advance the rehearsal state with this utterance"
+              >
+                SEND
+              </button>
+              <button
+                onClick={() => setNegotiationState(createNegotiationState(draft))}
+                className="px-3 text-xs border border-gray-700 text-gray-400 hover:border-orange-400 hover:text-orange-400"
+                title="Restart the rehearsal from the opening state"
+              >
+                RESET
+              </button>
+              <button
+                onClick={() => setNegotiationState(createNegotiationState(draft, Math.floor(Math.random() * 0x100000000)))}
+                className="px-3 text-xs border border-gray-700 text-gray-400 hover:border-orange-400 hover:text-orange-400"
+                title="Restart with a new random seed to rehearse other weighted outcomes"
+              >
+                RESEED
+              </button>
+            </div>
+            {simulation && (
+              <div className="text-xs space-y-1">
+                <div className={simulation.firedIndex !== null ? 'text-terminal-green' : 'text-gray-500'}>
+                  {simulation.firedIndex !== null
+                    ? `MANIFOLD #${simulation.firedIndex + 1} FIRED · YIELD ${simulation.outcomeYield}`
+                    : 'NO MANIFOLD MATCHED · FALLBACK RESPONSE'}
+                </div>
+                <div className="text-gray-500">WHY: {simulation.selectionReason}</div>
+                {overlapping.length > 0 && (
+                  <div className="text-orange-400">
+                    ⚠ {overlapping.length} OVERLAPPING MANIFOLD{overlapping.length > 1 ? 'S' : ''} COMPETED: {overlapping.map((i) => `#${i + 1}`).join(', ')}
+                  </div>
+                )}
+                {simulation.blockedIndices.length > 0 && (
+                  <div className="text-gray-500">
+                    HELD BACK BY PRECONDITIONS OR COOLDOWN: {simulation.blockedIndices.map((i) => `#${i + 1}`).join(', ')}
+                  </div>
+                )}
+                <div className="text-gray-400">{simulation.response}</div>
+              </div>
+            )}
+          </div>
+
+          {/* Manifold Table */}
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-[10px] text-gray-500 tracking-widest">PROBABILITY MANIFOLDS (FOLLOW-UPS FIRST, THEN WEIGHTED DRAW)</span>
+              <button onClick={addManifold} className="px-3 py-1 text-xs border border-gray-700 text-gray-400 hover:border-terminal-green hover:text-terminal-green">
+                + ADD MANIFOLD
+              </button>
+            </div>
+
+            {draft.probabilityManifolds.map((manifold, index) => {
+              const syntaxError = manifold.triggerCondition ? compileTriggerCondition(manifold.triggerCondition) : null;
+              const rowState = describeRow(index);
+              return (
+                <div key={index} className={`border p-3 space-y-2 ${syntaxError ? 'border-alert-crimson' : rowState ? rowState.className : 'border-matrix-gray'}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-500 w-8">#{index + 1}</span>
+                    <input
+                      className={`${inputClass} w-32`}
+                      value={manifold.key ?? ''}
+                      onChange={(e) => updateManifold(index, { key: e.target.value || undefined })}
+                      placeholder="key"
+                      aria-label="Manifold key"
+                    />
+                    <input
+                      className={`${inputClass} flex-1`}
+                      value={manifold.triggerCondition}
+                      onChange={(e) => updateManifold(index, { triggerCondition: e.target.value })}
+                      placeholder="trigger regex, e.g. (cost|price)"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      className={`${inputClass} w-20`}
+                      value={manifold.outcomeYield}
+                      onChange={(e) => updateManifold(index, { outcomeYield: Number(e.target.value) })}
+                      aria-label="Outcome yield"
+                    />
+                    <input
+                      type="number"
+                      min={0.1}
+                      step={0.5}
+                      className={`${inputClass} w-16`}
+                      value={manifold.weight ?? 1}
+                      onChange={(e) => updateManifold(index, { weight: Number(e.target.value) })}
+                      aria-label="Selection weight"
+                      title="Selection weight"
+                    />
+                    {rowState && <span className="text-[10px] font-bold w-20 text-center">{rowState.label}</span>}
+                    <button onClick={() => moveManifold(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-terminal-green disabled:opacity-30" aria-label="Move up">
+                      <span className="material-icons text-[16px]">arrow_upward</span>
+                    </button>
+                    <button onClick={() => moveManifold(index, 1)} disabled={index === draft.probabilityManifolds.length - 1} className="text-gray-500 hover:text-terminal-green disabled:opacity-30" aria-label="Move down">
+                      <span className="material-icons text-[16px]">arrow_downward</span>
+                    </button>
+                    <button onClick={() => removeManifold(index)} className="text-gray-500 hover:text-alert-crimson" aria-label="Remove manifold">
+                      <span className="material-icons text-[16px]">delete</span>
+                    </button>
+                  </div>
+                  <textarea
+                    className={`${inputClass} h-16 resize-none`}
+                    value={manifold.syntheticResponse}
+                    onChange={(e) => updateManifold(index, { syntheticResponse: e.target.value })}
+                    placeholder="Counterpart response when this manifold fires"
+                  />
+                  <textarea
+                    className={`${inputClass} h-12 resize-none`}
+                    value={(manifold.alternativeResponses || []).join('\n')}
+                    onChange={(e) => updateManifold(index, { alternativeResponses: e.target.value ? e.target.value.split('\n') : undefined })}
+                    placeholder="Alternative responses, one per line (drawn at random)"
+                  />
+                  {describeBehaviour(manifold).length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {describeBehaviour(manifold).map((rule) => (
+                        <span key={rule} className="text-[10px] px-1 border border-gray-700 text-gray-400">{rule}</span>
+                      ))}
+                    </div>
+                  )}
+                  {syntaxError && <p className="text-[10px] text-alert-crimson">INVALID REGEX: {syntaxError}</p>}
+                </div>
+              );
+            })}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-xs text-alert-crimson border border-alert-crimson/30 bg-alert-crimson/5 p-3 space-y-1">
+              {errors.map((error) => <li key={error}>⚠ {error}</li>)}
+            </ul>
+          )}
+          {status && <p className="text-xs text-terminal-green">{status}</p>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className={`px-6 py-2 text-xs font-bold border border-terminal-green bg-terminal-green text-black hover:bg-green-400 disabled:opacity-50 ${isSaving ? 'animate-pulse' : ''}`}
+            >
+              {isSaving ? 'SAVING...' : isNew ? 'CREATE SCENARIO' : 'SAVE CHANGES'}
+            </button>
+            {!isNew && (
+              <button onClick={handleDelete} className="px-6 py-2 text-xs font-bold border border-alert-crimson text-alert-crimson hover:bg-alert-crimson hover:text-white">
+                DELETE
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
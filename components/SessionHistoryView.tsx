@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CognitiveLoadState,
+  RegradeOutcome,
+  SessionRecord,
+  SessionSummary,
+  SimulationScenarioMatrix
+} from '../types';
+import { NeuralChatInterface } from './NeuralChatInterface';
+import { RhetoricDensityVisualizer } from './RhetoricDensityVisualizer';
+import { PostMortemAnalysisView, getGradeColor } from './PostMortemAnalysisView';
+import { computeDealOutcome, turnsToYieldTimeline } from '../utils/dealScoring';
+import { buildOfferLadder } from '../utils/offerExtractor';
+import { assessCoachHints } from '../utils/coachWhisper';
+import { expandTurns } from '../utils/turnTranscript';
+
+interface SessionHistoryViewProps {
+  scenarios: SimulationScenarioMatrix[];
+  loadSessions: () => Promise<SessionSummary[]>;
+  loadSession: (sessionId: string) => Promise<SessionRecord>;
+  regradeSession: (sessionId: string) => Promise<RegradeOutcome>;
+  onExit: () => void;
+}
+
+const describeRegrade = (outcome: RegradeOutcome) => {
+  const grade = outcome.report.report.overallGrade;
+  if (!grade) {
+    return `UNGRADED: GRADE FAILED VALIDATION [${outcome.report.promptVersion}]`;
+  }
+  if (!outcome.previousGrade || outcome.gradeDelta === null) {
+    return `GRADED ${grade} [${outcome.report.promptVersion}]`;
+  }
+  const delta = outcome.gradeDelta > 0 ? `+${outcome.gradeDelta}` : String(outcome.gradeDelta);
+  return `REGRADED ${outcome.previousGrade} → ${grade} (${delta}) [${outcome.previousPromptVersion} → ${outcome.report.promptVersion}]`;
+};
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return 'OPEN';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+export const SessionHistoryView: React.FC<SessionHistoryViewProps> = ({ scenarios, loadSessions, loadSession, regradeSession, onExit }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [selected, setSelected] = useState<SessionRecord | null>(null);
+  const [replayPosition, setReplayPosition] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showDebrief, setShowDebrief] = useState(false);
+  const [isRegrading, setIsRegrading] = useState(false);
+  const [regradeStatus, setRegradeStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions()
+      .then(setSessions)
+      .catch((error) => {
+        console.error("[HISTORY_LOAD_FAILED]", error);
+        setLoadError('ARCHIVE_UNAVAILABLE');
+      });
+  }, []);
+
+  const vectors = useMemo(() => (selected ? expandTurns(selected.turns) : []), [selected]);
+  const yieldTimeline = useMemo(() => (selected ? turnsToYieldTimeline(selected.turns) : []), [selected]);
+
+  // Metrics as they were when the message at the scrubber position arrived
+  const visibleVectors = vectors.slice(0, replayPosition);
+  const visibleMetrics = useMemo(() => {
+    if (!selected) return [];
+    if (replayPosition >= vectors.length) return selected.metrics;
+    if (replayPosition === 0) return [];
+    const cutoff = vectors[replayPosition - 1].timestamp;
+    return selected.metrics.filter((m) => m.timestamp <= cutoff);
+  }, [selected, vectors, replayPosition]);
+
+  const handleSelect = async (sessionId: string) => {
+    try {
+      const record = await loadSession(sessionId);
+      setSelected(record);
+      setReplayPosition(record.turns.length * 2);
+      setLoadError(null);
+      setRegradeStatus(null);
+    } catch (error) {
+      console.error("[SESSION_REPLAY_FAILED]", error);
+      setLoadError('SESSION_DATA_UNAVAILABLE');
+    }
+  };
+
+  const handleRegrade = async () => {
+    if (!selected) return;
+    setIsRegrading(true);
+    try {
+      const outcome = await regradeSession(selected.id);
+      // An ungraded report leaves the session's grade as it was
+      const overallGrade = outcome.report.report.overallGrade ?? selected.overallGrade;
+      setSelected({ ...selected, overallGrade, latestReport: outcome.report });
+      setSessions((prev) => prev.map((s) => (s.id === selected.id ? { ...s, overallGrade } : s)));
+      setRegradeStatus(describeRegrade(outcome));
+    } catch (error: any) {
+      console.error("[REGRADE_FAILED]", error);
+      setRegradeStatus(`REGRADE_FAILED: ${error.message}`);
+    } finally {
+      setIsRegrading(false);
+    }
+  };
+
+  const scenarioName = (scenarioId: string | null) =>
+    scenarios.find((s) => s.id === scenarioId)?.designation || scenarioId || 'UNBOUND';
+
+  // Stored debrief for the selected session
+  if (showDebrief && selected?.latestReport) {
+    const scenario = scenarios.find((s) => s.id === selected.scenarioId);
+    const context = { vectors, metrics: selected.metrics, scenario, language: selected.language };
+    return (
+      <PostMortemAnalysisView
+        report={selected.latestReport.report}
+        metrics={selected.metrics}
+        onReset={() => setShowDebrief(false)}
+        resetLabel="Back to Replay"
+        dealOutcome={computeDealOutcome(yieldTimeline)}
+        offerLadder={buildOfferLadder(vectors, scenario, selected.language)}
+        coachHints={assessCoachHints(selected.coachHints, context)}
+      />
+    );
+  }
+
+  return (
+    <div className="w-full h-full flex flex-col bg-obsidian text-gray-200 font-mono overflow-hidden">
+
+      {/* Header */}
+      <div className="flex justify-between items-center border-b border-matrix-gray px-6 py-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-wider text-white mb-1">SESSION ARCHIVE // <span className="text-terminal-green">REPLAY</span></h1>
+          <p className="text-xs text-gray-500 uppercase">Transcript & Telemetry Reconstruction</p>
+        </div>
+        <button
+          onClick={onExit}
+          className="px-6 py-2 border border-terminal-green text-terminal-green font-bold uppercase text-xs tracking-widest hover:bg-terminal-green hover:text-black transition-colors"
+        >
+          Return to Simulation
+        </button>
+      </div>
+
+      {loadError && (
+        <div className="px-6 py-2 text-xs text-alert-crimson border-b border-alert-crimson/30 bg-alert-crimson/5">
+          ⚠ {loadError}
+        </div>
+      )}
+
+      <div className="flex-1 flex overflow-hidden">
+
+        {/* Session List */}
+        <div className="w-1/4 border-r border-matrix-gray overflow-y-auto">
+          {sessions.length === 0 && !loadError && (
+            <p className="p-4 text-xs text-gray-500">NO ARCHIVED SESSIONS</p>
+          )}
+          <ul>
+            {sessions.map((session) => (
+              <li key={session.id}>
+                <button
+                  onClick={() => handleSelect(session.id)}
+                  className={`w-full text-left p-3 border-b border-matrix-gray flex justify-between items-center gap-2 hover:bg-terminal-green/5 ${selected?.id === session.id ? 'bg-terminal-green/10' : ''}`}
+                >
+                  <div className="min-w-0">
+                    <div className="text-xs font-bold text-gray-200 truncate">{scenarioName(session.scenarioId)}</div>
+                    <div className="text-[10px] text-gray-500">{new Date(session.createdAt).toLocaleString()}</div>
+                    <div className="text-[10px] text-gray-500">
+                      {formatDuration(session.duration)} · {session.turnCount} TURNS · {session.language.toUpperCase()}
+                    </div>
+                  </div>
+                  <span className={`text-lg font-bold border-2 rounded-sm px-2 ${session.overallGrade ? getGradeColor(session.overallGrade) : 'text-gray-600 border-gray-700'}`}>
+                    {session.overallGrade || '–'}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {selected ? (
+          <div className="flex-1 flex flex-col overflow-hidden">
+
+            {/* Replay Scrubber */}
+            <div className="flex items-center gap-4 px-4 py-3 border-b border-matrix-gray bg-black/50">
+              <span className="text-[10px] text-gray-500 tracking-widest">TIMELINE</span>
+              <input
+                type="range"
+                min={0}
+                max={vectors.length}
+                value={replayPosition}
+                onChange={(e) => setReplayPosition(Number(e.target.value))}
+                className="flex-1 accent-terminal-green"
+                aria-label="Replay position"
+              />
+              <span className="text-xs text-terminal-green w-20 text-right">
+                {replayPosition} / {vectors.length}
+              </span>
+              <button
+                onClick={() => setShowDebrief(true)}
+                disabled={!selected.latestReport}
+                className="px-3 py-1 text-xs border border-blue-400 text-blue-400 font-bold hover:bg-blue-400 hover:text-black transition-colors disabled:opacity-30"
+              >
+                VIEW DEBRIEF
+              </button>
+              <button
+                onClick={handleRegrade}
+                disabled={isRegrading || selected.turns.length === 0}
+                className={`px-3 py-1 text-xs border border-orange-400 text-orange-400 font-bold hover:bg-orange-400 hover:text-black transition-colors disabled:opacity-30 ${isRegrading ? 'animate-pulse' : ''}`}
+              >
+                {isRegrading ? 'REGRADING...' : 'REGRADE'}
+              </button>
+            </div>
+
+            {regradeStatus && (
+              <div className="px-4 py-2 text-xs text-orange-300 border-b border-matrix-gray bg-black/30">
+                {regradeStatus}
+              </div>
+            )}
+
+            <div className="flex-1 flex overflow-hidden">
+              <div className="w-1/2 border-r border-matrix-gray p-4 overflow-y-auto">
+                <RhetoricDensityVisualizer
+                  data={visibleMetrics}
+                  currentSpectralFlux={0}
+                  yieldTimeline={yieldTimeline.slice(0, Math.floor(replayPosition / 2))}
+                />
+              </div>
+              <div className="w-1/2 h-full">
+                <NeuralChatInterface
+                  vectors={visibleVectors}
+                  onTransmit={() => {}}
+                  cognitiveState={CognitiveLoadState.IDLE}
+                  language={selected.language}
+                  readOnly
+                />
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-xs text-gray-500">
+            SELECT A SESSION TO REPLAY
+          </div>
+        )}
+
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { DisfluencyKind, LexiconCategory, SentimentExplanation } from '../types';
+
+const CATEGORY_STYLES: Record<LexiconCategory, string> = {
+  aggression: 'bg-alert-crimson/30 text-red-300',
+  conciliatory: 'bg-blue-500/30 text-blue-200',
+  logic: 'bg-yellow-400/20 text-yellow-200',
+  hesitation: 'bg-gray-500/40 text-gray-200 italic',
+  hedge: 'bg-gray-500/20 text-gray-300 italic',
+  negation: 'underline decoration-wavy decoration-alert-crimson',
+  intensifier: 'underline decoration-dotted decoration-yellow-400'
+};
+
+const DISFLUENCY_KIND_LABELS: Record<DisfluencyKind, string> = {
+  FILLED_PAUSE: 'Filled pauses',
+  REPETITION: 'Repetitions',
+  RESTART: 'Restarts',
+  HEDGE: 'Hedges'
+};
+
+const formatDelta = (value: number, digits = 2) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+interface HighlightedUtteranceProps {
+  text: string;
+  explanation: SentimentExplanation;
+}
+
+/**
+ * The utterance with every contributing word highlighted by lexicon category.
+ */
+export const HighlightedUtterance: React.FC<HighlightedUtteranceProps> = ({ text, explanation }) => {
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+  explanation.highlights.forEach((highlight, index) => {
+    if (highlight.start > cursor) segments.push(text.slice(cursor, highlight.start));
+    segments.push(
+      <mark
+        key={index}
+        className={`rounded-sm px-0.5 bg-transparent ${CATEGORY_STYLES[highlight.category]}`}
+        title={`${highlight.category}: ${highlight.phrase}`}
+      >
+        {text.slice(highlight.start, highlight.end)}
+      </mark>
+    );
+    cursor = highlight.end;
+  });
+  if (cursor < text.length) segments.push(text.slice(cursor));
+  return <>{segments}</>;
+};
+
+interface MetricBreakdownPanelProps {
+  explanation: SentimentExplanation;
+}
+
+/**
+ * Why an operator utterance scored the confidence, aggression and clarity it did.
+ */
+export const MetricBreakdownPanel: React.FC<MetricBreakdownPanelProps> = ({ explanation }) => {
+  const { factor } = explanation;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-white/10 text-[10px] text-gray-300 space-y-2" aria-label="Metric breakdown">
+      <div className="flex gap-3 tracking-widest">
+        <span>CONFIDENCE <span className="text-white">{(factor.confidenceScore * 100).toFixed(0)}%</span></span>
+        <span>AGGRESSION <span className="text-white">{factor.aggressionIndex.toFixed(0)}</span></span>
+        <span>LOGIC <span className="text-white">{factor.logicDensity.toFixed(0)}</span></span>
+        <span>CLARITY <span className="text-white">{factor.clarityScore.toFixed(0)}</span></span>
+      </div>
+
+      <div>
+        <div className="text-gray-500 tracking-widest mb-1">CONFIDENCE (BASE 100%)</div>
+        {explanation.confidenceContributions.length === 0 ? (
+          <div className="text-gray-500">No penalties or bonuses applied</div>
+        ) : (
+          <ul className="space-y-0.5">
+            {explanation.confidenceContributions.map((contribution) => (
+              <li key={contribution.source} className="flex justify-between gap-4">
+                <span>{contribution.source} — {contribution.detail}</span>
+                <span className={contribution.delta < 0 ? 'text-alert-crimson' : 'text-terminal-green'}>
+                  {formatDelta(contribution.delta * 100, 0)}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {(Object.keys(DISFLUENCY_KIND_LABELS) as DisfluencyKind[]).map((kind) => {
+          const phrases = explanation.disfluency.markers.filter((marker) => marker.kind === kind).map((marker) => marker.phrase);
+          return phrases.length > 0 && (
+            <div key={kind} className="text-gray-500 mt-1">{DISFLUENCY_KIND_LABELS[kind]} here: {phrases.join(', ')}</div>
+          );
+        })}
+        {explanation.mumblingPenaltyApplied && (
+          <div className="text-gray-500">Mumbling penalty triggered: speak up to recover 20%</div>
+        )}
+      </div>
+
+      <div>
+        <div className="text-gray-500 tracking-widest mb-1">CLARITY (BASE 100)</div>
+        <div className="flex justify-between gap-4">
+          <span>Verbosity — 0.02 per character</span>
+          <span className="text-alert-crimson">{formatDelta(-explanation.verbosityPenalty, 1)}</span>
+        </div>
+        {explanation.clarityLogicBonus > 0 && (
+          <div className="flex justify-between gap-4">
+            <span>Logic density bonus</span>
+            <span className="text-terminal-green">{formatDelta(explanation.clarityLogicBonus, 1)}</span>
+          </div>
+        )}
+      </div>
+
+      {explanation.trace.length > 0 && (
+        <div>
+          <div className="text-gray-500 tracking-widest mb-1">CONTRIBUTING WORDS</div>
+          <ul className="space-y-0.5">
+            {explanation.trace.map((entry) => (
+              <li key={`${entry.start}-${entry.category}`}>{entry.explanation}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
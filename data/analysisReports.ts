@@ -0,0 +1,67 @@
+import { StrategicAnalysisReport } from "../types";
+
+/**
+ * Canned post-mortem reports served by the local model provider,
+ * keyed by the grade band the session's telemetry falls into.
+ */
+export const CANNED_ANALYSIS_REPORTS: Record<'A' | 'B' | 'C' | 'F', StrategicAnalysisReport> = {
+  A: {
+    strengths: [
+      { point: "Held the anchor under pressure", example: "Operator restated the target position without conceding." },
+      { point: "Backed claims with evidence", example: "Operator referenced metrics when challenged." }
+    ],
+    missedOpportunities: [
+      { context: "Counterpart signalled flexibility on timing", betterAlternative: "Trade schedule flexibility for a concession on price." }
+    ],
+    psychologicalTacticsDetected: [
+      { tacticName: "Anchoring", description: "Counterpart opened with an extreme position to reset expectations." }
+    ],
+    confidenceTrajectoryAnalysis: "Confidence stayed high throughout the session with minimal hesitation. Delivery remained steady when the counterpart escalated.",
+    trainingRecommendations: ["Practice converting leverage into explicit trades.", "Rehearse closing statements that lock in gains."],
+    overallGrade: 'A'
+  },
+  B: {
+    strengths: [
+      { point: "Maintained a collaborative tone", example: "Operator acknowledged the counterpart's constraints." }
+    ],
+    missedOpportunities: [
+      { context: "Operator accepted the first counter-offer framing", betterAlternative: "Reframe around your own reference point before responding." }
+    ],
+    psychologicalTacticsDetected: [
+      { tacticName: "Deadline Pressure", description: "Counterpart implied the offer would expire to force a quick decision." }
+    ],
+    confidenceTrajectoryAnalysis: "Confidence was solid but dipped after the counterpart's first challenge before recovering in later turns.",
+    trainingRecommendations: ["Drill responses to aggressive counter-anchors.", "Reduce filler words in opening statements."],
+    overallGrade: 'B'
+  },
+  C: {
+    strengths: [
+      { point: "Stayed engaged with the counterpart", example: "Operator responded to every challenge." }
+    ],
+    missedOpportunities: [
+      { context: "Operator justified instead of probing", betterAlternative: "Ask what the counterpart needs before defending your position." },
+      { context: "Hesitation weakened key claims", betterAlternative: "Deliver the core ask in one short, declarative sentence." }
+    ],
+    psychologicalTacticsDetected: [
+      { tacticName: "Flinch", description: "Counterpart reacted with exaggerated surprise to the operator's ask." }
+    ],
+    confidenceTrajectoryAnalysis: "Confidence fluctuated with frequent hesitation markers. The operator lost ground when the counterpart pushed back.",
+    trainingRecommendations: ["Record and review your opening ask until it is free of fillers.", "Prepare a BATNA statement before each session."],
+    overallGrade: 'C'
+  },
+  F: {
+    strengths: [
+      { point: "Completed the session", example: "Operator stayed in the negotiation until termination." }
+    ],
+    missedOpportunities: [
+      { context: "Operator conceded without reciprocity", betterAlternative: "Never concede without asking for something in return." },
+      { context: "Target rhetoric was never delivered", betterAlternative: "Open with the scenario's target position verbatim." }
+    ],
+    psychologicalTacticsDetected: [
+      { tacticName: "Good Cop / Bad Cop", description: "Counterpart alternated pressure and sympathy to extract concessions." }
+    ],
+    confidenceTrajectoryAnalysis: "Confidence remained low for most of the session. Hesitation and low vocal energy signalled uncertainty to the counterpart.",
+    trainingRecommendations: ["Rehearse the target rhetoric pattern aloud before the next session.", "Practice pausing instead of using filler words."],
+    overallGrade: 'F'
+  }
+};
@@ -6,21 +6,73 @@ export const SCENARIO_DB: SimulationScenarioMatrix[] = [
       designation: 'HOSTILE TAKEOVER DEFENSE',
       difficultyLevel: 'HOSTILE_TAKEOVER',
       targetRhetoricPattern: "We categorically reject the valuation as it fails to account for our proprietary IP pipeline.",
+      persona: {
+        role: "Managing partner of an activist private equity fund attempting a hostile acquisition",
+        hiddenGoals: [
+          "Close before the target's Q3 earnings call re-rates the stock",
+          "Secure the IP pipeline, which the fund has already pitched to its LPs"
+        ],
+        batna: "Launch a tender offer directly to shareholders at a 10% lower premium",
+        reservationPrice: { value: 1200000000, unit: 'USD', bound: 'CEILING' },
+        tone: "Cold, clipped and dismissive; treats every objection as a sign of weakness"
+      },
+      operatorReservationPrice: { value: 1050000000, unit: 'USD', bound: 'FLOOR' },
+      negotiationParameters: { openingOffer: 950000000, patience: 4, maxTurns: 10 },
       probabilityManifolds: [
         {
+          key: 'close',
+          triggerCondition: "(accept|sign|deal)",
+          syntheticResponse: "Then we have terms. My counsel will circulate the definitive agreement tonight.",
+          outcomeYield: 0.9,
+          preconditions: { minRunningYield: 0.6, minTurn: 3 },
+          effects: { outcome: 'DEAL' }
+        },
+        {
+          key: 'liquidity-proof',
+          triggerCondition: "(cash|liquidity|runway|balance sheet)",
+          syntheticResponse: "So you could survive a tender fight. Fine. We will improve the premium, but do not mistake this for generosity.",
+          outcomeYield: 0.7,
+          preconditions: { afterManifolds: ['rejection'] },
+          effects: { offerAdjustment: 0.05, patienceDelta: 1 }
+        },
+        {
+          key: 'revenue-proof',
+          triggerCondition: "(revenue|q3|figures|million|billion)",
+          syntheticResponse: "Those figures are ahead of our model. We can revisit the valuation.",
+          outcomeYield: 0.85,
+          preconditions: { afterManifolds: ['ip-pipeline'] },
+          effects: { offerAdjustment: 0.1, patienceDelta: 1 }
+        },
+        {
+          key: 'rejection',
           triggerCondition: "(reject|no|never)",
           syntheticResponse: "Your rejection is noted, but the market cap suggests you have no leverage. Explain your liquidity position.",
-          outcomeYield: 0.8
+          alternativeResponses: [
+            "Refusal is not a strategy. How long can your balance sheet fund a proxy fight?"
+          ],
+          outcomeYield: 0.8,
+          weight: 2,
+          cooldownTurns: 1,
+          followUps: ['liquidity-proof'],
+          effects: { patienceDelta: -1 }
         },
         {
+          key: 'submission',
           triggerCondition: "(agree|yes|okay)",
           syntheticResponse: "Submission detected. We are lowering the offer by 15% due to your lack of conviction.",
-          outcomeYield: 0.2
+          outcomeYield: 0.2,
+          effects: { offerAdjustment: -0.15 }
         },
         {
+          key: 'ip-pipeline',
           triggerCondition: "(pipeline|ip|tech)",
           syntheticResponse: "The pipeline is speculative. Give me concrete revenue figures for Q3.",
-          outcomeYield: 0.6
+          alternativeResponses: [
+            "Every target claims its IP is priceless. Show me the Q3 revenue it actually generates."
+          ],
+          outcomeYield: 0.6,
+          cooldownTurns: 2,
+          followUps: ['revenue-proof']
         }
       ]
     },
@@ -29,16 +81,52 @@ export const SCENARIO_DB: SimulationScenarioMatrix[] = [
       designation: 'EXECUTIVE SALARY ARBITRAGE',
       difficultyLevel: 'HIGH_YIELD',
       targetRhetoricPattern: "My performance metrics justify a base adjustment of twenty percent plus equity refresh.",
+      persona: {
+        role: "Chief People Officer negotiating an executive's compensation review",
+        hiddenGoals: [
+          "Retain the executive through the product launch next quarter",
+          "Keep the raise inside the approved budget band"
+        ],
+        batna: "Promote an internal deputy who is cheaper but less proven",
+        reservationPrice: { value: 15, unit: 'PERCENT', bound: 'CEILING' },
+        tone: "Polished and skeptical; demands evidence and probes for bluffing"
+      },
+      operatorReservationPrice: { value: 12, unit: 'PERCENT', bound: 'FLOOR' },
+      negotiationParameters: { openingOffer: 8, patience: 3, maxTurns: 8 },
       probabilityManifolds: [
         {
+          key: 'close',
+          triggerCondition: "(accept|agree|deal)",
+          syntheticResponse: "Then it's settled. I'll have the revised offer letter on your desk by Friday.",
+          outcomeYield: 0.8,
+          preconditions: { minRunningYield: 0.65, minTurn: 2 },
+          effects: { outcome: 'DEAL' }
+        },
+        {
+          key: 'evidence',
+          triggerCondition: "(delivered|launched|results|revenue|metrics)",
+          syntheticResponse: "That is a stronger case than I expected. I can take a larger adjustment to the committee.",
+          outcomeYield: 0.85,
+          preconditions: { afterManifolds: ['equity-ask'] },
+          effects: { offerAdjustment: 0.5 }
+        },
+        {
+          key: 'equity-ask',
           triggerCondition: "(percent|equity|stock)",
           syntheticResponse: "Equity is reserved for critical talent. Prove you are indispensable.",
-          outcomeYield: 0.7
+          outcomeYield: 0.7,
+          cooldownTurns: 2,
+          followUps: ['evidence']
         },
         {
+          key: 'threat',
           triggerCondition: "(quit|leave|offer)",
           syntheticResponse: "Is that a threat? The door is open. We have three candidates ready.",
-          outcomeYield: 0.1
+          alternativeResponses: [
+            "Walking out is your prerogative. Just know we do not counter bluffs."
+          ],
+          outcomeYield: 0.1,
+          effects: { patienceDelta: -2 }
         }
       ]
     },
@@ -47,10 +135,48 @@ export const SCENARIO_DB: SimulationScenarioMatrix[] = [
       designation: 'SUPPLY CHAIN DEADLOCK',
       difficultyLevel: 'LOW_YIELD',
       targetRhetoricPattern: "We need to align on a delivery schedule that mitigates our inventory risk.",
+      lexicon: {
+        packs: ['procurement-en'],
+        // Scheduling talk says "now" constantly without any pressure behind it
+        overrides: { aggression: { now: 0 }, logic: { 'delivery schedule': 1 } }
+      },
+      persona: {
+        role: "Account manager at a component supplier with constrained capacity",
+        hiddenGoals: [
+          "Lock in a twelve-month volume commitment",
+          "Offset rising freight costs"
+        ],
+        batna: "Reallocate the capacity to a competing buyer at list price",
+        reservationPrice: { value: 4, unit: 'PERCENT', bound: 'FLOOR' },
+        tone: "Friendly but firm; open to trades when given something in return"
+      },
+      operatorReservationPrice: { value: 7, unit: 'PERCENT', bound: 'CEILING' },
+      negotiationParameters: { openingOffer: 10, patience: 6, maxTurns: 12 },
       probabilityManifolds: [
         {
+          key: 'close',
+          triggerCondition: "(agree|accept|deal|sign)",
+          syntheticResponse: "Done. Twelve months of priority allocation at the reduced premium.",
+          outcomeYield: 0.8,
+          preconditions: { afterManifolds: ['commitment'] },
+          effects: { outcome: 'DEAL' }
+        },
+        {
+          key: 'commitment',
+          triggerCondition: "(commit|volume|contract|twelve|12)",
+          syntheticResponse: "A volume commitment changes the math. I can bring the premium down if you sign for twelve months.",
+          outcomeYield: 0.75,
+          cooldownTurns: 1,
+          followUps: ['close'],
+          effects: { offerAdjustment: -0.4 }
+        },
+        {
+          key: 'schedule',
           triggerCondition: "(risk|inventory|schedule)",
           syntheticResponse: "We can prioritize your shipment if you agree to a 10% premium.",
+          alternativeResponses: [
+            "Capacity is tight this quarter. A 10% premium secures your slot."
+          ],
           outcomeYield: 0.5
         }
       ]
@@ -1,19 +1,22 @@
 import { useState, useRef, useCallback } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { CircuitBreakerThresholds } from '../types';
+import { CircuitBreakerThresholds, NegotiationLanguage } from '../types';
+import { DEFAULT_LANGUAGE, LANGUAGE_PROFILES } from '../utils/language';
 
 interface VoiceStreamProcessorConfig {
   apiKey?: string;
   voiceName: string;
+  language?: NegotiationLanguage; // Recognition and reply language hint for the Live API
   isAcousticCaptureActive: boolean;
-  onTranscriptUpdate: (text: string, isFinal: boolean) => void;
+  onTranscriptUpdate: (text: string, isFinal: boolean, receivedAt: number) => void;
   onAudioData: (audioBuffer: AudioBuffer) => void;
-  onSpectralFluxAnalysis: (amplitude: number) => void;
+  onSpectralFluxAnalysis: (amplitude: number, capturedAt: number) => void; // capturedAt: wall-clock ms of the frame
 }
 
 export const useVoiceStreamProcessor = ({
   apiKey,
   voiceName,
+  language = DEFAULT_LANGUAGE,
   isAcousticCaptureActive,
   onTranscriptUpdate,
   onAudioData,
@@ -99,7 +102,7 @@ export const useVoiceStreamProcessor = ({
         });
       }
 
-      console.log(`[NEURAL_LINK] Connecting... | Voice: ${voiceName}`);
+      console.log(`[NEURAL_LINK] Connecting... | Voice: ${voiceName} | Language: ${LANGUAGE_PROFILES[language].locale}`);
 
       const sessionPromise = ai.live.connect({
         model: 'gemini-2.0-flash-exp',
@@ -107,6 +110,7 @@ export const useVoiceStreamProcessor = ({
           responseModalities: [Modality.AUDIO],
           speechConfig: {
             voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName } },
+            languageCode: LANGUAGE_PROFILES[language].locale,
           },
         },
         callbacks: {
@@ -122,10 +126,14 @@ export const useVoiceStreamProcessor = ({
             const workletNode = new AudioWorkletNode(inputAudioContextRef.current, 'audio-processor');
 
             workletNode.port.onmessage = (event) => {
-              const { type, value, data } = event.data;
+              const { type, value, data, time } = event.data;
 
               if (type === 'rms') {
-                onSpectralFluxAnalysis(value);
+                // Map the worklet's audio clock onto wall-clock time
+                const lagMs = inputAudioContextRef.current && typeof time === 'number'
+                  ? Math.max(0, (inputAudioContextRef.current.currentTime - time) * 1000)
+                  : 0;
+                onSpectralFluxAnalysis(value, Date.now() - lagMs);
               }
 
               if (type === 'audio' && isAcousticCaptureActive) {
@@ -144,8 +152,9 @@ export const useVoiceStreamProcessor = ({
             workletNodeRef.current = workletNode;
           },
           onmessage: async (msg: LiveServerMessage) => {
-            if (msg.serverContent?.inputTranscription?.text) {
-              onTranscriptUpdate(msg.serverContent.inputTranscription.text, false);
+            const inputTranscription = msg.serverContent?.inputTranscription;
+            if (inputTranscription?.text) {
+              onTranscriptUpdate(inputTranscription.text, inputTranscription.finished ?? false, Date.now());
             }
 
             const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
@@ -188,7 +197,7 @@ export const useVoiceStreamProcessor = ({
       setConnectionError(`INITIALIZATION_FAILURE :: ${err.message}`);
       setIsConnectionActive(false);
     }
-  }, [apiKey, voiceName, isAcousticCaptureActive, onTranscriptUpdate, onAudioData, onSpectralFluxAnalysis]);
+  }, [apiKey, voiceName, language, isAcousticCaptureActive, onTranscriptUpdate, onAudioData, onSpectralFluxAnalysis]);
 
   const severNeuralLink = useCallback(() => {
     if (streamRef.current) {
@@ -0,0 +1,12 @@
+import { PrismaClient } from '@prisma/client';
+
+// Reuse a single client across hot reloads in development
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export const prisma: PrismaClient = globalForPrisma.prisma ?? new PrismaClient();
+
+if (process.env.NODE_ENV !== 'production') {
+    globalForPrisma.prisma = prisma;
+}
+
+export default prisma;
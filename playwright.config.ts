@@ -25,5 +25,9 @@ export default defineConfig({
         command: 'npm run dev',
         url: 'http://localhost:3000',
         reuseExistingServer: !process.env.CI,
+        // Run the stack offline against the deterministic local provider
+        env: {
+            MODEL_PROVIDER: 'local',
+        },
     },
 });
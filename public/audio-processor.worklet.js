@@ -44,11 +44,13 @@ class AudioProcessor extends AudioWorkletProcessor {
         if (input && input.length > 0) {
             const inputChannel = input[0];
 
-            // Calculate RMS and send to main thread
+            // Calculate RMS and send to main thread, stamped with the
+            // audio clock time of this render quantum for voice-activity timing
             const rms = this.calculateRMS(inputChannel);
             this.port.postMessage({
                 type: 'rms',
-                value: rms
+                value: rms,
+                time: currentTime
             });
 
             // Buffer audio data
@@ -1,39 +1,50 @@
-import { DialogueTransmissionVector, CircuitBreakerThresholds, NegotiationEntropyMetric, StrategicAnalysisReport } from "../types";
+import {
+  DialogueTransmissionVector,
+  CircuitBreakerThresholds,
+  NegotiationEntropyMetric,
+  StrategicAnalysisReport,
+  SessionAttribution,
+  SessionSummary,
+  SessionRecord,
+  RegradeOutcome,
+  SimulationScenarioMatrix,
+  TurnYieldJudgement,
+  CoachHint
+} from "../types";
 
 export class GeminiDeepThinkService {
   private apiEndpoint = '/api/negotiate';
   private analysisEndpoint = '/api/analysis';
+  private sessionsEndpoint = '/api/sessions';
+  private scenariosEndpoint = '/api/scenarios';
 
   /**
    * Executes a deep thinking query via backend proxy.
    * API key is never exposed to the client.
+   * `onToken` receives the accumulated reply each time a new chunk arrives;
+   * `onJudgement` receives the turn's scored yield once the judge answers, which
+   * may be after the reply has resolved.
    */
   public async executeDeepThought(
     prompt: string,
-    history: DialogueTransmissionVector[]
+    history: DialogueTransmissionVector[],
+    attribution?: SessionAttribution,
+    onToken?: (partialResponse: string) => void,
+    onJudgement?: (judgement: TurnYieldJudgement) => void
   ): Promise<string> {
 
     let attempts = 0;
 
     while (attempts < CircuitBreakerThresholds.MAX_RETRY_ATTEMPTS) {
       try {
-        const response = await fetch(this.apiEndpoint, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ prompt, history })
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-
-        const data = await response.json();
+        let fullResponse = '';
 
-        if (data.error) {
-          throw new Error(data.error);
+        for await (const chunk of this.streamDeepThought(prompt, history, attribution, onJudgement)) {
+          fullResponse += chunk;
+          onToken?.(fullResponse);
         }
 
-        return data.response || "DATA_CORRUPTION_EMPTY_RESPONSE";
+        return fullResponse || "DATA_CORRUPTION_EMPTY_RESPONSE";
 
       } catch (error: any) {
         const errorLog = {
@@ -55,19 +66,162 @@ export class GeminiDeepThinkService {
     return "SYSTEM_FAILURE";
   }
 
+  /**
+   * Streams the synthetic agent's reply chunk by chunk.
+   * A plain JSON body is yielded as a single chunk.
+   */
+  public async *streamDeepThought(
+    prompt: string,
+    history: DialogueTransmissionVector[],
+    attribution?: SessionAttribution,
+    onJudgement?: (judgement: TurnYieldJudgement) => void
+  ): AsyncGenerator<string> {
+    const response = await fetch(this.apiEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        prompt,
+        history,
+        scenarioId: attribution?.scenarioId,
+        sessionId: attribution?.sessionId ?? undefined
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+
+    if (!contentType.includes('text/event-stream')) {
+      const data = await response.json();
+
+      if (data.error) {
+        throw new Error(data.error);
+      }
+
+      yield data.response || '';
+      if (data.judgement) onJudgement?.(data.judgement);
+      return;
+    }
+
+    if (!response.body) {
+      throw new Error('STREAM_UNAVAILABLE');
+    }
+
+    yield* this.readEventStream(response.body, onJudgement);
+  }
+
+  /**
+   * Yields the text chunks of the negotiate route's event stream until the
+   * `[DONE]` sentinel. Error frames are rethrown so the circuit breaker sees them.
+   * The turn judgement may follow `[DONE]`; it is read in the background so the
+   * reply completes without waiting for the judge.
+   */
+  private async *readEventStream(
+    body: ReadableStream<Uint8Array>,
+    onJudgement?: (judgement: TurnYieldJudgement) => void
+  ): AsyncGenerator<string> {
+    const payloads = this.readEventPayloads(body);
+    let handedOff = false;
+
+    try {
+      while (true) {
+        const { done, value: payload } = await payloads.next();
+        if (done) return;
+
+        if (payload === '[DONE]') {
+          handedOff = true;
+          void this.readLateJudgement(payloads, onJudgement);
+          return;
+        }
+
+        const event = JSON.parse(payload);
+        if (event.error) {
+          throw new Error(event.error);
+        }
+        if (event.text) {
+          yield event.text as string;
+        }
+        if (event.judgement) {
+          onJudgement?.(event.judgement as TurnYieldJudgement);
+        }
+      }
+    } finally {
+      if (!handedOff) await payloads.return(undefined);
+    }
+  }
+
+  // Drains the frames after `[DONE]` for the turn judgement
+  private async readLateJudgement(
+    payloads: AsyncGenerator<string>,
+    onJudgement?: (judgement: TurnYieldJudgement) => void
+  ): Promise<void> {
+    try {
+      for await (const payload of payloads) {
+        const event = JSON.parse(payload);
+        if (event.judgement) {
+          onJudgement?.(event.judgement as TurnYieldJudgement);
+        }
+      }
+    } catch (error) {
+      console.warn("[JUDGEMENT_STREAM_FAILED]", error);
+    }
+  }
+
+  /**
+   * Splits an event stream into the payloads of its `data:` frames.
+   */
+  private async *readEventPayloads(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Frames are separated by a blank line; keep any partial frame buffered
+        const frames = buffer.split('\n\n');
+        buffer = frames.pop() || '';
+
+        for (const frame of frames) {
+          const payload = frame
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trimStart())
+            .join('\n');
+
+          if (payload) yield payload;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
   /**
    * Generates a Post-Mortem Strategic Analysis Report via backend proxy.
    */
   public async generateStrategicAnalysis(
     history: DialogueTransmissionVector[],
-    metrics: NegotiationEntropyMetric[]
+    metrics: NegotiationEntropyMetric[],
+    attribution?: SessionAttribution
   ): Promise<StrategicAnalysisReport> {
 
     try {
       const response = await fetch(this.analysisEndpoint, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ history, metrics })
+        body: JSON.stringify({
+          history,
+          metrics,
+          sessionId: attribution?.sessionId ?? undefined,
+          language: attribution?.language
+        })
       });
 
       if (!response.ok) {
@@ -88,6 +242,194 @@ export class GeminiDeepThinkService {
     }
   }
 
+  /**
+   * Opens a server-side session bound to a scenario.
+   * Returns null when persistence is unavailable so the simulation can continue unattributed.
+   */
+  public async openSession(scenarioId: string): Promise<string | null> {
+    try {
+      const response = await fetch(this.sessionsEndpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scenarioId })
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.session?.id ?? null;
+    } catch (error) {
+      console.warn("[SESSION_OPEN_FAILED]", error);
+      return null;
+    }
+  }
+
+  /**
+   * Closes a server-side session so its duration is recorded.
+   */
+  public async closeSession(sessionId: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.sessionsEndpoint}/${sessionId}`, {
+        method: 'PATCH'
+      });
+
+      if (!response.ok && response.status !== 409) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+    } catch (error) {
+      console.warn("[SESSION_CLOSE_FAILED]", error);
+    }
+  }
+
+  /**
+   * Closes a session while the page is being unloaded, when a fetch would be cancelled.
+   * Beacons can only POST, which the session route accepts as a close.
+   */
+  public closeSessionOnUnload(sessionId: string): void {
+    if (!navigator.sendBeacon(`${this.sessionsEndpoint}/${sessionId}`)) {
+      console.warn(`[SESSION_CLOSE_FAILED] Beacon not queued for ${sessionId}`);
+    }
+  }
+
+  /**
+   * Records a turn answered by the offline simulation matrix against the session.
+   */
+  public async recordOfflineTurn(
+    sessionId: string,
+    prompt: string,
+    response: string,
+    latencyMs: number,
+    judgement?: TurnYieldJudgement
+  ): Promise<void> {
+    try {
+      const result = await fetch(`${this.sessionsEndpoint}/${sessionId}/turns`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prompt, response, latencyMs, judgement })
+      });
+
+      if (!result.ok) {
+        throw new Error(`HTTP ${result.status}: ${result.statusText}`);
+      }
+    } catch (error) {
+      console.warn("[OFFLINE_TURN_SAVE_FAILED]", error);
+    }
+  }
+
+  /**
+   * Stores a coach whisper with its session. Failures are logged, not thrown:
+   * the hint was already shown.
+   */
+  public async recordCoachHint(sessionId: string, hint: CoachHint): Promise<void> {
+    try {
+      const result = await fetch(`${this.sessionsEndpoint}/${sessionId}/hints`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ hint })
+      });
+
+      if (!result.ok) {
+        throw new Error(`HTTP ${result.status}: ${result.statusText}`);
+      }
+    } catch (error) {
+      console.warn("[COACH_HINT_SAVE_FAILED]", error);
+    }
+  }
+
+  /**
+   * Lists past sessions for the history browser, newest first.
+   */
+  public async listSessions(): Promise<SessionSummary[]> {
+    const response = await fetch(this.sessionsEndpoint);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.sessions as SessionSummary[];
+  }
+
+  /**
+   * Loads a stored session's transcript and metric history for replay.
+   */
+  public async fetchSession(sessionId: string): Promise<SessionRecord> {
+    const response = await fetch(`${this.sessionsEndpoint}/${sessionId}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.session as SessionRecord;
+  }
+
+  /**
+   * Regenerates the report for a stored session with the current analysis prompt.
+   */
+  public async regradeSession(sessionId: string): Promise<RegradeOutcome> {
+    const response = await fetch(`${this.sessionsEndpoint}/${sessionId}/reports`, {
+      method: 'POST'
+    });
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return data as RegradeOutcome;
+  }
+
+  /**
+   * Loads the active scenario library (authored scenarios or the bundled fallback).
+   */
+  public async fetchScenarioLibrary(): Promise<SimulationScenarioMatrix[]> {
+    const response = await fetch(this.scenariosEndpoint);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.scenarios as SimulationScenarioMatrix[];
+  }
+
+  /**
+   * Creates or replaces an authored scenario.
+   * Rejected drafts throw with the server's validation errors joined into the message.
+   */
+  public async saveScenario(scenario: SimulationScenarioMatrix, isNew: boolean): Promise<SimulationScenarioMatrix> {
+    const response = await fetch(
+      isNew ? this.scenariosEndpoint : `${this.scenariosEndpoint}/${scenario.id}`,
+      {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(scenario)
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok || data.error) {
+      const details = Array.isArray(data.details) ? `: ${data.details.join('; ')}` : '';
+      throw new Error(`${data.error || `HTTP ${response.status}`}${details}`);
+    }
+
+    return data.scenario as SimulationScenarioMatrix;
+  }
+
+  public async deleteScenario(scenarioId: string): Promise<void> {
+    const response = await fetch(`${this.scenariosEndpoint}/${scenarioId}`, { method: 'DELETE' });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+
   /**
    * Measures round-trip latency to the backend API.
    * Returns latency in milliseconds.
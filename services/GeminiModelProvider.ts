@@ -0,0 +1,85 @@
+import { GoogleGenAI } from '@google/genai';
+import {
+    AnalysisGenerationRequest,
+    NegotiationGenerationRequest,
+    NegotiationModelProvider,
+} from './NegotiationModelProvider';
+import {
+    TurnScoringRequest,
+    YIELD_JUDGEMENT_SCHEMA,
+    buildYieldJudgePrompt,
+    parseYieldJudgement,
+} from './turnYieldJudge';
+import { TurnYieldJudgement } from '../types';
+
+const DEFAULT_NEGOTIATION_MODEL = 'gemini-2.0-flash-thinking-exp-1219';
+const DEFAULT_ANALYSIS_MODEL = 'gemini-3-pro-preview';
+const THINKING_BUDGET = 32768;
+const JUDGE_THINKING_BUDGET = 1024; // Per-turn scoring sits on the reply path, so keep it short
+
+/**
+ * Hosted Gemini models via @google/genai
+ */
+export class GeminiModelProvider implements NegotiationModelProvider {
+    readonly name = 'gemini';
+    readonly cacheable = true;
+    readonly negotiationModel: string;
+    readonly analysisModel: string;
+
+    private ai: GoogleGenAI;
+
+    constructor(
+        apiKey: string,
+        models: { negotiationModel?: string; analysisModel?: string } = {}
+    ) {
+        this.ai = new GoogleGenAI({ apiKey });
+        this.negotiationModel = models.negotiationModel || DEFAULT_NEGOTIATION_MODEL;
+        this.analysisModel = models.analysisModel || DEFAULT_ANALYSIS_MODEL;
+    }
+
+    async *streamNegotiation(request: NegotiationGenerationRequest): AsyncGenerator<string> {
+        const response = await this.ai.models.generateContentStream({
+            model: this.negotiationModel,
+            contents: request.prompt,
+            config: {
+                systemInstruction: request.systemInstruction,
+                thinkingConfig: { thinkingBudget: THINKING_BUDGET },
+            },
+        });
+
+        for await (const chunk of response) {
+            const text = chunk.text || '';
+            if (text) yield text;
+        }
+    }
+
+    async generateAnalysis(request: AnalysisGenerationRequest): Promise<string> {
+        const response = await this.ai.models.generateContent({
+            model: this.analysisModel,
+            contents: request.prompt,
+            config: {
+                thinkingConfig: { thinkingBudget: THINKING_BUDGET },
+                responseMimeType: 'application/json',
+                responseJsonSchema: request.responseSchema,
+            },
+        });
+
+        return response.text || '';
+    }
+
+    async scoreTurn(request: TurnScoringRequest): Promise<TurnYieldJudgement> {
+        const response = await this.ai.models.generateContent({
+            model: this.analysisModel,
+            contents: buildYieldJudgePrompt(request),
+            config: {
+                thinkingConfig: { thinkingBudget: JUDGE_THINKING_BUDGET },
+                responseMimeType: 'application/json',
+                responseJsonSchema: YIELD_JUDGEMENT_SCHEMA,
+            },
+        });
+
+        return parseYieldJudgement(response.text || '');
+    }
+}
+
+export default GeminiModelProvider;
@@ -0,0 +1,104 @@
+import { LexiconPack, NegotiationLanguage, ScenarioLexiconConfig, SimulationScenarioMatrix } from '../types';
+import { BASE_LEXICON_PACKS, CompiledLexicon, baseLexiconFor, compileLexicon, packLanguage } from '../utils/lexicon';
+import { validateLexiconPack } from '../utils/lexiconValidator';
+import { DEFAULT_LANGUAGE, resolveLanguage } from '../utils/language';
+import procurementEn from '../data/lexicons/procurement-en.json';
+import legalEn from '../data/lexicons/legal-en.json';
+
+// Bundled domain packs a scenario can opt into by id
+const BUNDLED_DOMAIN_PACKS = [procurementEn, legalEn];
+
+const BASE_PACK_IDS = new Set(Object.values(BASE_LEXICON_PACKS).flat().map((pack) => pack.id));
+
+/**
+ * Registry of lexicon packs available to scenarios. Custom vocabularies are
+ * registered here (e.g. from a fetched JSON file) and referenced by id from a
+ * scenario's `lexicon.packs`; AlgorithmicCore only ever sees the compiled result.
+ */
+export class LexiconRegistry {
+    private static instance: LexiconRegistry;
+    private packs = new Map<string, LexiconPack>();
+    private compiled = new Map<string, CompiledLexicon>();
+
+    private constructor() {
+        Object.values(BASE_LEXICON_PACKS).flat().forEach((pack) => this.packs.set(pack.id, pack));
+        BUNDLED_DOMAIN_PACKS.forEach((pack) => this.registerPack(pack));
+    }
+
+    public static getInstance(): LexiconRegistry {
+        if (!LexiconRegistry.instance) {
+            LexiconRegistry.instance = new LexiconRegistry();
+        }
+        return LexiconRegistry.instance;
+    }
+
+    /**
+     * Validates and registers a pack. Re-registering an id replaces the
+     * previous version. Throws with every validation error joined.
+     */
+    public registerPack(candidate: unknown): LexiconPack {
+        const { pack, errors } = validateLexiconPack(candidate);
+        if (!pack) {
+            throw new Error(`Invalid lexicon pack: ${errors.join('; ')}`);
+        }
+
+        const previous = this.packs.get(pack.id);
+        this.packs.set(pack.id, pack);
+        this.compiled.clear();
+        console.log(`[LEXICON_REGISTRY] Registered ${pack.id}@${pack.version}${previous ? ` (replaces ${previous.version})` : ''}`);
+        return pack;
+    }
+
+    /**
+     * Removes a custom pack. The base packs of every language cannot be removed.
+     */
+    public unregisterPack(id: string): boolean {
+        if (BASE_PACK_IDS.has(id)) return false;
+        const removed = this.packs.delete(id);
+        if (removed) this.compiled.clear();
+        return removed;
+    }
+
+    public getPack(id: string): LexiconPack | undefined {
+        return this.packs.get(id);
+    }
+
+    public listPacks(): LexiconPack[] {
+        return Array.from(this.packs.values());
+    }
+
+    /**
+     * Compiles a language's base packs plus a scenario's packs and overrides.
+     * Unknown pack ids and packs written for another language are skipped
+     * with a warning. Results are cached until the set of registered packs
+     * changes.
+     */
+    public resolve(config?: ScenarioLexiconConfig, language: NegotiationLanguage = DEFAULT_LANGUAGE): CompiledLexicon {
+        if (!config || (!config.packs?.length && !config.overrides)) return baseLexiconFor(language);
+
+        const cacheKey = `${language}:${JSON.stringify(config)}`;
+        const cached = this.compiled.get(cacheKey);
+        if (cached) return cached;
+
+        const scenarioPacks = (config.packs || []).flatMap((id) => {
+            const pack = this.packs.get(id);
+            if (!pack) {
+                console.warn(`[LEXICON_REGISTRY] Unknown lexicon pack "${id}" skipped`);
+                return [];
+            }
+            if (packLanguage(pack) !== language) {
+                console.warn(`[LEXICON_REGISTRY] Lexicon pack "${id}" is ${packLanguage(pack)}, not ${language}; skipped`);
+                return [];
+            }
+            return [pack];
+        });
+
+        const lexicon = compileLexicon([...BASE_LEXICON_PACKS[language], ...scenarioPacks], config.overrides, language);
+        this.compiled.set(cacheKey, lexicon);
+        return lexicon;
+    }
+
+    public resolveForScenario(scenario: SimulationScenarioMatrix | null): CompiledLexicon {
+        return this.resolve(scenario?.lexicon, resolveLanguage(scenario?.language));
+    }
+}
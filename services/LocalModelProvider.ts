@@ -0,0 +1,58 @@
+import { CANNED_ANALYSIS_REPORTS } from '../data/analysisReports';
+import { ScenarioInjectionModule } from './ScenarioInjectionModule';
+import { TurnScoringRequest } from './turnYieldJudge';
+import { TurnYieldJudgement } from '../types';
+import { toYieldJudgement } from '../utils/dealScoring';
+import {
+    AnalysisGenerationRequest,
+    NegotiationGenerationRequest,
+    NegotiationModelProvider,
+} from './NegotiationModelProvider';
+
+/**
+ * Deterministic offline provider: negotiation replies come from the scenario's
+ * probability manifolds (stateful per session) and analysis from canned reports.
+ * Needs no network access.
+ */
+export class LocalModelProvider implements NegotiationModelProvider {
+    readonly name = 'local';
+    readonly negotiationModel = 'local-manifold-simulator';
+    readonly analysisModel = 'local-canned-analysis';
+    readonly cacheable = false; // Replies advance the offline negotiation state
+
+    // Judgement of each streamed turn, held until scoreTurn collects it
+    private pendingJudgements = new Map<string, TurnYieldJudgement>();
+
+    async *streamNegotiation(request: NegotiationGenerationRequest): AsyncGenerator<string> {
+        const result = ScenarioInjectionModule.getInstance().runOfflineTurn(
+            request.scenarioId,
+            request.operatorInput,
+            request.sessionId
+        );
+        const reply = result?.response ?? 'ERROR: SCENARIO_DATA_CORRUPTION';
+        if (result) {
+            this.pendingJudgements.set(`${request.scenarioId}:${request.sessionId}`, toYieldJudgement(result));
+        }
+
+        // Emit word by word so clients exercise the same streaming path as hosted models
+        for (const token of reply.match(/\S+\s*/g) || []) {
+            yield token;
+        }
+    }
+
+    async generateAnalysis(request: AnalysisGenerationRequest): Promise<string> {
+        const { avgConfidence } = request.telemetry;
+        const band = avgConfidence >= 0.85 ? 'A' : avgConfidence >= 0.65 ? 'B' : avgConfidence >= 0.4 ? 'C' : 'F';
+        return JSON.stringify(CANNED_ANALYSIS_REPORTS[band]);
+    }
+
+    /** The yield of the manifold that produced the reply; no model call needed */
+    async scoreTurn(request: TurnScoringRequest): Promise<TurnYieldJudgement> {
+        const key = `${request.scenarioId}:${request.sessionId}`;
+        const judgement = this.pendingJudgements.get(key);
+        this.pendingJudgements.delete(key);
+        return judgement || { yield: null, source: 'MANIFOLD', rationale: 'no simulated turn to score' };
+    }
+}
+
+export default LocalModelProvider;
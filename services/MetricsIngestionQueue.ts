@@ -0,0 +1,90 @@
+import { NegotiationEntropyMetric } from "../types";
+
+export const FLUSH_BATCH_SIZE = 10;
+export const FLUSH_INTERVAL_MS = 5000;
+export const MAX_PENDING_SAMPLES = 200; // Oldest samples are dropped beyond this
+
+/**
+ * Buffers entropy samples on the client and ships them to the active
+ * session's metrics endpoint in batches.
+ */
+export class MetricsIngestionQueue {
+  private pending: NegotiationEntropyMetric[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private resolveSessionId: () => string | null) {}
+
+  public enqueue(metric: NegotiationEntropyMetric): void {
+    this.pending.push(metric);
+    if (this.pending.length > MAX_PENDING_SAMPLES) {
+      this.pending.splice(0, this.pending.length - MAX_PENDING_SAMPLES);
+    }
+
+    // Nothing can be sent before a session is bound; the caller flushes once it is
+    if (!this.resolveSessionId()) return;
+
+    if (this.pending.length >= FLUSH_BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Sends every pending sample. Samples stay queued while no session is bound
+   * and are re-queued when the request fails.
+   */
+  public async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const sessionId = this.resolveSessionId();
+    if (!sessionId || this.pending.length === 0) return;
+
+    const batch = this.pending.splice(0, this.pending.length);
+
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/metrics`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ metrics: batch })
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+    } catch (error) {
+      console.warn("[METRICS_INGESTION_FAILED]", error);
+      this.pending = [...batch, ...this.pending].slice(-MAX_PENDING_SAMPLES);
+    }
+  }
+
+  /**
+   * Sends every pending sample with `navigator.sendBeacon` while the page is
+   * being unloaded, when a fetch would be cancelled.
+   */
+  public flushOnUnload(): void {
+    const sessionId = this.resolveSessionId();
+    if (!sessionId || this.pending.length === 0) return;
+
+    const body = new Blob([JSON.stringify({ metrics: this.pending })], { type: 'application/json' });
+    if (navigator.sendBeacon(`/api/sessions/${sessionId}/metrics`, body)) {
+      this.discard();
+    } else {
+      console.warn("[METRICS_INGESTION_FAILED] Beacon not queued");
+    }
+  }
+
+  /**
+   * Drops pending samples, e.g. when the session they belong to is abandoned.
+   */
+  public discard(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pending = [];
+  }
+}
@@ -0,0 +1,69 @@
+import { TelemetrySummary, TurnYieldJudgement } from '../types';
+import { TurnScoringRequest } from './turnYieldJudge';
+import { GeminiModelProvider } from './GeminiModelProvider';
+import { LocalModelProvider } from './LocalModelProvider';
+
+export interface NegotiationGenerationRequest {
+    prompt: string; // Fully assembled prompt for hosted models
+    operatorInput: string; // Raw operator utterance, used by offline providers
+    scenarioId: string;
+    sessionId?: string; // Keys per-session state in stateful providers
+    systemInstruction?: string; // Counterpart persona for the scenario
+}
+
+export interface AnalysisGenerationRequest {
+    prompt: string;
+    responseSchema: Record<string, unknown>; // JSON Schema of the expected output
+    telemetry: TelemetrySummary;
+}
+
+/**
+ * Vendor-neutral contract for the models behind /api/negotiate and /api/analysis
+ */
+export interface NegotiationModelProvider {
+    readonly name: string;
+    readonly negotiationModel: string;
+    readonly analysisModel: string;
+    /** False when replies depend on conversation state, so identical prompts must not share a cached reply */
+    readonly cacheable: boolean;
+
+    /** Streams the counterpart's reply as text chunks */
+    streamNegotiation(request: NegotiationGenerationRequest): AsyncGenerator<string>;
+
+    /** One-shot generation of the raw analysis JSON text */
+    generateAnalysis(request: AnalysisGenerationRequest): Promise<string>;
+
+    /** Yield of a finished negotiation turn, for the deal-outcome timeline */
+    scoreTurn(request: TurnScoringRequest): Promise<TurnYieldJudgement>;
+}
+
+export type ModelProviderName = 'gemini' | 'local';
+
+/**
+ * Build the provider selected by MODEL_PROVIDER (default: gemini).
+ * Returns null when the selected provider is not configured.
+ */
+export function resolveModelProvider(): NegotiationModelProvider | null {
+    const providerName = (process.env.MODEL_PROVIDER || 'gemini').toLowerCase() as ModelProviderName;
+
+    switch (providerName) {
+        case 'local':
+            return new LocalModelProvider();
+
+        case 'gemini': {
+            const apiKey = process.env.GEMINI_API_KEY;
+            if (!apiKey) {
+                console.error('[PROVIDER_ERROR] GEMINI_API_KEY not configured');
+                return null;
+            }
+            return new GeminiModelProvider(apiKey, {
+                negotiationModel: process.env.GEMINI_NEGOTIATION_MODEL,
+                analysisModel: process.env.GEMINI_ANALYSIS_MODEL,
+            });
+        }
+
+        default:
+            console.error(`[PROVIDER_ERROR] Unknown MODEL_PROVIDER: ${providerName}`);
+            return null;
+    }
+}
@@ -1,16 +1,34 @@
-import { SimulationScenarioMatrix } from "../types";
+import { SimulationScenarioMatrix, OfflineSimulationResult, OfflineNegotiationState } from "../types";
 import { SCENARIO_DB } from "../data/scenarios";
+import { advanceNegotiation, createNegotiationState } from "../utils/negotiationStateMachine";
+import { hashSeed } from "../utils/seededRandom";
 
 /**
- * Service responsible for injecting static scenarios and managing
+ * Source of authored scenarios (the database on the server, /api/scenarios in the browser).
+ */
+export interface ScenarioStore {
+  loadScenarios(): Promise<SimulationScenarioMatrix[]>;
+}
+
+// How long a loaded registry is trusted before ensureLoaded() hits the store again
+const REGISTRY_TTL_MS = 30000;
+
+// Oldest offline negotiations are forgotten beyond this many
+const MAX_TRACKED_NEGOTIATIONS = 500;
+
+/**
+ * Service responsible for injecting scenarios and managing
  * fallback simulation logic when the Neural Link is severed.
  */
 export class ScenarioInjectionModule {
   private static instance: ScenarioInjectionModule;
   private scenarioRegistry: SimulationScenarioMatrix[];
+  private registrySource: 'BUNDLED' | 'STORE' = 'BUNDLED';
+  private loadedAt = 0;
+  private negotiationStates = new Map<string, OfflineNegotiationState>();
 
   private constructor() {
-    // Simulate Data Loading from JSON Source
+    // Bundled scenarios until a store has been loaded
     this.scenarioRegistry = SCENARIO_DB;
   }
 
@@ -21,6 +39,45 @@ export class ScenarioInjectionModule {
     return ScenarioInjectionModule.instance;
   }
 
+  /**
+   * Reloads the registry from a store. Falls back to the bundled SCENARIO_DB
+   * when the store is empty or unreachable.
+   */
+  public async refresh(store: ScenarioStore): Promise<SimulationScenarioMatrix[]> {
+    try {
+      const scenarios = await store.loadScenarios();
+      if (scenarios.length > 0) {
+        this.scenarioRegistry = scenarios;
+        this.registrySource = 'STORE';
+      } else {
+        this.scenarioRegistry = SCENARIO_DB;
+        this.registrySource = 'BUNDLED';
+      }
+    } catch (error) {
+      console.error(`[SCENARIO_STORE_ERROR] Load failed, using bundled scenarios.`, error);
+      this.scenarioRegistry = SCENARIO_DB;
+      this.registrySource = 'BUNDLED';
+    }
+
+    this.loadedAt = Date.now();
+    console.log(`[SCENARIO_REGISTRY] Loaded ${this.scenarioRegistry.length} scenarios | Source: ${this.registrySource}`);
+    return this.scenarioRegistry;
+  }
+
+  /**
+   * Refreshes from the store only when the registry is older than its TTL.
+   */
+  public async ensureLoaded(store: ScenarioStore): Promise<SimulationScenarioMatrix[]> {
+    if (Date.now() - this.loadedAt > REGISTRY_TTL_MS) {
+      return this.refresh(store);
+    }
+    return this.scenarioRegistry;
+  }
+
+  public getRegistrySource(): 'BUNDLED' | 'STORE' {
+    return this.registrySource;
+  }
+
   public retrieveScenarioLibrary(): SimulationScenarioMatrix[] {
     return this.scenarioRegistry;
   }
@@ -32,32 +89,87 @@ export class ScenarioInjectionModule {
   /**
    * Simulates an AI response based on Regex matching of probability manifolds.
    * Used when the Live API is offline (Circuit Breaker / Simulation Mode).
+   * State (offer, patience, running yield) is kept per negotiation key, so
+   * pass the session id to keep concurrent negotiations apart. The random
+   * draws are seeded from that key, so a session replays identically.
    */
-  public processOfflineSimulation(scenarioId: string, userPayload: string): string {
+  public processOfflineSimulation(scenarioId: string, userPayload: string, negotiationKey: string = 'default'): string {
+    return this.runOfflineTurn(scenarioId, userPayload, negotiationKey)?.response ?? "ERROR: SCENARIO_DATA_CORRUPTION";
+  }
+
+  /**
+   * Same as processOfflineSimulation, but returns the full turn result
+   * (fired manifold, yield, state). Null when the scenario is unknown.
+   */
+  public runOfflineTurn(scenarioId: string, userPayload: string, negotiationKey: string = 'default'): OfflineSimulationResult | null {
     const scenario = this.getScenarioById(scenarioId);
     
     // Audit Log Entry
-    console.log(`[SIMULATION_ENGINE] Processing Trigger | Scenario: ${scenarioId} | Payload: "${userPayload}"`);
+    console.log(`[SIMULATION_ENGINE] Processing Trigger | Scenario: ${scenarioId} | Negotiation: ${negotiationKey} | Payload: "${userPayload}"`);
 
     if (!scenario) {
       console.error(`[SIMULATION_ERROR] Scenario ID ${scenarioId} not found in registry.`);
-      return "ERROR: SCENARIO_DATA_CORRUPTION";
+      return null;
     }
 
-    const lowerPayload = userPayload.toLowerCase();
-    
-    // Find matching manifold
-    const matchedManifold = scenario.probabilityManifolds.find(manifold => {
-      const regex = new RegExp(manifold.triggerCondition);
-      return regex.test(lowerPayload);
-    });
+    const stateKey = `${scenarioId}:${negotiationKey}`;
+    const state = this.negotiationStates.get(stateKey) || createNegotiationState(scenario, hashSeed(stateKey));
+    const result = this.simulateScenario(scenario, userPayload, state);
+    this.logTurn(scenario, state, result);
 
-    if (matchedManifold) {
-      console.log(`[SIMULATION_HIT] Manifold Activated: ${matchedManifold.triggerCondition} | Yield: ${matchedManifold.outcomeYield}`);
-      return `[SIMULATION_MODE]: ${matchedManifold.syntheticResponse}`;
+    // Re-insert so the map stays ordered by last use
+    this.negotiationStates.delete(stateKey);
+    this.negotiationStates.set(stateKey, result.state);
+    if (this.negotiationStates.size > MAX_TRACKED_NEGOTIATIONS) {
+      this.negotiationStates.delete(this.negotiationStates.keys().next().value as string);
     }
 
-    console.log(`[SIMULATION_MISS] No manifold triggered. Defaulting to fallback response.`);
-    return "[SIMULATION_MODE]: I am not compelled by that argument. Please restructure your leverage.";
+    return result;
+  }
+
+  public getNegotiationState(scenarioId: string, negotiationKey: string = 'default'): OfflineNegotiationState | undefined {
+    return this.negotiationStates.get(`${scenarioId}:${negotiationKey}`);
+  }
+
+  /**
+   * Forgets an offline negotiation so the next utterance starts from the opening state.
+   * Passing a seed pins the random draws of the restarted negotiation instead.
+   */
+  public resetNegotiation(scenarioId: string, negotiationKey: string = 'default', seed?: number): void {
+    const stateKey = `${scenarioId}:${negotiationKey}`;
+    const scenario = this.getScenarioById(scenarioId);
+    if (seed !== undefined && scenario) {
+      this.negotiationStates.set(stateKey, createNegotiationState(scenario, seed));
+    } else {
+      this.negotiationStates.delete(stateKey);
+    }
+  }
+
+  // Audit trail of a real offline turn; editor dry runs stay quiet
+  private logTurn(scenario: SimulationScenarioMatrix, state: OfflineNegotiationState, result: OfflineSimulationResult): void {
+    const { patience, runningYield, outcome } = result.state;
+
+    if (result.firedIndex !== null) {
+      const matchedManifold = scenario.probabilityManifolds[result.firedIndex];
+      console.log(`[SIMULATION_HIT] Manifold Activated: ${matchedManifold.triggerCondition} | Won: ${result.selectionReason} | Yield: ${matchedManifold.outcomeYield} | Patience: ${patience} | Running Yield: ${runningYield?.toFixed(2)} | Seed: ${state.seed}`);
+    } else if (!state.outcome) {
+      console.log(`[SIMULATION_MISS] No manifold triggered. Defaulting to fallback response. | Patience: ${patience}`);
+    }
+    if (outcome && !state.outcome) {
+      console.log(`[SIMULATION_OUTCOME] ${scenario.id} concluded: ${outcome} after ${result.state.turn} turns`);
+    }
+  }
+
+  /**
+   * Runs one turn against any scenario (including unsaved drafts) from the
+   * given state, or from the opening state when none is passed. Logs
+   * nothing, so the editor preview can call it on every keystroke.
+   */
+  public simulateScenario(
+    scenario: SimulationScenarioMatrix,
+    userPayload: string,
+    state: OfflineNegotiationState = createNegotiationState(scenario)
+  ): OfflineSimulationResult {
+    return advanceNegotiation(scenario, state, userPayload);
   }
 }
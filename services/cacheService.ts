@@ -5,11 +5,12 @@ const CACHE_TTL = 3600; // 1 hour in seconds
 
 /**
  * Generate cache key from prompt and scenario
+ * `variant` separates responses produced under different providers or prompt setups
  */
-function generateCacheKey(prompt: string, scenarioId: string): string {
+function generateCacheKey(prompt: string, scenarioId: string, variant: string): string {
     const hash = crypto
         .createHash('sha256')
-        .update(`${scenarioId}:${prompt}`)
+        .update(`${variant}:${scenarioId}:${prompt}`)
         .digest('hex')
         .substring(0, 16);
 
@@ -25,14 +26,15 @@ export class CachedNegotiationService {
      */
     static async getCachedResponse(
         prompt: string,
-        scenarioId: string
+        scenarioId: string,
+        variant: string = ''
     ): Promise<string | null> {
         if (!redis) {
             return null; // Graceful degradation
         }
 
         try {
-            const key = generateCacheKey(prompt, scenarioId);
+            const key = generateCacheKey(prompt, scenarioId, variant);
             const cached = await redis.get(key);
 
             if (cached) {
@@ -54,14 +56,15 @@ export class CachedNegotiationService {
     static async cacheResponse(
         prompt: string,
         scenarioId: string,
-        response: string
+        response: string,
+        variant: string = ''
     ): Promise<void> {
         if (!redis) {
             return; // Graceful degradation
         }
 
         try {
-            const key = generateCacheKey(prompt, scenarioId);
+            const key = generateCacheKey(prompt, scenarioId, variant);
             await redis.setex(key, CACHE_TTL, response);
             console.log(`[CACHE_SET] Key: ${key}, TTL: ${CACHE_TTL}s`);
         } catch (error) {
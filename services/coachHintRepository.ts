@@ -0,0 +1,79 @@
+import prisma from '../lib/prisma';
+import { CoachHint, NegotiationTactic } from '../types';
+import { COACH_HINT_KINDS } from '../utils/coachWhisper';
+import { NEGOTIATION_TACTICS } from '../utils/tacticDetector';
+
+export const MAX_COACH_HINT_LENGTH = 500;
+
+const isIndex = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+/**
+ * Checks that a posted hint is a well-formed CoachHint
+ */
+export function isCoachHint(value: unknown): value is CoachHint {
+    if (!value || typeof value !== 'object') return false;
+    const record = value as Record<string, unknown>;
+    return typeof record.id === 'string' && record.id.length > 0
+        && COACH_HINT_KINDS.includes(record.kind as CoachHint['kind'])
+        && typeof record.message === 'string' && record.message.length > 0
+        && record.message.length <= MAX_COACH_HINT_LENGTH
+        && typeof record.issuedAt === 'number' && Number.isFinite(record.issuedAt)
+        && typeof record.trigger === 'number' && Number.isFinite(record.trigger)
+        && isIndex(record.dialogueIndex)
+        && isIndex(record.metricIndex)
+        && (record.tactic === undefined || NEGOTIATION_TACTICS.includes(record.tactic as NegotiationTactic));
+}
+
+/**
+ * Persistence for live coach whispers
+ */
+export class CoachHintRepository {
+    /**
+     * Store a hint; saving the same hint again leaves the first row in place
+     */
+    static async persist(sessionId: string, hint: CoachHint): Promise<void> {
+        await prisma.coachHint.upsert({
+            where: { id: hint.id },
+            create: {
+                id: hint.id,
+                sessionId,
+                kind: hint.kind,
+                message: hint.message,
+                tactic: hint.tactic ?? null,
+                trigger: hint.trigger,
+                dialogueIndex: hint.dialogueIndex,
+                metricIndex: hint.metricIndex,
+                issuedAt: new Date(hint.issuedAt),
+            },
+            update: {},
+        });
+
+        console.log(`[DB_SAVE] Coach hint ${hint.kind} saved to session: ${sessionId}`);
+    }
+
+    /**
+     * Load the hints of a session in the order they were issued.
+     * Rows whose kind or tactic is no longer known are skipped.
+     */
+    static async loadSessionHints(sessionId: string): Promise<CoachHint[]> {
+        const rows = await prisma.coachHint.findMany({
+            where: { sessionId },
+            orderBy: { issuedAt: 'asc' },
+        });
+
+        return rows
+            .map((row) => ({
+                id: row.id,
+                kind: row.kind,
+                message: row.message,
+                issuedAt: row.issuedAt.getTime(),
+                dialogueIndex: row.dialogueIndex,
+                metricIndex: row.metricIndex,
+                trigger: row.trigger,
+                ...(row.tactic ? { tactic: row.tactic } : {}),
+            }))
+            .filter(isCoachHint);
+    }
+}
+
+export default CoachHintRepository;
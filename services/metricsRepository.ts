@@ -0,0 +1,111 @@
+import prisma from '../lib/prisma';
+import { DisfluencyCounts, NegotiationEntropyMetric } from '../types';
+
+export const MAX_METRIC_BATCH_SIZE = 200;
+
+const NUMERIC_FIELDS: (keyof NegotiationEntropyMetric)[] = [
+    'timestamp',
+    'verbalVelocity',
+    'levenshteinDelta',
+    'semanticAdherence',
+    'pauseCount',
+    'longestPauseMs',
+    'speechToSilenceRatio',
+    'spectralIntensity',
+    'sentimentValence',
+    'confidenceScore',
+    'logicDensity',
+    'aggressionIndex',
+    'clarityScore',
+];
+
+const DISFLUENCY_FIELDS: (keyof DisfluencyCounts)[] = ['filledPauses', 'repetitions', 'restarts', 'hedges'];
+
+const hasFiniteNumbers = (record: Record<string, unknown>, fields: string[]) =>
+    fields.every((field) => typeof record[field] === 'number' && Number.isFinite(record[field]));
+
+/**
+ * Checks that a posted sample carries every NegotiationEntropyMetric field as a finite number
+ */
+export function isEntropyMetric(value: unknown): value is NegotiationEntropyMetric {
+    if (!value || typeof value !== 'object') return false;
+    const record = value as Record<string, unknown>;
+    const disfluency = record.disfluency;
+    return hasFiniteNumbers(record, NUMERIC_FIELDS)
+        && !!disfluency && typeof disfluency === 'object'
+        && hasFiniteNumbers(disfluency as Record<string, unknown>, DISFLUENCY_FIELDS);
+}
+
+/**
+ * Persistence for per-turn NegotiationEntropyMetric samples
+ */
+export class MetricsRepository {
+    /**
+     * Write a batch of samples as Metric rows
+     */
+    static async persistBatch(
+        sessionId: string,
+        metrics: NegotiationEntropyMetric[]
+    ): Promise<number> {
+        const result = await prisma.metric.createMany({
+            data: metrics.map((m) => ({
+                sessionId,
+                verbalVelocity: m.verbalVelocity,
+                sentimentScore: m.sentimentValence,
+                confidenceScore: m.confidenceScore,
+                levenshteinDelta: Math.round(m.levenshteinDelta),
+                semanticAdherence: m.semanticAdherence,
+                pauseCount: Math.round(m.pauseCount),
+                longestPauseMs: Math.round(m.longestPauseMs),
+                speechToSilenceRatio: m.speechToSilenceRatio,
+                filledPauses: Math.round(m.disfluency.filledPauses),
+                repetitions: Math.round(m.disfluency.repetitions),
+                restarts: Math.round(m.disfluency.restarts),
+                hedges: Math.round(m.disfluency.hedges),
+                spectralIntensity: m.spectralIntensity,
+                logicDensity: m.logicDensity,
+                aggressionIndex: m.aggressionIndex,
+                clarityScore: m.clarityScore,
+                timestamp: new Date(m.timestamp),
+            })),
+        });
+
+        console.log(`[DB_SAVE] ${result.count} metrics saved to session: ${sessionId}`);
+        return result.count;
+    }
+
+    /**
+     * Load the full metric history of a session in chronological order
+     */
+    static async loadSessionMetrics(sessionId: string): Promise<NegotiationEntropyMetric[]> {
+        const rows = await prisma.metric.findMany({
+            where: { sessionId },
+            orderBy: { timestamp: 'asc' },
+        });
+
+        return rows.map((row) => ({
+            timestamp: row.timestamp.getTime(),
+            verbalVelocity: row.verbalVelocity,
+            disfluency: {
+                // Rows from before the breakdown only stored a filler count
+                filledPauses: row.filledPauses ?? row.hesitationMarkers ?? 0,
+                repetitions: row.repetitions ?? 0,
+                restarts: row.restarts ?? 0,
+                hedges: row.hedges ?? 0,
+            },
+            levenshteinDelta: row.levenshteinDelta ?? 0,
+            semanticAdherence: row.semanticAdherence ?? 0,
+            pauseCount: row.pauseCount ?? 0,
+            longestPauseMs: row.longestPauseMs ?? 0,
+            speechToSilenceRatio: row.speechToSilenceRatio ?? 0,
+            spectralIntensity: row.spectralIntensity ?? 0,
+            sentimentValence: row.sentimentScore,
+            confidenceScore: row.confidenceScore,
+            logicDensity: row.logicDensity ?? 0,
+            aggressionIndex: row.aggressionIndex ?? 0,
+            clarityScore: row.clarityScore ?? 0,
+        }));
+    }
+}
+
+export default MetricsRepository;
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { DifficultyLevel, ReservationPrice, SimulationScenarioMatrix } from '../types';
+import { DEFAULT_LANGUAGE, LANGUAGE_PROFILES, resolveLanguage } from '../utils/language';
+
+// Bump when the instruction template itself changes
+export const SYSTEM_INSTRUCTION_TEMPLATE_VERSION = 'persona-v2';
+
+export interface VersionedSystemInstruction {
+    instruction: string;
+    version: string; // Template version + hash of the scenario fields it was built from
+}
+
+// How the counterpart conducts itself at each difficulty, unless its persona says otherwise
+const DIFFICULTY_CONDUCT: Record<DifficultyLevel, string> = {
+    LOW_YIELD:
+        'Cooperative. Concede readily when the operator offers something in return and signal openly where there is room to trade.',
+    HIGH_YIELD:
+        'Guarded. Concede only against evidence or a credible alternative, make small concessions, and test every claim the operator makes.',
+    HOSTILE_TAKEOVER:
+        'Adversarial. Open with an extreme anchor, apply deadline pressure, dismiss emotional appeals and concede almost nothing without hard leverage.',
+};
+
+const formatReservationPrice = (price: ReservationPrice): string => {
+    const amount = price.unit === 'PERCENT'
+        ? `${price.value}%`
+        : `$${price.value.toLocaleString('en-US')}`;
+    return price.bound === 'CEILING'
+        ? `Never agree to more than ${amount}.`
+        : `Never accept less than ${amount}.`;
+};
+
+/**
+ * Assemble the counterpart's system instruction from the scenario and its persona
+ */
+export function buildSystemInstruction(scenario: SimulationScenarioMatrix): VersionedSystemInstruction {
+    const { persona } = scenario;
+    const language = resolveLanguage(scenario.language);
+    const style = persona?.difficultyStyles?.[scenario.difficultyLevel];
+
+    const sections = [
+        `You are the counterpart in a negotiation training simulation: "${scenario.designation}".`,
+        persona ? `ROLE: ${persona.role}` : 'ROLE: The operator\'s negotiation counterpart.',
+        `CONDUCT (${scenario.difficultyLevel}): ${style?.conduct ?? DIFFICULTY_CONDUCT[scenario.difficultyLevel]}`,
+    ];
+
+    if (persona) {
+        sections.push(
+            `TONE: ${style?.tone ?? persona.tone}`,
+            `HIDDEN GOALS (never state these outright):\n${persona.hiddenGoals.map(g => `- ${g}`).join('\n')}`,
+            `BATNA (reveal only if the operator calls your bluff): ${persona.batna}`,
+            `RESERVATION PRICE (confidential): ${formatReservationPrice(persona.reservationPrice)}`
+        );
+    }
+
+    if (language !== DEFAULT_LANGUAGE) {
+        sections.push(`LANGUAGE: Conduct the entire negotiation in ${LANGUAGE_PROFILES[language].name}, even if the operator switches language.`);
+    }
+
+    sections.push(
+        `The operator is practicing this position: "${scenario.targetRhetoricPattern}". Make them earn it.`,
+        'Stay in character. Reply with your next move only, in one to three sentences. Never coach the operator.'
+    );
+
+    const instruction = sections.join('\n\n');
+
+    const fingerprint = crypto
+        .createHash('sha256')
+        .update(JSON.stringify({
+            designation: scenario.designation,
+            difficultyLevel: scenario.difficultyLevel,
+            targetRhetoricPattern: scenario.targetRhetoricPattern,
+            persona: scenario.persona ?? null,
+            language,
+        }))
+        .digest('hex')
+        .substring(0, 8);
+
+    return {
+        instruction,
+        version: `${SYSTEM_INSTRUCTION_TEMPLATE_VERSION}.${fingerprint}`,
+    };
+}
@@ -0,0 +1,76 @@
+import type { Report } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AnalysisReportRecord } from '../types';
+import { GeneratedAnalysis } from './strategicAnalysisService';
+
+function toRecord(row: Report): AnalysisReportRecord {
+    return {
+        id: row.id,
+        sessionId: row.sessionId,
+        report: JSON.parse(row.report),
+        modelName: row.modelName,
+        promptVersion: row.promptVersion,
+        telemetry: {
+            avgConfidence: row.avgConfidence,
+            peakVelocity: row.peakVelocity,
+            avgHesitation: row.avgHesitation,
+            avgSemanticAdherence: row.avgSemanticAdherence ?? 0,
+        },
+        createdAt: row.createdAt.toISOString(),
+    };
+}
+
+/**
+ * Persistence for generated StrategicAnalysisReports
+ */
+export class ReportRepository {
+    /**
+     * Store a report and mark its grade as the session's latest.
+     * An ungraded report leaves the session's grade as it was.
+     */
+    static async save(sessionId: string, analysis: GeneratedAnalysis): Promise<AnalysisReportRecord> {
+        const { overallGrade } = analysis.report;
+        const [row] = await prisma.$transaction([
+            prisma.report.create({
+                data: {
+                    sessionId,
+                    report: JSON.stringify(analysis.report),
+                    overallGrade,
+                    modelName: analysis.modelName,
+                    promptVersion: analysis.promptVersion,
+                    avgConfidence: analysis.telemetry.avgConfidence,
+                    peakVelocity: analysis.telemetry.peakVelocity,
+                    avgHesitation: analysis.telemetry.avgHesitation,
+                    avgSemanticAdherence: analysis.telemetry.avgSemanticAdherence,
+                },
+            }),
+            ...(overallGrade
+                ? [prisma.session.update({ where: { id: sessionId }, data: { overallGrade } })]
+                : []),
+        ]);
+
+        console.log(`[DB_SAVE] Report ${row.id} (${analysis.promptVersion}) saved to session: ${sessionId}`);
+        return toRecord(row);
+    }
+
+    /**
+     * All reports for a session, oldest first
+     */
+    static async listForSession(sessionId: string): Promise<AnalysisReportRecord[]> {
+        const rows = await prisma.report.findMany({
+            where: { sessionId },
+            orderBy: { createdAt: 'asc' },
+        });
+        return rows.map(toRecord);
+    }
+
+    static async latestForSession(sessionId: string): Promise<AnalysisReportRecord | null> {
+        const row = await prisma.report.findFirst({
+            where: { sessionId },
+            orderBy: { createdAt: 'desc' },
+        });
+        return row ? toRecord(row) : null;
+    }
+}
+
+export default ReportRepository;
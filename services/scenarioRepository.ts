@@ -0,0 +1,140 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { DifficultyLevel, ProbabilityManifold, SimulationScenarioMatrix } from '../types';
+import { ScenarioStore } from './ScenarioInjectionModule';
+import { isNegotiationLanguage, resolveLanguage } from '../utils/language';
+
+const parseJson = (value: string | null) => (value ? JSON.parse(value) : undefined);
+const toJson = (value: unknown) => (value === undefined ? null : JSON.stringify(value));
+
+const withManifolds = {
+    manifolds: { orderBy: { position: 'asc' as const } },
+};
+
+type ScenarioRow = Prisma.ScenarioGetPayload<{ include: typeof withManifolds }>;
+
+function toScenario(row: ScenarioRow): SimulationScenarioMatrix {
+    return {
+        id: row.id,
+        designation: row.designation,
+        targetRhetoricPattern: row.targetRhetoricPattern,
+        difficultyLevel: row.difficultyLevel as DifficultyLevel, // Validated before every write
+        probabilityManifolds: row.manifolds.map((m) => {
+            const manifold: ProbabilityManifold = {
+                triggerCondition: m.triggerCondition,
+                syntheticResponse: m.syntheticResponse,
+                outcomeYield: m.outcomeYield,
+            };
+            // Only declared optional fields, so plain manifolds round-trip unchanged
+            if (m.weight !== null) manifold.weight = m.weight;
+            if (m.alternativeResponses !== null) manifold.alternativeResponses = parseJson(m.alternativeResponses);
+            if (m.key !== null) manifold.key = m.key;
+            if (m.preconditions !== null) manifold.preconditions = parseJson(m.preconditions);
+            if (m.cooldownTurns !== null) manifold.cooldownTurns = m.cooldownTurns;
+            if (m.followUps !== null) manifold.followUps = parseJson(m.followUps);
+            if (m.effects !== null) manifold.effects = parseJson(m.effects);
+            return manifold;
+        }),
+        ...(row.persona ? { persona: JSON.parse(row.persona) } : {}),
+        ...(row.operatorReservationPrice ? { operatorReservationPrice: JSON.parse(row.operatorReservationPrice) } : {}),
+        ...(row.negotiationParameters ? { negotiationParameters: JSON.parse(row.negotiationParameters) } : {}),
+        ...(row.lexicon ? { lexicon: JSON.parse(row.lexicon) } : {}),
+        ...(isNegotiationLanguage(row.language) ? { language: row.language } : {}),
+    };
+}
+
+function toRowData(scenario: SimulationScenarioMatrix) {
+    return {
+        designation: scenario.designation,
+        targetRhetoricPattern: scenario.targetRhetoricPattern,
+        difficultyLevel: scenario.difficultyLevel,
+        persona: scenario.persona ? JSON.stringify(scenario.persona) : null,
+        operatorReservationPrice: toJson(scenario.operatorReservationPrice),
+        negotiationParameters: toJson(scenario.negotiationParameters),
+        lexicon: toJson(scenario.lexicon),
+        language: resolveLanguage(scenario.language),
+        manifolds: {
+            create: scenario.probabilityManifolds.map((m, position) => ({
+                position,
+                triggerCondition: m.triggerCondition,
+                syntheticResponse: m.syntheticResponse,
+                outcomeYield: m.outcomeYield,
+                weight: m.weight ?? null,
+                alternativeResponses: toJson(m.alternativeResponses),
+                key: m.key ?? null,
+                preconditions: toJson(m.preconditions),
+                cooldownTurns: m.cooldownTurns ?? null,
+                followUps: toJson(m.followUps),
+                effects: toJson(m.effects),
+            })),
+        },
+    };
+}
+
+/**
+ * Persistence for authored SimulationScenarioMatrix records.
+ * Callers validate with validateScenario before writing.
+ */
+export class ScenarioRepository {
+    static async list(): Promise<SimulationScenarioMatrix[]> {
+        const rows = await prisma.scenario.findMany({
+            orderBy: { createdAt: 'asc' },
+            include: withManifolds,
+        });
+        return rows.map(toScenario);
+    }
+
+    static async get(id: string): Promise<SimulationScenarioMatrix | null> {
+        const row = await prisma.scenario.findUnique({ where: { id }, include: withManifolds });
+        return row ? toScenario(row) : null;
+    }
+
+    static async create(scenario: SimulationScenarioMatrix): Promise<SimulationScenarioMatrix> {
+        const row = await prisma.scenario.create({
+            data: { id: scenario.id, ...toRowData(scenario) },
+            include: withManifolds,
+        });
+        console.log(`[DB_SAVE] Scenario created: ${scenario.id}`);
+        return toScenario(row);
+    }
+
+    /**
+     * Replace a scenario and its manifolds in one transaction
+     */
+    static async update(scenario: SimulationScenarioMatrix): Promise<SimulationScenarioMatrix> {
+        const [, row] = await prisma.$transaction([
+            prisma.probabilityManifold.deleteMany({ where: { scenarioId: scenario.id } }),
+            prisma.scenario.update({
+                where: { id: scenario.id },
+                data: toRowData(scenario),
+                include: withManifolds,
+            }),
+        ]);
+        console.log(`[DB_SAVE] Scenario updated: ${scenario.id}`);
+        return toScenario(row);
+    }
+
+    static async delete(id: string): Promise<void> {
+        await prisma.scenario.delete({ where: { id } });
+        console.log(`[DB_DELETE] Scenario deleted: ${id}`);
+    }
+
+    /**
+     * Copy the bundled scenarios into an empty store, so the first authored
+     * scenario does not hide them and they remain editable.
+     */
+    static async seedIfEmpty(bundled: SimulationScenarioMatrix[]): Promise<void> {
+        if ((await prisma.scenario.count()) > 0) return;
+
+        for (const scenario of bundled) {
+            await prisma.scenario.create({ data: { id: scenario.id, ...toRowData(scenario) } });
+        }
+        console.log(`[DB_SEED] ${bundled.length} bundled scenarios copied to the store`);
+    }
+}
+
+export const databaseScenarioStore: ScenarioStore = {
+    loadScenarios: () => ScenarioRepository.list(),
+};
+
+export default ScenarioRepository;
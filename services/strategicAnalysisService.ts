@@ -0,0 +1,195 @@
+import { parseStrategicAnalysisReport, VALID_GRADES } from '../utils/reportValidator';
+import { totalDisfluency } from '../utils/disfluency';
+import { DEFAULT_LANGUAGE, LANGUAGE_PROFILES } from '../utils/language';
+import { annotateTactics, NEGOTIATION_TACTICS, TACTIC_LABELS, tacticsOf } from '../utils/tacticDetector';
+import { NegotiationModelProvider } from './NegotiationModelProvider';
+import {
+    AnalysisGrade,
+    DialogueTransmissionVector,
+    NegotiationEntropyMetric,
+    NegotiationLanguage,
+    StrategicAnalysisReport,
+    TelemetrySummary,
+} from '../types';
+
+// Bump whenever the analysis prompt changes so stored reports can be compared per version
+export const ANALYSIS_PROMPT_VERSION = 'analysis-v5';
+
+// Repair prompts sent after the first malformed response before giving up
+const MAX_REPAIR_ATTEMPTS = 1;
+
+const textField = { type: 'string', minLength: 1 };
+
+const recordArray = (keys: string[]) => ({
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: Object.fromEntries(keys.map((key) => [key, textField])),
+        required: keys,
+    },
+});
+
+// Structured output contract (JSON Schema) mirroring StrategicAnalysisReport
+const REPORT_RESPONSE_SCHEMA: Record<string, unknown> = {
+    type: 'object',
+    properties: {
+        strengths: recordArray(['point', 'example']),
+        missedOpportunities: recordArray(['context', 'betterAlternative']),
+        psychologicalTacticsDetected: recordArray(['tacticName', 'description']),
+        confidenceTrajectoryAnalysis: textField,
+        trainingRecommendations: { type: 'array', items: textField },
+        overallGrade: { type: 'string', enum: VALID_GRADES },
+    },
+    required: [
+        'strengths',
+        'missedOpportunities',
+        'psychologicalTacticsDetected',
+        'confidenceTrajectoryAnalysis',
+        'trainingRecommendations',
+        'overallGrade',
+    ],
+};
+
+const GRADE_RANK: Record<AnalysisGrade, number> = {
+    F: 0,
+    C: 1,
+    B: 2,
+    A: 3,
+    S: 4,
+};
+
+export interface GeneratedAnalysis {
+    report: StrategicAnalysisReport;
+    modelName: string;
+    promptVersion: string;
+    telemetry: TelemetrySummary;
+}
+
+type TranscriptEntry = Pick<DialogueTransmissionVector, 'origin' | 'payload' | 'timestamp'>;
+
+/**
+ * Aggregate the metric history into the figures quoted in the prompt
+ */
+export function summarizeTelemetry(metrics: NegotiationEntropyMetric[]): TelemetrySummary {
+    return {
+        avgConfidence: metrics.reduce((acc, m) => acc + m.confidenceScore, 0) / (metrics.length || 1),
+        peakVelocity: Math.max(0, ...metrics.map((m) => m.verbalVelocity)),
+        avgHesitation: metrics.reduce((acc, m) => acc + totalDisfluency(m), 0) / (metrics.length || 1),
+        avgSemanticAdherence: metrics.reduce((acc, m) => acc + (m.semanticAdherence ?? 0), 0) / (metrics.length || 1),
+    };
+}
+
+/**
+ * Signed grade movement between two reports (positive = improved);
+ * null when either report is ungraded
+ */
+export function gradeDelta(previous: AnalysisGrade | null, next: AnalysisGrade | null): number | null {
+    if (!previous || !next || !(previous in GRADE_RANK)) return null;
+    return GRADE_RANK[next] - GRADE_RANK[previous];
+}
+
+function buildAnalysisPrompt(history: TranscriptEntry[], telemetry: TelemetrySummary, language: NegotiationLanguage): string {
+    const tactics = annotateTactics(history, language).map(tacticsOf);
+    const context = history.map((h, i) => {
+        const tags = tactics[i].length > 0 ? ` [TACTICS: ${tactics[i].map((t) => TACTIC_LABELS[t]).join(', ')}]` : '';
+        return `[${new Date(h.timestamp).toLocaleTimeString()}] ${h.origin}: ${h.payload}${tags}`;
+    }).join('\n');
+    const tacticCounts = NEGOTIATION_TACTICS
+        .map((tactic) => ({ tactic, count: tactics.filter((found) => found.includes(tactic)).length }))
+        .filter(({ count }) => count > 0)
+        .map(({ tactic, count }) => `${TACTIC_LABELS[tactic]} x${count}`);
+    const languageName = LANGUAGE_PROFILES[language].name;
+
+    return `
+      ROLE: Expert Negotiation Psychologist & Linguistics Coach.
+      TASK: Analyze the following negotiation transcript and telemetry data. Generate a JSON report.
+      LANGUAGE: The negotiation was conducted in ${languageName}. Judge phrasing by ${languageName} norms, quote transcript examples verbatim in ${languageName}, and write every other field in English.
+      
+      TELEMETRY SUMMARY:
+      - Average Confidence Score: ${(telemetry.avgConfidence * 100).toFixed(1)}%
+      - Peak Verbal Velocity: ${telemetry.peakVelocity.toFixed(0)} WPM
+      - Average Disfluencies (filled pauses, repetitions, restarts, hedges): ${telemetry.avgHesitation.toFixed(1)} per segment
+      - Average Semantic Adherence to Target Rhetoric: ${(telemetry.avgSemanticAdherence * 100).toFixed(1)}%
+
+      LOCALLY DETECTED TACTICS: ${tacticCounts.length > 0 ? tacticCounts.join(', ') : 'none'}
+      These rule-based tags are marked [TACTICS: ...] in the transcript and may include false positives.
+      Confirm or discard each one in "psychologicalTacticsDetected" and add any tactic they missed.
+
+      TRANSCRIPT:
+      ${context}
+
+      REQUIREMENTS:
+      You must output a VALID JSON object matching this structure exactly. Do not include markdown formatting or code blocks. Just the raw JSON string.
+      
+      Structure:
+      {
+        "strengths": [{"point": "string", "example": "quote from transcript"}],
+        "missedOpportunities": [{"context": "what happened", "betterAlternative": "what they should have said"}],
+        "psychologicalTacticsDetected": [{"tacticName": "string", "description": "string"}],
+        "confidenceTrajectoryAnalysis": "A narrative paragraph explaining how the user's confidence evolved.",
+        "trainingRecommendations": ["string", "string"],
+        "overallGrade": "S" | "A" | "B" | "C" | "F"
+      }
+    `;
+}
+
+function buildRepairPrompt(originalPrompt: string, rawResponse: string, issues: string[]): string {
+    return `
+      ${originalPrompt.trim()}
+
+      YOUR PREVIOUS RESPONSE WAS REJECTED BY THE VALIDATOR:
+      ${rawResponse}
+
+      VALIDATION ERRORS:
+      ${issues.map(issue => `- ${issue}`).join('\n      ')}
+
+      Return the corrected JSON object only. Every array must be present, every string non-empty,
+      and "overallGrade" must be one of ${VALID_GRADES.join(', ')}.
+    `;
+}
+
+/**
+ * Post-mortem report generation shared by /api/analysis and session regrading
+ */
+export class StrategicAnalysisService {
+    static async generate(
+        provider: NegotiationModelProvider,
+        history: TranscriptEntry[],
+        metrics: NegotiationEntropyMetric[],
+        language: NegotiationLanguage = DEFAULT_LANGUAGE
+    ): Promise<GeneratedAnalysis> {
+        const telemetry = summarizeTelemetry(metrics);
+        const prompt = buildAnalysisPrompt(history, telemetry, language);
+
+        const requestReport = (contents: string): Promise<string> =>
+            provider.generateAnalysis({
+                prompt: contents,
+                responseSchema: REPORT_RESPONSE_SCHEMA,
+                telemetry,
+            });
+
+        let rawResponse = await requestReport(prompt);
+        let { report, issues } = parseStrategicAnalysisReport(rawResponse);
+
+        for (let attempt = 1; issues.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+            console.warn(`[ANALYSIS_VALIDATION] Attempt ${attempt} repairing ${issues.length} issue(s):`, issues);
+            rawResponse = await requestReport(buildRepairPrompt(prompt, rawResponse, issues));
+            ({ report, issues } = parseStrategicAnalysisReport(rawResponse));
+        }
+
+        // Serve a partial report rather than failing the debrief
+        if (issues.length > 0) {
+            console.error('[ANALYSIS_VALIDATION] Returning partial report:', issues);
+            report = { ...report, validationWarnings: issues };
+        }
+
+        return {
+            report,
+            modelName: `${provider.name}:${provider.analysisModel}`,
+            promptVersion: ANALYSIS_PROMPT_VERSION,
+            telemetry,
+        };
+    }
+}
+
+export default StrategicAnalysisService;
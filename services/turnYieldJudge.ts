@@ -0,0 +1,70 @@
+import { CounterpartPersona, TurnYieldJudgement } from '../types';
+
+// Bump whenever the judge prompt changes
+export const YIELD_JUDGE_PROMPT_VERSION = 'yield-judge-v1';
+
+// Structured output contract (JSON Schema) for one judged turn
+export const YIELD_JUDGEMENT_SCHEMA: Record<string, unknown> = {
+    type: 'object',
+    properties: {
+        yield: { type: 'number', minimum: 0, maximum: 1 },
+        rationale: { type: 'string', minLength: 1 },
+    },
+    required: ['yield', 'rationale'],
+};
+
+export interface TurnScoringRequest {
+    scenarioId: string;
+    sessionId?: string;
+    operatorInput: string;
+    response: string; // Counterpart reply being scored
+    context: string; // Earlier transcript, one line per message
+    persona?: CounterpartPersona;
+}
+
+export function buildYieldJudgePrompt(request: TurnScoringRequest): string {
+    const persona = request.persona
+        ? `COUNTERPART: ${request.persona.role}
+      COUNTERPART RESERVATION PRICE: ${request.persona.reservationPrice.value} ${request.persona.reservationPrice.unit} (${request.persona.reservationPrice.bound})
+      COUNTERPART BATNA: ${request.persona.batna}`
+        : 'COUNTERPART: unspecified';
+
+    return `
+      ROLE: Impartial negotiation referee.
+      TASK: Score how much value the OPERATOR secured in the latest exchange.
+
+      ${persona}
+
+      EARLIER TRANSCRIPT:
+      ${request.context || '(none)'}
+
+      LATEST EXCHANGE:
+      OPERATOR: ${request.operatorInput}
+      COUNTERPART: ${request.response}
+
+      SCALE:
+      0.0 = the operator conceded or lost leverage; 0.5 = neutral; 1.0 = the counterpart conceded or moved toward the operator's terms.
+      Return JSON: {"yield": number between 0 and 1, "rationale": one sentence}.
+    `;
+}
+
+/**
+ * Validates raw judge output. Never throws: unusable output yields an unscored turn.
+ */
+export function parseYieldJudgement(rawText: string): TurnYieldJudgement {
+    const cleanJson = rawText.replace(/```json/g, '').replace(/```/g, '').trim();
+
+    try {
+        const candidate = JSON.parse(cleanJson);
+        if (typeof candidate?.yield !== 'number' || candidate.yield < 0 || candidate.yield > 1) {
+            return { yield: null, source: 'JUDGE', rationale: 'judge returned no yield between 0 and 1' };
+        }
+        return {
+            yield: candidate.yield,
+            source: 'JUDGE',
+            rationale: typeof candidate.rationale === 'string' ? candidate.rationale.trim() : undefined,
+        };
+    } catch (error: any) {
+        return { yield: null, source: 'JUDGE', rationale: `judge response is not valid JSON: ${error.message}` };
+    }
+}
@@ -5,7 +5,11 @@ import {
     CognitiveLoadState,
     SimulationScenarioMatrix,
     ApplicationViewMode,
-    StrategicAnalysisReport
+    StrategicAnalysisReport,
+    RhetoricAlignment,
+    TurnYieldJudgement,
+    TurnYieldSample,
+    CoachHint
 } from '../types';
 
 interface AppState {
@@ -13,15 +17,36 @@ interface AppState {
     activeScenario: SimulationScenarioMatrix | null;
     setActiveScenario: (scenario: SimulationScenarioMatrix) => void;
 
+    // Server-side session every negotiate/analysis call is attributed to
+    activeSessionId: string | null;
+    setActiveSessionId: (sessionId: string | null) => void;
+
     // Metrics & Dialogue
     entropyMetrics: NegotiationEntropyMetric[];
     addEntropyMetric: (metric: NegotiationEntropyMetric) => void;
     clearEntropyMetrics: () => void;
 
+    // Word-level diff of the latest transcript against the scenario target
+    rhetoricAlignment: RhetoricAlignment | null;
+    setRhetoricAlignment: (alignment: RhetoricAlignment | null) => void;
+
     transmissionVectors: DialogueTransmissionVector[];
     addTransmissionVector: (vector: DialogueTransmissionVector) => void;
+    updateTransmissionPayload: (id: string, payload: string) => void;
     clearTransmissionVectors: () => void;
 
+    // Deal Outcome: one scored sample per counterpart reply
+    yieldTimeline: TurnYieldSample[];
+    addYieldSample: (judgement: TurnYieldJudgement) => void;
+    clearYieldTimeline: () => void;
+
+    // Coach Whisper: opt-in live hints, kept for the post-mortem
+    isCoachWhisperEnabled: boolean;
+    toggleCoachWhisper: () => void;
+    coachHints: CoachHint[];
+    addCoachHint: (hint: CoachHint) => void;
+    clearCoachHints: () => void;
+
     // Cognitive State
     cognitiveState: CognitiveLoadState;
     setCognitiveState: (state: CognitiveLoadState) => void;
@@ -55,8 +80,13 @@ interface AppState {
 export const useAppStore = create<AppState>((set) => ({
     // Initial State
     activeScenario: null,
+    activeSessionId: null,
     entropyMetrics: [],
+    rhetoricAlignment: null,
     transmissionVectors: [],
+    yieldTimeline: [],
+    isCoachWhisperEnabled: false,
+    coachHints: [],
     cognitiveState: CognitiveLoadState.IDLE,
     isAcousticCaptureActive: true,
     currentSpectralFlux: 0,
@@ -68,20 +98,53 @@ export const useAppStore = create<AppState>((set) => ({
     // Actions
     setActiveScenario: (scenario) => set({ activeScenario: scenario }),
 
+    setActiveSessionId: (sessionId) => set({ activeSessionId: sessionId }),
+
     addEntropyMetric: (metric) =>
         set((state) => ({
-            entropyMetrics: [...state.entropyMetrics.slice(-19), metric],
+            entropyMetrics: [...state.entropyMetrics, metric],
         })),
 
     clearEntropyMetrics: () => set({ entropyMetrics: [] }),
 
+    setRhetoricAlignment: (alignment) => set({ rhetoricAlignment: alignment }),
+
     addTransmissionVector: (vector) =>
         set((state) => ({
             transmissionVectors: [...state.transmissionVectors, vector],
         })),
 
+    updateTransmissionPayload: (id, payload) =>
+        set((state) => ({
+            transmissionVectors: state.transmissionVectors.map((v) =>
+                v.id === id ? { ...v, payload } : v
+            ),
+        })),
+
     clearTransmissionVectors: () => set({ transmissionVectors: [] }),
 
+    addYieldSample: (judgement) =>
+        set((state) => ({
+            yieldTimeline: [
+                ...state.yieldTimeline,
+                { ...judgement, turn: state.yieldTimeline.length + 1, timestamp: Date.now() },
+            ],
+        })),
+
+    clearYieldTimeline: () => set({ yieldTimeline: [] }),
+
+    toggleCoachWhisper: () =>
+        set((state) => ({
+            isCoachWhisperEnabled: !state.isCoachWhisperEnabled,
+        })),
+
+    addCoachHint: (hint) =>
+        set((state) => ({
+            coachHints: [...state.coachHints, hint],
+        })),
+
+    clearCoachHints: () => set({ coachHints: [] }),
+
     setCognitiveState: (cognitiveState) => set({ cognitiveState }),
 
     toggleAcousticCapture: () =>
@@ -104,8 +167,12 @@ export const useAppStore = create<AppState>((set) => ({
 
     resetSimulation: () =>
         set({
+            activeSessionId: null,
             entropyMetrics: [],
+            rhetoricAlignment: null,
             transmissionVectors: [],
+            yieldTimeline: [],
+            coachHints: [],
             cognitiveState: CognitiveLoadState.IDLE,
             currentSpectralFlux: 0,
             viewMode: ApplicationViewMode.SIMULATION,
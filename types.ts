@@ -10,6 +10,8 @@ export enum CognitiveLoadState {
 export enum ApplicationViewMode {
   SIMULATION = 'ACTIVE_SIMULATION',
   ANALYSIS = 'POST_MORTEM_DEBRIEF',
+  HISTORY = 'SESSION_ARCHIVE',
+  EDITOR = 'SCENARIO_FORGE',
 }
 
 export interface RhetoricalImpactFactor {
@@ -20,11 +22,122 @@ export interface RhetoricalImpactFactor {
   confidenceScore: number; // 0.0 to 1.0
 }
 
+// Languages the rhetoric pipeline has tokenization rules and lexicon packs for
+export type NegotiationLanguage = 'en' | 'de' | 'es' | 'fr';
+
+export type LexiconCategory = 'aggression' | 'conciliatory' | 'logic' | 'hesitation' | 'hedge' | 'negation' | 'intensifier';
+
+// Phrase -> weight. Multi-word phrases match consecutive normalized words.
+// Negation weight is its strength (1 = full reversal); intensifier weight is a
+// multiplier (above 1 intensifies, below 1 diminishes)
+export type LexiconEntries = Record<string, number>;
+
+export interface LexiconPack {
+  schemaVersion: number; // Pack file format
+  id: string;
+  version: string; // Semver of the pack contents
+  language?: NegotiationLanguage; // 'en' when absent
+  description?: string;
+  stemming: boolean; // Match inflected forms ("demands", "demanded") of each phrase
+  categories: Partial<Record<LexiconCategory, LexiconEntries>>;
+}
+
+// Per-scenario vocabulary, layered over the default packs
+export interface ScenarioLexiconConfig {
+  packs?: string[]; // Registered pack ids, applied in order
+  overrides?: Partial<Record<LexiconCategory, LexiconEntries>>; // Weight 0 removes a phrase
+}
+
+export interface LexiconMatch {
+  category: LexiconCategory;
+  phrase: string;
+  weight: number;
+  start: number; // Index into the normalized words
+  length: number; // Words covered
+}
+
+export type SentimentAdjustmentKind = 'NEGATION' | 'INTENSIFIER';
+
+export interface SentimentAdjustment {
+  kind: SentimentAdjustmentKind;
+  modifier: string; // The negating or intensifying phrase
+  strength: number; // Its lexicon weight
+}
+
+// How one matched lexicon phrase moved the scores
+export interface SentimentTraceEntry {
+  phrase: string;
+  category: LexiconCategory;
+  start: number; // Index into the normalized words
+  baseWeight: number;
+  adjustments: SentimentAdjustment[];
+  aggressionDelta: number;
+  valenceDelta: number;
+  logicDelta: number;
+  explanation: string;
+}
+
+// FILLED_PAUSE: "um", or "like" used as a filler; REPETITION: "we, we need";
+// RESTART: an abandoned word or a self-correction ("thirty, sorry, forty");
+// HEDGE: softeners such as "sort of" or "probably"
+export type DisfluencyKind = 'FILLED_PAUSE' | 'REPETITION' | 'RESTART' | 'HEDGE';
+
+export interface DisfluencyMarker {
+  kind: DisfluencyKind;
+  phrase: string;
+  start: number; // Character offset, inclusive
+  end: number; // Character offset, exclusive
+}
+
+export interface DisfluencyCounts {
+  filledPauses: number;
+  repetitions: number;
+  restarts: number;
+  hedges: number;
+}
+
+export interface DisfluencyBreakdown extends DisfluencyCounts {
+  total: number;
+  markers: DisfluencyMarker[]; // In reading order
+}
+
+export type ConfidenceContributionSource = DisfluencyKind | 'MUMBLING' | 'LOGIC' | 'AGGRESSION';
+
+export interface ConfidenceContribution {
+  source: ConfidenceContributionSource;
+  delta: number; // Change to confidence (0.0 to 1.0 scale)
+  detail: string;
+}
+
+// A matched lexicon phrase located in the original utterance
+export interface LexiconHighlight {
+  start: number; // Character offset, inclusive
+  end: number; // Character offset, exclusive
+  category: LexiconCategory;
+  phrase: string;
+}
+
+// Why an utterance scored the way it did
+export interface SentimentExplanation {
+  factor: RhetoricalImpactFactor;
+  trace: SentimentTraceEntry[]; // One entry per scored phrase, in reading order
+  disfluency: DisfluencyBreakdown; // Disfluencies penalized (may span a longer window than the utterance)
+  mumblingPenaltyApplied: boolean;
+  verbosityPenalty: number; // Clarity points lost to length
+  clarityLogicBonus: number; // Clarity points gained from logic density
+  confidenceContributions: ConfidenceContribution[];
+  highlights: LexiconHighlight[]; // Non-overlapping, in reading order
+}
+
 export interface NegotiationEntropyMetric {
   timestamp: number;
-  verbalVelocity: number; // Words per minute
-  hesitationMarkers: number; // Count of filler words
-  levenshteinDelta: number; // Deviation from perfect rhetoric
+  verbalVelocity: number; // Words per minute of measured speaking (or typing) time; 0 when unmeasured
+  disfluency: DisfluencyCounts;
+  levenshteinDelta: number; // Deviation from perfect rhetoric (word-level edit distance)
+  semanticAdherence: number; // Meaning overlap with the target rhetoric (0.0 to 1.0)
+  pauseCount: number; // Silences between voiced (or typed) stretches
+  longestPauseMs: number;
+  speechToSilenceRatio: number; // Voiced time over pause time, capped at 10
   spectralIntensity: number; // Audio energy
   sentimentValence: number; // Calculated sentiment
   confidenceScore: number; // Calculated confidence
@@ -34,6 +147,42 @@ export interface NegotiationEntropyMetric {
   clarityScore: number;
 }
 
+// One step of turning the operator's phrasing into the target phrasing:
+// INSERT is a target word the operator left out, DELETE an operator word the
+// target does not use, SUBSTITUTE an operator word standing in for a target word
+export type RhetoricEditOperation = 'MATCH' | 'INSERT' | 'DELETE' | 'SUBSTITUTE';
+
+export interface RhetoricEdit {
+  operation: RhetoricEditOperation;
+  source: string | null; // Operator word (null for INSERT)
+  target: string | null; // Target word (null for DELETE)
+}
+
+export interface RhetoricAlignment {
+  distance: number; // Word-level edit distance
+  edits: RhetoricEdit[]; // In reading order
+  sourceTokenCount: number;
+  targetTokenCount: number;
+}
+
+// Negotiation tactics the local detector labels on each message
+export type NegotiationTactic =
+  | 'ANCHORING'
+  | 'FLINCH'
+  | 'NIBBLING'
+  | 'GOOD_COP_BAD_COP'
+  | 'DEADLINE_PRESSURE'
+  | 'FALSE_CONCESSION'
+  | 'BATNA_REVEAL';
+
+// A tactic and the words that gave it away, as character offsets into the message
+export interface TacticDetection {
+  tactic: NegotiationTactic;
+  cue: string;
+  start: number;
+  end: number;
+}
+
 export interface DialogueTransmissionVector {
   id: string;
   origin: 'OPERATOR' | 'SYNTHETIC_AGENT';
@@ -43,30 +192,278 @@ export interface DialogueTransmissionVector {
     thinkingDurationMs?: number;
     modelUsed?: string;
     tokenConsumption?: number;
+    sentimentExplanation?: SentimentExplanation; // Operator utterances scored live
+    tactics?: NegotiationTactic[]; // Labels stored with a replayed turn; live messages are detected as they render
   };
 }
 
+// Identifies the scenario and server-side session a request belongs to
+export interface SessionAttribution {
+  scenarioId: string;
+  sessionId: string | null;
+  language?: NegotiationLanguage;
+}
+
+export type NegotiationOutcome = 'DEAL' | 'WALK_AWAY' | 'STALEMATE';
+
+// Conditions on the offline negotiation state; every declared bound must hold
+export interface ManifoldPreconditions {
+  minPatience?: number;
+  maxPatience?: number;
+  minRunningYield?: number;
+  maxRunningYield?: number;
+  minTurn?: number; // 1-based operator turn
+  afterManifolds?: string[]; // Reachable only right after one of these manifold keys fired
+}
+
+// State changes applied when a manifold fires
+export interface ManifoldEffects {
+  patienceDelta?: number;
+  offerAdjustment?: number; // Fractional change to the current offer, e.g. -0.15
+  outcome?: NegotiationOutcome; // Ends the negotiation
+}
+
 export interface ProbabilityManifold {
   triggerCondition: string; // Keyword regex pattern
   syntheticResponse: string;
   outcomeYield: number; // Projected gain
+  weight?: number; // Relative chance of winning when several manifolds match (default 1)
+  alternativeResponses?: string[]; // Extra candidates drawn uniformly alongside syntheticResponse
+  key?: string; // Stable name referenced by followUps and afterManifolds
+  preconditions?: ManifoldPreconditions;
+  cooldownTurns?: number; // Turns to wait before this manifold may fire again
+  followUps?: string[]; // Manifold keys checked first on the next turn
+  effects?: ManifoldEffects;
+}
+
+// Starting conditions of the offline state machine
+export interface NegotiationParameters {
+  openingOffer: number | null; // In the persona's reservation price unit
+  patience: number; // Misses and effects drain it; zero means walk-away
+  maxTurns: number; // Reaching it without an outcome is a stalemate
+}
+
+export interface OfflineNegotiationState {
+  turn: number; // Operator turns processed
+  currentOffer: number | null;
+  patience: number;
+  runningYield: number | null; // Mean outcomeYield of the manifolds fired so far
+  firedCount: number;
+  lastFiredTurn: Record<number, number>; // Manifold index -> turn it last fired
+  pendingFollowUps: string[];
+  lastFiredKey: string | null;
+  outcome: NegotiationOutcome | null;
+  seed: number; // Seed the negotiation started from
+  rngState: number; // Seeded generator state; identical seeds replay identically
+}
+
+// Outcome of evaluating a payload against a scenario's manifolds
+export interface OfflineSimulationResult {
+  response: string;
+  firedIndex: number | null; // Manifold that produced the response
+  outcomeYield: number | null;
+  matchingIndices: number[]; // Every eligible manifold whose trigger matched, in precedence order
+  invalidIndices: number[]; // Manifolds whose trigger failed to compile
+  blockedIndices: number[]; // Triggers that matched but were held back by preconditions or cooldowns
+  selectionReason: string; // Why the fired manifold won, for logs and the editor
+  concluded: boolean; // True on the turn that reached state.outcome
+  state: OfflineNegotiationState; // State after this turn
+}
+
+export type DifficultyLevel = 'LOW_YIELD' | 'HIGH_YIELD' | 'HOSTILE_TAKEOVER';
+
+export interface ReservationPrice {
+  value: number;
+  unit: 'USD' | 'PERCENT';
+  bound: 'CEILING' | 'FLOOR'; // Counterpart never goes above (CEILING) or below (FLOOR) this value
+}
+
+// How a persona plays one difficulty; unset fields fall back to the built-in conduct and the persona's tone
+export interface PersonaDifficultyStyle {
+  conduct?: string;
+  tone?: string;
+}
+
+// The synthetic agent's character, assembled into the model's system instruction
+export interface CounterpartPersona {
+  role: string;
+  hiddenGoals: string[]; // Never disclosed to the operator
+  batna: string;
+  reservationPrice: ReservationPrice;
+  tone: string;
+  difficultyStyles?: Partial<Record<DifficultyLevel, PersonaDifficultyStyle>>;
 }
 
 export interface SimulationScenarioMatrix {
   id: string;
   designation: string;
   targetRhetoricPattern: string;
-  difficultyLevel: 'LOW_YIELD' | 'HIGH_YIELD' | 'HOSTILE_TAKEOVER';
+  difficultyLevel: DifficultyLevel;
   probabilityManifolds: ProbabilityManifold[];
+  persona?: CounterpartPersona;
+  operatorReservationPrice?: ReservationPrice; // The operator's walk-away point; with the persona's it bounds the ZOPA
+  negotiationParameters?: NegotiationParameters; // Offline state machine tuning; defaults apply when absent
+  lexicon?: ScenarioLexiconConfig; // Domain vocabulary for the rhetoric metrics
+  language?: NegotiationLanguage; // Language the negotiation is conducted in; 'en' when absent
 }
 
+export type AnalysisGrade = 'S' | 'A' | 'B' | 'C' | 'F';
+
 export interface StrategicAnalysisReport {
   strengths: { point: string; example: string }[];
   missedOpportunities: { context: string; betterAlternative: string }[];
   psychologicalTacticsDetected: { tacticName: string; description: string }[];
   confidenceTrajectoryAnalysis: string;
   trainingRecommendations: string[];
-  overallGrade: 'S' | 'A' | 'B' | 'C' | 'F';
+  overallGrade: AnalysisGrade | null; // Null when the model's grade failed validation; never guessed
+  validationWarnings?: string[]; // Present when the model output could not be fully repaired
+}
+
+// Where a turn's yield came from: the offline manifold that fired, or the LLM judge on live turns
+export type YieldSource = 'MANIFOLD' | 'JUDGE';
+
+export interface TurnYieldJudgement {
+  yield: number | null; // 0..1 value of the counterpart's reply to the operator; null when unscored
+  source: YieldSource;
+  rationale?: string;
+  outcome?: NegotiationOutcome | null; // Set on the turn that ended the negotiation
+}
+
+// One point on the per-turn yield timeline
+export interface TurnYieldSample extends TurnYieldJudgement {
+  turn: number; // 1-based operator turn
+  timestamp: number;
+}
+
+// A figure put on the table in one message. Relative changes ("lowering the
+// offer by 15%") are resolved against the ladder when it is built
+export interface OfferMention {
+  value: number; // As stated: the amount, or the size of the change when relative
+  unit: ReservationPrice['unit']; // Currency amounts are read in the scenario's currency
+  change: 'UP' | 'DOWN' | null; // Direction of a relative change; null for an absolute figure
+  phrase: string;
+  start: number; // Character offsets into the message
+  end: number;
+}
+
+// One offer or counter-offer, in dialogue order
+export interface OfferLadderRung {
+  step: number; // 1-based position on the ladder
+  vectorId: string;
+  side: DialogueTransmissionVector['origin'];
+  value: number;
+  phrase: string;
+  concession: number | null; // Ground given since this side's previous rung (negative: hardened); null on its first rung
+}
+
+// Values both sides could accept. A null bound is open: that side's walk-away point is not configured
+export interface ZoneOfPossibleAgreement {
+  low: number | null;
+  high: number | null;
+}
+
+export interface OfferLadder {
+  unit: ReservationPrice['unit'];
+  rungs: OfferLadderRung[];
+  operatorWantsHigher: boolean | null; // Which way the operator's interest points; null when unknown
+  counterpartReservation: ReservationPrice | null;
+  operatorReservation: ReservationPrice | null;
+  zopa: ZoneOfPossibleAgreement | null; // Null when the reservation values leave no overlap or none is configured
+}
+
+// Live coach whisper: what prompted a hint during the simulation
+export type CoachHintKind =
+  | 'UNRECIPROCATED_CONCESSIONS'
+  | 'HESITATION_SPIKE'
+  | 'CONFIDENCE_DROP'
+  | 'RHETORIC_DRIFT'
+  | 'COUNTERPART_TACTIC';
+
+export interface CoachHint {
+  id: string;
+  kind: CoachHintKind;
+  message: string;
+  issuedAt: number;
+  dialogueIndex: number; // Dialogue lines on screen when the hint was issued
+  metricIndex: number; // Metric samples recorded when the hint was issued
+  trigger: number; // Level that fired the rule (disfluencies, confidence, adherence, concessions); 0 for tactics
+  tactic?: NegotiationTactic; // COUNTERPART_TACTIC only
+}
+
+// ACTED_ON / IGNORED judge the operator's next move after the hint; PENDING when there was none yet
+export type CoachHintResponse = 'ACTED_ON' | 'IGNORED' | 'PENDING';
+
+export interface AssessedCoachHint extends CoachHint {
+  response: CoachHintResponse;
+}
+
+export interface DealOutcome {
+  dealValue: number | null; // 0..1 final score; null when no turn could be scored
+  weightedYield: number | null; // Recency-weighted mean of the scored yields
+  outcome: NegotiationOutcome | null; // Null when the negotiation was stopped without a resolution
+  outcomeMultiplier: number;
+  scoredTurns: number;
+  totalTurns: number;
+}
+
+// Telemetry aggregates fed into the analysis prompt
+export interface TelemetrySummary {
+  avgConfidence: number;
+  peakVelocity: number;
+  avgHesitation: number; // Disfluencies of every kind per metric sample
+  avgSemanticAdherence: number;
+}
+
+// A StrategicAnalysisReport as stored for audit and regrading
+export interface AnalysisReportRecord {
+  id: string;
+  sessionId: string;
+  report: StrategicAnalysisReport;
+  modelName: string;
+  promptVersion: string;
+  telemetry: TelemetrySummary;
+  createdAt: string;
+}
+
+// Result of regrading a stored session with the current analysis prompt
+export interface RegradeOutcome {
+  report: AnalysisReportRecord;
+  previousGrade: AnalysisGrade | null;
+  previousPromptVersion: string | null;
+  gradeDelta: number | null;
+}
+
+// Persisted session as listed in the history browser
+export interface SessionSummary {
+  id: string;
+  scenarioId: string | null;
+  language: NegotiationLanguage; // Copied from the scenario when the session opened
+  createdAt: string;
+  duration: number | null;
+  overallGrade: AnalysisGrade | null;
+  turnCount: number;
+}
+
+export interface NegotiationTurnRecord {
+  id: string;
+  prompt: string;
+  response: string;
+  latencyMs: number;
+  cacheHit: boolean;
+  timestamp: string;
+  outcomeYield: number | null;
+  yieldSource: YieldSource | null;
+  negotiationOutcome: NegotiationOutcome | null;
+  promptTactics: NegotiationTactic[] | null; // Null on turns stored before tactic detection
+  responseTactics: NegotiationTactic[] | null;
+}
+
+// Full session payload used for replay
+export interface SessionRecord extends SessionSummary {
+  turns: NegotiationTurnRecord[];
+  metrics: NegotiationEntropyMetric[];
+  coachHints: CoachHint[];
+  latestReport: AnalysisReportRecord | null;
 }
 
 export const CircuitBreakerThresholds = {
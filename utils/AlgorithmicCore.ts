@@ -1,62 +1,142 @@
-import { RhetoricalImpactFactor } from "../types";
+import {
+  ConfidenceContribution,
+  DisfluencyBreakdown,
+  DisfluencyKind,
+  DisfluencyMarker,
+  LexiconHighlight,
+  LexiconMatch,
+  NegotiationLanguage,
+  RhetoricalImpactFactor,
+  SentimentAdjustment,
+  SentimentExplanation,
+  SentimentTraceEntry
+} from "../types";
+import { CompiledLexicon, DEFAULT_LEXICON, locateNormalizedWords, matchLexicon } from "./lexicon";
+import { analyzeDisfluency } from "./disfluency";
+import { normalizeRhetoricTokens } from "./rhetoricAlignment";
+import { DEFAULT_LANGUAGE } from "./language";
+
+// Strings compare character by character; token arrays compare word by word
+type EditSequence = ArrayLike<string>;
 
 /**
  * Calculates the Levenshtein Distance between two rhetorical vectors.
- * Uses a 2D matrix approach for optimal pathfinding.
+ * Keeps only two rows of the matrix, sized to the shorter vector, so memory
+ * stays linear on long monologues.
  */
-export const computeLevenshteinDeviation = (sourceVector: string, targetVector: string): number => {
-  const sourceLen = sourceVector.length;
-  const targetLen = targetVector.length;
+export const computeLevenshteinDeviation = (sourceVector: EditSequence, targetVector: EditSequence): number => {
+  // The shorter vector spans the columns
+  const [rowVector, columnVector] = sourceVector.length >= targetVector.length
+    ? [sourceVector, targetVector]
+    : [targetVector, sourceVector];
+  const rowLen = rowVector.length;
+  const columnLen = columnVector.length;
 
-  if (sourceLen === 0) return targetLen;
-  if (targetLen === 0) return sourceLen;
+  if (columnLen === 0) return rowLen;
 
-  const matrix: number[][] = [];
+  let previous = new Uint32Array(columnLen + 1);
+  let current = new Uint32Array(columnLen + 1);
+  for (let j = 0; j <= columnLen; j++) {
+    previous[j] = j;
+  }
 
-  // Initialize matrix
-  for (let i = 0; i <= sourceLen; i++) {
-    matrix[i] = [i];
+  for (let i = 1; i <= rowLen; i++) {
+    current[0] = i;
+    for (let j = 1; j <= columnLen; j++) {
+      const cost = rowVector[i - 1] === columnVector[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1, // Deletion
+        current[j - 1] + 1, // Insertion
+        previous[j - 1] + cost // Substitution
+      );
+    }
+    [previous, current] = [current, previous];
   }
+
+  return previous[columnLen];
+};
+
+/**
+ * Threshold-bounded Levenshtein Distance. Only cells within maxDistance of
+ * the diagonal can hold a distance at or under the cutoff, so each row scans
+ * that band alone and the scan stops as soon as a whole row exceeds it.
+ * @returns the exact distance, or maxDistance + 1 for anything beyond the cutoff
+ */
+export const computeBoundedLevenshteinDeviation = (
+  sourceVector: EditSequence,
+  targetVector: EditSequence,
+  maxDistance: number
+): number => {
+  const cutoff = Math.max(0, Math.floor(maxDistance));
+  const exceeded = cutoff + 1;
+  const sourceLen = sourceVector.length;
+  const targetLen = targetVector.length;
+
+  // The length difference alone is a lower bound on the distance
+  if (Math.abs(sourceLen - targetLen) > cutoff) return exceeded;
+  if (sourceLen === 0 || targetLen === 0) return Math.max(sourceLen, targetLen);
+
+  let previous = new Uint32Array(targetLen + 1);
+  let current = new Uint32Array(targetLen + 1);
   for (let j = 0; j <= targetLen; j++) {
-    matrix[0][j] = j;
+    previous[j] = Math.min(j, exceeded);
   }
 
-  // Compute distances
   for (let i = 1; i <= sourceLen; i++) {
-    for (let j = 1; j <= targetLen; j++) {
+    const from = Math.max(1, i - cutoff);
+    const to = Math.min(targetLen, i + cutoff);
+
+    // Cells bordering the band stand in for everything outside it
+    current[0] = Math.min(i, exceeded);
+    if (from > 1) current[from - 1] = exceeded;
+    let rowMinimum = current[from - 1];
+
+    for (let j = from; j <= to; j++) {
       const cost = sourceVector[i - 1] === targetVector[j - 1] ? 0 : 1;
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1, // Deletion
-        matrix[i][j - 1] + 1, // Insertion
-        matrix[i - 1][j - 1] + cost // Substitution
+      current[j] = Math.min(
+        previous[j] + 1, // Deletion
+        current[j - 1] + 1, // Insertion
+        previous[j - 1] + cost, // Substitution
+        exceeded
       );
+      if (current[j] < rowMinimum) rowMinimum = current[j];
     }
+    if (to < targetLen) current[to + 1] = exceeded;
+
+    if (rowMinimum > cutoff) return exceeded;
+    [previous, current] = [current, previous];
   }
 
-  return matrix[sourceLen][targetLen];
+  return previous[targetLen];
 };
 
 /**
- * Analyzes the verbal velocity (WPM) and hesitation density.
+ * Word-level distance of an utterance from the target rhetoric, on the
+ * two-row routine so it is cheap enough for every partial transcription.
+ * Equals alignRhetoric(...).distance without building the edit script.
+ */
+export const computeRhetoricDeviation = (
+  operatorText: string,
+  targetPattern: string,
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): number =>
+  computeLevenshteinDeviation(normalizeRhetoricTokens(operatorText, language), normalizeRhetoricTokens(targetPattern, language));
+
+/**
+ * Analyzes the verbal velocity (WPM) and disfluency breakdown.
+ * `durationSeconds` is the measured speaking (or typing) time; when it is 0
+ * the velocity is reported as 0 (unmeasured) but disfluencies still count.
  */
 export const calculateVerbalVelocityScore = (
   transcript: string,
-  durationSeconds: number
-): { velocity: number; hesitationCount: number } => {
-  if (durationSeconds <= 0) return { velocity: 0, hesitationCount: 0 };
-
+  durationSeconds: number,
+  lexicon: CompiledLexicon = DEFAULT_LEXICON
+): { velocity: number; disfluency: DisfluencyBreakdown } => {
   const words = transcript.trim().split(/\s+/);
-  const hesitationMarkers = ['um', 'uh', 'like', 'actually', 'basically', 'sort of', 'mean', 'you know'];
-  
-  let hesitationCount = 0;
-  words.forEach(w => {
-    if (hesitationMarkers.includes(w.toLowerCase().replace(/[^a-z]/g, ''))) {
-      hesitationCount++;
-    }
-  });
+  const disfluency = analyzeDisfluency(transcript, lexicon);
 
-  const velocity = (words.length / durationSeconds) * 60;
-  return { velocity, hesitationCount };
+  const velocity = durationSeconds > 0 ? (words.length / durationSeconds) * 60 : 0;
+  return { velocity, disfluency };
 };
 
 /**
@@ -73,22 +153,164 @@ export const calculateSpectralEnergy = (buffer: AudioBuffer): number => {
   return Math.sqrt(sumSquares / rawData.length);
 };
 
+// Logic points per unit of lexicon weight
+const LOGIC_POINTS_PER_WEIGHT = 15;
+
+// A negator reaches the first scored phrase starting within this many words
+// ("not really demand"); an intensifier only the phrase right after it.
+// Neither reaches past clause punctuation ("No, we must act")
+const NEGATION_SCOPE_WORDS = 3;
+const INTENSIFIER_REACH_WORDS = 1;
+
+// Valence of a fully negated phrase relative to the plain phrase: "not fair"
+// is mildly negative rather than the opposite of "fair"
+const NEGATED_VALENCE_POLARITY = -0.5;
+
+const SCORED_CATEGORIES = ['aggression', 'conciliatory', 'logic'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
 /**
- * Sophisticated heuristic matrix calculation.
+ * Clause number of every normalized word, split at clause punctuation.
+ * Normalization is per word, so the indices line up with matchLexicon's.
  */
-export class SentimentMatrixCalculator {
-  private static AGGRESSION_LEXICON = {
-    'demand': 0.8, 'must': 0.7, 'unacceptable': 0.9, 'final': 0.6, 'refuse': 0.8, 'insist': 0.7,
-    'ridiculous': 0.8, 'fail': 0.6, 'hostile': 0.9, 'now': 0.5, 'immediately': 0.6
-  };
-  
-  private static CONCILIATORY_LEXICON = {
-    'agree': 0.6, 'understand': 0.5, 'collaborate': 0.7, 'flexible': 0.8, 'help': 0.5,
-    'fair': 0.6, 'together': 0.5, 'potential': 0.4, 'perhaps': 0.3, 'consider': 0.4
+const clauseOfWords = (text: string, language: NegotiationLanguage): number[] =>
+  text.split(/[,.;:!?¿¡()]+/).flatMap((clause, index) => normalizeRhetoricTokens(clause, language).map(() => index));
+
+/**
+ * Applies negation scope and intensifiers to the scored phrases and records
+ * how each phrase moved aggression, valence and logic.
+ */
+const scoreLexicalMatches = (matches: LexiconMatch[], clauseOf: number[]): SentimentTraceEntry[] => {
+  const scored = matches.filter(match => SCORED_CATEGORIES.includes(match.category));
+  const adjustmentsByStart = new Map<number, SentimentAdjustment[]>();
+  const addAdjustment = (start: number, adjustment: SentimentAdjustment) =>
+    adjustmentsByStart.set(start, [...(adjustmentsByStart.get(start) || []), adjustment]);
+
+  const findTarget = (modifier: LexiconMatch, reach: number) => {
+    const end = modifier.start + modifier.length;
+    return scored.find(match =>
+      match.start >= end && match.start - end < reach && clauseOf[match.start] === clauseOf[modifier.start]
+    );
   };
 
-  private static LOGIC_LEXICON = ['because', 'therefore', 'data', 'statistically', 'result', 'proven', 'consequently', 'analysis', 'metrics', 'roi', 'yield'];
+  matches.forEach(modifier => {
+    if (modifier.category === 'negation') {
+      const target = findTarget(modifier, NEGATION_SCOPE_WORDS);
+      if (target) addAdjustment(target.start, { kind: 'NEGATION', modifier: modifier.phrase, strength: modifier.weight });
+    } else if (modifier.category === 'intensifier') {
+      const target = findTarget(modifier, INTENSIFIER_REACH_WORDS);
+      if (target) addAdjustment(target.start, { kind: 'INTENSIFIER', modifier: modifier.phrase, strength: modifier.weight });
+    }
+  });
 
+  return scored.map(match => {
+    const adjustments = adjustmentsByStart.get(match.start) || [];
+    let intensity = 1;
+    let polarity = 1; // Valence sign and strength after negation
+    let retained = 1; // Share of aggression and logic left after negation
+    adjustments.forEach(adjustment => {
+      if (adjustment.kind === 'INTENSIFIER') {
+        intensity *= adjustment.strength;
+      } else {
+        polarity *= 1 + adjustment.strength * (NEGATED_VALENCE_POLARITY - 1);
+        retained *= Math.max(0, 1 - adjustment.strength);
+      }
+    });
+
+    const weight = match.weight * intensity;
+    const entry: SentimentTraceEntry = {
+      phrase: match.phrase,
+      category: match.category,
+      start: match.start,
+      baseWeight: match.weight,
+      adjustments,
+      aggressionDelta: match.category === 'aggression' ? weight * 100 * retained : 0,
+      valenceDelta: match.category === 'aggression' ? -weight * polarity : match.category === 'conciliatory' ? weight * polarity : 0,
+      logicDelta: match.category === 'logic' ? weight * LOGIC_POINTS_PER_WEIGHT * retained : 0,
+      explanation: ''
+    };
+
+    const modifiers = adjustments.map(adjustment =>
+      adjustment.kind === 'NEGATION'
+        ? `negated by "${adjustment.modifier}"`
+        : `${adjustment.strength >= 1 ? 'intensified' : 'diminished'} ×${adjustment.strength} by "${adjustment.modifier}"`
+    );
+    const effects = [
+      entry.aggressionDelta !== 0 || match.category === 'aggression' ? `aggression ${round(entry.aggressionDelta)}` : '',
+      entry.valenceDelta !== 0 ? `valence ${entry.valenceDelta > 0 ? '+' : ''}${round(entry.valenceDelta)}` : '',
+      match.category === 'logic' ? `logic ${round(entry.logicDelta)}` : ''
+    ].filter(Boolean);
+    entry.explanation = `"${match.phrase}" (${match.category} ${match.weight})`
+      + (modifiers.length > 0 ? ` ${modifiers.join(', ')}` : '')
+      + `: ${effects.join(', ')}`;
+    return entry;
+  });
+};
+
+// Scored categories claim highlighted words before disfluencies and modifiers
+const HIGHLIGHT_PRIORITY = ['aggression', 'conciliatory', 'logic', 'hesitation', 'hedge', 'negation', 'intensifier'];
+
+// Confidence lost per disfluency of each kind
+const DISFLUENCY_CONFIDENCE_PENALTY: Record<DisfluencyKind, number> = {
+  FILLED_PAUSE: 0.15,
+  RESTART: 0.15,
+  REPETITION: 0.1,
+  HEDGE: 0.05
+};
+
+const DISFLUENCY_LABELS: Record<DisfluencyKind, [string, string]> = {
+  FILLED_PAUSE: ['filled pause', 'filled pauses'],
+  RESTART: ['restart', 'restarts'],
+  REPETITION: ['repetition', 'repetitions'],
+  HEDGE: ['hedge', 'hedges']
+};
+
+/**
+ * Maps lexicon matches and disfluency markers onto character spans of the
+ * original utterance, dropping any that overlaps one already placed.
+ * Filler and hedge matches come from the disfluency markers, which have
+ * already ruled out "I'd like" and its kind.
+ */
+const highlightMatches = (
+  text: string,
+  matches: LexiconMatch[],
+  markers: DisfluencyMarker[],
+  language: NegotiationLanguage
+): LexiconHighlight[] => {
+  const spans = locateNormalizedWords(text, language);
+  const candidates: LexiconHighlight[] = [
+    ...matches
+      .filter(match => match.category !== 'hesitation' && match.category !== 'hedge')
+      .flatMap(match => {
+        const first = spans[match.start];
+        const last = spans[match.start + match.length - 1];
+        return first && last ? [{ start: first.start, end: last.end, category: match.category, phrase: match.phrase }] : [];
+      }),
+    ...markers.map(marker => ({
+      start: marker.start,
+      end: marker.end,
+      category: marker.kind === 'HEDGE' ? 'hedge' as const : 'hesitation' as const,
+      phrase: marker.phrase
+    }))
+  ];
+
+  const placed: LexiconHighlight[] = [];
+  candidates
+    .sort((a, b) => HIGHLIGHT_PRIORITY.indexOf(a.category) - HIGHLIGHT_PRIORITY.indexOf(b.category))
+    .forEach(highlight => {
+      if (placed.some(other => highlight.start < other.end && other.start < highlight.end)) return;
+      placed.push(highlight);
+    });
+  return placed.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Sophisticated heuristic matrix calculation.
+ * Vocabulary comes from a compiled lexicon (see LexiconRegistry), defaulting
+ * to the bundled packs.
+ */
+export class SentimentMatrixCalculator {
   /**
    * Computes a composite sentiment score (-1 to 1) based on text valence and audio intensity.
    * Also computes confidence based on coherence and delivery.
@@ -96,41 +318,42 @@ export class SentimentMatrixCalculator {
   public static analyze(
     linguisticArtifact: string, 
     spectralIntensity: number = 0,
-    hesitationCount: number = 0
+    disfluency?: DisfluencyBreakdown,
+    lexicon: CompiledLexicon = DEFAULT_LEXICON
   ): RhetoricalImpactFactor {
+    return this.explain(linguisticArtifact, spectralIntensity, disfluency, lexicon).factor;
+  }
+
+  /**
+   * Same as analyze, plus the contribution breakdown: a trace of every scored
+   * phrase with the negations and intensifiers that adjusted it, each
+   * confidence penalty and bonus, and the matched words located in the text.
+   * The disfluency breakdown is analyzed from the utterance unless given.
+   */
+  public static explain(
+    linguisticArtifact: string,
+    spectralIntensity: number = 0,
+    disfluency?: DisfluencyBreakdown,
+    lexicon: CompiledLexicon = DEFAULT_LEXICON
+  ): SentimentExplanation {
     const lowerText = linguisticArtifact.toLowerCase();
     const words = lowerText.split(/\s+/);
-    
-    let aggressionScore = 0;
-    let logicScore = 0;
-    let valenceSum = 0; // Positive for conciliatory, Negative for aggression
 
     // Lexical Analysis
-    words.forEach(w => {
-      const cleaned = w.replace(/[^a-z]/g, '');
-      
-      if (this.AGGRESSION_LEXICON[cleaned as keyof typeof this.AGGRESSION_LEXICON]) {
-        const val = this.AGGRESSION_LEXICON[cleaned as keyof typeof this.AGGRESSION_LEXICON];
-        aggressionScore += (val * 100);
-        valenceSum -= val;
-      }
-      
-      if (this.CONCILIATORY_LEXICON[cleaned as keyof typeof this.CONCILIATORY_LEXICON]) {
-        const val = this.CONCILIATORY_LEXICON[cleaned as keyof typeof this.CONCILIATORY_LEXICON];
-        valenceSum += val;
-      }
-
-      if (this.LOGIC_LEXICON.includes(cleaned)) {
-        logicScore += 15;
-      }
-    });
+    const matches = matchLexicon(linguisticArtifact, lexicon);
+    const trace = scoreLexicalMatches(matches, clauseOfWords(linguisticArtifact, lexicon.language));
+    const aggressionScore = trace.reduce((sum, entry) => sum + entry.aggressionDelta, 0);
+    const logicScore = trace.reduce((sum, entry) => sum + entry.logicDelta, 0);
+    const valenceSum = trace.reduce((sum, entry) => sum + entry.valenceDelta, 0); // Positive for conciliatory, Negative for aggression
 
     // Normalize Logic and Aggression
     const normalizedAggression = Math.min(100, aggressionScore);
     const normalizedLogic = Math.min(100, logicScore);
     
     // Clarity penalized by length (verbosity) but boosted by logic
-    const clarity = Math.min(100, Math.max(0, 100 - (linguisticArtifact.length * 0.02) + (normalizedLogic * 0.3)));
+    const verbosityPenalty = linguisticArtifact.length * 0.02;
+    const clarityLogicBonus = normalizedLogic * 0.3;
+    const clarity = Math.min(100, Math.max(0, 100 - verbosityPenalty + clarityLogicBonus));
 
     // Calculate Emotional Resonance
     let resonance = valenceSum;
@@ -144,32 +367,67 @@ export class SentimentMatrixCalculator {
 
     // --- CONFIDENCE CALCULATION ---
     // Base confidence is 1.0 (100%)
-    // Penalized by: Hesitation markers, Low Spectral Intensity (mumbling), excessively short responses (unless aggressive)
-    let confidence = 1.0;
+    // Penalized by: Disfluencies, Low Spectral Intensity (mumbling), excessively short responses (unless aggressive)
+    const confidenceContributions: ConfidenceContribution[] = [];
+    const breakdown = disfluency ?? analyzeDisfluency(linguisticArtifact, lexicon);
 
-    // Penalty: Hesitation
-    // Each hesitation drops confidence by 0.15
-    confidence -= (hesitationCount * 0.15);
+    // Penalty: Disfluency, weighted by kind (filled pauses and restarts 0.15 each)
+    const disfluencyCounts: Record<DisfluencyKind, number> = {
+      FILLED_PAUSE: breakdown.filledPauses,
+      RESTART: breakdown.restarts,
+      REPETITION: breakdown.repetitions,
+      HEDGE: breakdown.hedges
+    };
+    (Object.keys(disfluencyCounts) as DisfluencyKind[]).forEach(kind => {
+      const count = disfluencyCounts[kind];
+      if (count === 0) return;
+      const penalty = DISFLUENCY_CONFIDENCE_PENALTY[kind];
+      confidenceContributions.push({
+        source: kind,
+        delta: -(count * penalty),
+        detail: `${count} ${DISFLUENCY_LABELS[kind][count === 1 ? 0 : 1]} × ${penalty}`
+      });
+    });
 
     // Penalty: Mumbling (Low Energy)
     // Only apply if there are words spoken
-    if (words.length > 0 && spectralIntensity < 0.05) {
-      confidence -= 0.2;
+    const mumblingPenaltyApplied = words.length > 0 && spectralIntensity < 0.05;
+    if (mumblingPenaltyApplied) {
+      confidenceContributions.push({
+        source: 'MUMBLING',
+        delta: -0.2,
+        detail: `vocal energy ${spectralIntensity.toFixed(3)} below 0.05`
+      });
     }
 
     // Bonus: Logic Density or Aggression increases apparent confidence
-    confidence += (normalizedLogic * 0.002); // Up to 0.2 boost
-    confidence += (normalizedAggression * 0.002); // Up to 0.2 boost
+    if (normalizedLogic > 0) {
+      confidenceContributions.push({ source: 'LOGIC', delta: normalizedLogic * 0.002, detail: `logic density ${round(normalizedLogic)} × 0.002` }); // Up to 0.2 boost
+    }
+    if (normalizedAggression > 0) {
+      confidenceContributions.push({ source: 'AGGRESSION', delta: normalizedAggression * 0.002, detail: `aggression ${round(normalizedAggression)} × 0.002` }); // Up to 0.2 boost
+    }
+
+    const confidence = confidenceContributions.reduce((sum, contribution) => sum + contribution.delta, 1.0);
 
     // Clamp Confidence 0 to 1
     const confidenceScore = Math.max(0, Math.min(1, confidence));
 
     return {
-      clarityScore: clarity,
-      aggressionIndex: normalizedAggression,
-      logicDensity: normalizedLogic,
-      emotionalResonanceIndex,
-      confidenceScore
+      factor: {
+        clarityScore: clarity,
+        aggressionIndex: normalizedAggression,
+        logicDensity: normalizedLogic,
+        emotionalResonanceIndex,
+        confidenceScore
+      },
+      trace,
+      disfluency: breakdown,
+      mumblingPenaltyApplied,
+      verbosityPenalty,
+      clarityLogicBonus,
+      confidenceContributions,
+      highlights: highlightMatches(linguisticArtifact, matches, breakdown.markers, lexicon.language)
     };
   }
 }
\ No newline at end of file
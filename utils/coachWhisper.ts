@@ -0,0 +1,209 @@
+import {
+  AssessedCoachHint,
+  CoachHint,
+  CoachHintKind,
+  CoachHintResponse,
+  DialogueTransmissionVector,
+  NegotiationEntropyMetric,
+  NegotiationLanguage,
+  NegotiationTactic,
+  SimulationScenarioMatrix
+} from "../types";
+import { DEFAULT_LANGUAGE } from "./language";
+import { totalDisfluency } from "./disfluency";
+import { buildOfferLadder } from "./offerExtractor";
+import { detectTactics, tacticsOf, TACTIC_LABELS } from "./tacticDetector";
+
+/**
+ * Coach whisper: cheap rules over the last few turns and the latest metric
+ * samples that produce one short hint at a time while the simulation runs,
+ * and a check of what the operator did next so the post-mortem can tell
+ * which hints were acted on.
+ */
+
+export const COACH_HINT_INTERVAL_MS = 20000; // At most one whisper per interval
+export const COACH_HINT_KIND_COOLDOWN_MS = 90000; // The same advice is not repeated sooner
+
+const BASELINE_SAMPLES = 3; // Metric samples a spike or drop is measured against
+const HESITATION_SPIKE_MIN = 3; // Disfluencies in one line before a spike is worth a whisper
+const CONFIDENCE_DROP = 0.2; // Below the baseline mean, on the 0..1 scale
+const RHETORIC_DRIFT_THRESHOLD = 0.2; // Semantic adherence below this is off-message
+const RHETORIC_DRIFT_SAMPLES = 3;
+const UNRECIPROCATED_CONCESSIONS_MIN = 2;
+
+export const COACH_HINT_KINDS: CoachHintKind[] = [
+  'UNRECIPROCATED_CONCESSIONS',
+  'HESITATION_SPIKE',
+  'CONFIDENCE_DROP',
+  'RHETORIC_DRIFT',
+  'COUNTERPART_TACTIC'
+];
+
+export const COACH_HINT_LABELS: Record<CoachHintKind, string> = {
+  UNRECIPROCATED_CONCESSIONS: 'Unreciprocated concessions',
+  HESITATION_SPIKE: 'Hesitation spike',
+  CONFIDENCE_DROP: 'Confidence drop',
+  RHETORIC_DRIFT: 'Rhetoric drift',
+  COUNTERPART_TACTIC: 'Counterpart tactic'
+};
+
+const TACTIC_COUNTERS: Record<NegotiationTactic, string> = {
+  ANCHORING: 'put your own figure on the table before discussing theirs.',
+  FLINCH: 'hold your number and ask what they would propose instead.',
+  NIBBLING: 'trade every extra for something of equal value.',
+  GOOD_COP_BAD_COP: 'negotiate with the person at the table, not the absent hard-liner.',
+  DEADLINE_PRESSURE: 'test whether the deadline is real before you move.',
+  FALSE_CONCESSION: 'their figure has not moved, so do not reward it with one of yours.',
+  BATNA_REVEAL: 'weigh their alternative against yours before you respond to it.'
+};
+
+// Everything the rules and the follow-up check read
+export interface CoachContext {
+  vectors: DialogueTransmissionVector[];
+  metrics: NegotiationEntropyMetric[];
+  scenario?: Pick<SimulationScenarioMatrix, 'persona' | 'operatorReservationPrice'> | null;
+  language?: NegotiationLanguage;
+}
+
+export type CoachHintProposal = Pick<CoachHint, 'kind' | 'message' | 'trigger' | 'tactic'>;
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Operator concessions in a row since the counterpart last gave ground, ending at the latest operator message
+const trailingConcessions = ({ vectors, scenario, language = DEFAULT_LANGUAGE }: CoachContext): number => {
+  const latestOperator = [...vectors].reverse().find(vector => vector.origin === 'OPERATOR');
+  const ladder = buildOfferLadder(vectors, scenario, language);
+  if (!latestOperator || !ladder) return 0;
+
+  const rungs = ladder.rungs;
+  const ownLatest = [...rungs].reverse().find(rung => rung.side === 'OPERATOR');
+  if (ownLatest?.vectorId !== latestOperator.id) return 0;
+
+  let count = 0;
+  for (let index = rungs.length - 1; index >= 0; index--) {
+    const rung = rungs[index];
+    if (rung.side === 'SYNTHETIC_AGENT') {
+      if ((rung.concession ?? 0) > 0) break;
+      continue;
+    }
+    if ((rung.concession ?? 0) <= 0) break;
+    count++;
+  }
+  return count;
+};
+
+/**
+ * Hints the current state of the negotiation supports, most pressing first.
+ */
+export const proposeCoachHints = (context: CoachContext): CoachHintProposal[] => {
+  const { vectors, metrics, language = DEFAULT_LANGUAGE } = context;
+  const proposals: CoachHintProposal[] = [];
+
+  const concessions = trailingConcessions(context);
+  if (concessions >= UNRECIPROCATED_CONCESSIONS_MIN) {
+    proposals.push({
+      kind: 'UNRECIPROCATED_CONCESSIONS',
+      message: `You conceded ${concessions} times in a row without getting anything back. Ask for something in return before you move again.`,
+      trigger: concessions
+    });
+  }
+
+  // A counterpart tactic in the latest message, while it is still unanswered
+  const latest = vectors[vectors.length - 1];
+  if (latest?.origin === 'SYNTHETIC_AGENT') {
+    const tactics = latest.metadata?.tactics ?? tacticsOf(detectTactics(latest, vectors.slice(0, -1), language));
+    tactics.forEach(tactic => proposals.push({
+      kind: 'COUNTERPART_TACTIC',
+      message: `${TACTIC_LABELS[tactic]} from the counterpart: ${TACTIC_COUNTERS[tactic]}`,
+      trigger: 0,
+      tactic
+    }));
+  }
+
+  const current = metrics[metrics.length - 1];
+  const baseline = metrics.slice(-1 - BASELINE_SAMPLES, -1);
+  if (current) {
+    const disfluencies = totalDisfluency(current);
+    const usual = baseline.length > 0 ? mean(baseline.map(totalDisfluency)) : 0;
+    if (disfluencies >= HESITATION_SPIKE_MIN && disfluencies >= 2 * usual) {
+      proposals.push({
+        kind: 'HESITATION_SPIKE',
+        message: `Hesitation spiking: ${disfluencies} disfluencies in your last line. Slow down and state your position plainly.`,
+        trigger: disfluencies
+      });
+    }
+
+    const usualConfidence = baseline.length === BASELINE_SAMPLES ? mean(baseline.map(m => m.confidenceScore)) : null;
+    if (usualConfidence !== null && current.confidenceScore <= usualConfidence - CONFIDENCE_DROP) {
+      proposals.push({
+        kind: 'CONFIDENCE_DROP',
+        message: `Confidence fell to ${percent(current.confidenceScore)} from around ${percent(usualConfidence)}. Lead with your strongest argument.`,
+        trigger: current.confidenceScore
+      });
+    }
+  }
+
+  const recent = metrics.slice(-RHETORIC_DRIFT_SAMPLES);
+  if (recent.length === RHETORIC_DRIFT_SAMPLES && recent.every(m => m.semanticAdherence < RHETORIC_DRIFT_THRESHOLD)) {
+    proposals.push({
+      kind: 'RHETORIC_DRIFT',
+      message: `Your last ${RHETORIC_DRIFT_SAMPLES} lines drifted from the target rhetoric. Bring the conversation back to the scenario's key message.`,
+      trigger: current.semanticAdherence
+    });
+  }
+
+  return proposals;
+};
+
+const sameAdvice = (hint: CoachHint, proposal: CoachHintProposal) =>
+  hint.kind === proposal.kind && hint.tactic === proposal.tactic;
+
+/**
+ * The proposal to whisper now, or null while the rate limit holds: one hint
+ * per interval, and no advice repeated within its cooldown.
+ */
+export const nextCoachHint = (
+  proposals: CoachHintProposal[],
+  issued: CoachHint[],
+  now: number
+): CoachHintProposal | null => {
+  const last = issued[issued.length - 1];
+  if (last && now - last.issuedAt < COACH_HINT_INTERVAL_MS) return null;
+
+  return proposals.find(proposal => !issued.some(hint =>
+    sameAdvice(hint, proposal) && now - hint.issuedAt < COACH_HINT_KIND_COOLDOWN_MS
+  )) ?? null;
+};
+
+const assessHint = (hint: CoachHint, context: CoachContext, concededIn: (vectorId: string) => boolean): CoachHintResponse => {
+  if (hint.kind === 'UNRECIPROCATED_CONCESSIONS' || hint.kind === 'COUNTERPART_TACTIC') {
+    // Acted on when the operator's next message holds the line instead of giving more ground
+    const reply = context.vectors.slice(hint.dialogueIndex).find(vector => vector.origin === 'OPERATOR');
+    if (!reply) return 'PENDING';
+    return concededIn(reply.id) ? 'IGNORED' : 'ACTED_ON';
+  }
+
+  // Delivery hints: judged by the next metric sample
+  const next = context.metrics[hint.metricIndex];
+  if (!next) return 'PENDING';
+  switch (hint.kind) {
+    case 'HESITATION_SPIKE': return totalDisfluency(next) < hint.trigger ? 'ACTED_ON' : 'IGNORED';
+    case 'CONFIDENCE_DROP': return next.confidenceScore > hint.trigger ? 'ACTED_ON' : 'IGNORED';
+    case 'RHETORIC_DRIFT': return next.semanticAdherence >= RHETORIC_DRIFT_THRESHOLD ? 'ACTED_ON' : 'IGNORED';
+  }
+};
+
+/**
+ * Whether each hint was acted on, judged by what the operator did after it.
+ */
+export const assessCoachHints = (hints: CoachHint[], context: CoachContext): AssessedCoachHint[] => {
+  const ladder = hints.length > 0 ? buildOfferLadder(context.vectors, context.scenario, context.language ?? DEFAULT_LANGUAGE) : null;
+  const conceded = new Set(
+    (ladder?.rungs ?? [])
+      .filter(rung => rung.side === 'OPERATOR' && (rung.concession ?? 0) > 0)
+      .map(rung => rung.vectorId)
+  );
+  return hints.map(hint => ({ ...hint, response: assessHint(hint, context, vectorId => conceded.has(vectorId)) }));
+};
@@ -0,0 +1,69 @@
+import {
+  DealOutcome,
+  NegotiationOutcome,
+  NegotiationTurnRecord,
+  OfflineSimulationResult,
+  TurnYieldJudgement,
+  TurnYieldSample
+} from "../types";
+
+// How the way a negotiation ended scales the yield it accumulated
+export const OUTCOME_MULTIPLIERS: Record<NegotiationOutcome, number> = {
+  DEAL: 1,
+  STALEMATE: 0.6,
+  WALK_AWAY: 0.3
+};
+
+// Stopped by the operator before any resolution: the yields stand on their own
+const UNRESOLVED_MULTIPLIER = 1;
+
+const clampYield = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Converts one offline simulation turn into a timeline judgement.
+ */
+export const toYieldJudgement = (result: OfflineSimulationResult): TurnYieldJudgement => ({
+  yield: result.outcomeYield,
+  source: 'MANIFOLD',
+  rationale: result.selectionReason,
+  outcome: result.concluded ? result.state.outcome : null
+});
+
+/**
+ * Rebuilds the yield timeline from stored turns (used by the session archive).
+ */
+export const turnsToYieldTimeline = (turns: NegotiationTurnRecord[]): TurnYieldSample[] =>
+  turns.map((turn, index) => ({
+    turn: index + 1,
+    timestamp: new Date(turn.timestamp).getTime(),
+    yield: turn.outcomeYield,
+    source: turn.yieldSource || 'MANIFOLD',
+    outcome: turn.negotiationOutcome
+  }));
+
+/**
+ * Aggregates a per-turn yield timeline into a final deal value.
+ * Later turns weigh more (turn n of the scored turns carries weight n), since
+ * where a negotiation ends matters more than where it started. The result is
+ * then scaled by how the negotiation ended.
+ */
+export const computeDealOutcome = (timeline: TurnYieldSample[]): DealOutcome => {
+  const scored = timeline.filter((sample): sample is TurnYieldSample & { yield: number } => sample.yield !== null);
+  const outcome = [...timeline].reverse().find(sample => sample.outcome)?.outcome ?? null;
+  const outcomeMultiplier = outcome ? OUTCOME_MULTIPLIERS[outcome] : UNRESOLVED_MULTIPLIER;
+
+  let weightedYield: number | null = null;
+  if (scored.length > 0) {
+    const totalWeight = (scored.length * (scored.length + 1)) / 2;
+    weightedYield = scored.reduce((sum, sample, index) => sum + clampYield(sample.yield) * (index + 1), 0) / totalWeight;
+  }
+
+  return {
+    dealValue: weightedYield === null ? null : clampYield(weightedYield * outcomeMultiplier),
+    weightedYield,
+    outcome,
+    outcomeMultiplier,
+    scoredTurns: scored.length,
+    totalTurns: timeline.length
+  };
+};
@@ -0,0 +1,264 @@
+import { DisfluencyBreakdown, DisfluencyCounts, DisfluencyKind, NegotiationEntropyMetric, NegotiationLanguage } from "../types";
+import { CompiledLexicon, DEFAULT_LEXICON, matchLexicon } from "./lexicon";
+import { normalizeRhetoricTokens } from "./rhetoricAlignment";
+
+/**
+ * Disfluency analysis: filled pauses and hedges come from the lexicon's
+ * hesitation and hedge categories, filtered by context rules for phrases that
+ * are also ordinary words ("I'd like", "what kind of"); repetitions and
+ * restarts are found from the word sequence and its punctuation.
+ */
+
+interface SpokenWord {
+  word: string; // Normalized
+  start: number; // Character span of the raw word it came from
+  end: number;
+  breakBefore: boolean; // Clause punctuation or a dash precedes the word
+  cutOffBefore: boolean; // The previous word was abandoned ("we sh- we should")
+}
+
+// Where an ambiguous phrase occurred
+interface PhraseContext {
+  previous?: string;
+  next?: string;
+  setOff: boolean; // Punctuation or the utterance edge on either side
+  clauseStart: boolean; // Utterance start, after punctuation or after a connective
+}
+
+const RAW_WORD_PATTERN = /[\p{L}\p{M}\p{N}'’ʼ`]+/gu;
+const CLAUSE_BREAK_PATTERN = /[,.;:!?¿¡…()"«»]/;
+// A dash set apart from the words, not a hyphenated compound
+const CUT_OFF_PATTERN = /[—–]|--|\s-|-\s/;
+
+const CONNECTIVES = new Set(['and', 'but', 'so', 'well', 'or', 'because']);
+const DETERMINERS = new Set([
+  'a', 'an', 'the', 'what', 'which', 'this', 'that', 'these', 'those', 'any', 'some', 'every', 'each',
+  'same', 'one', 'no', 'my', 'our', 'your', 'their', 'his', 'her', 'its', 'whatever', 'different'
+]);
+// "I'd like", "we like", "looks like", "something like": the verb or preposition
+const LIKE_LITERAL_PREVIOUS = new Set([
+  'i', 'we', 'you', 'they', 'he', 'she', 'would', 'should', 'could', 'might', 'will', 'do', 'does', 'did',
+  'not', 'to', 'really', 'also', 'look', 'looks', 'looked', 'feel', 'feels', 'felt', 'seem', 'seems',
+  'sound', 'sounds', 'something', 'anything', 'nothing', 'more', 'much', 'just', 'exactly'
+]);
+// "I mean it", "I mean that", "what I mean is"
+const MEAN_LITERAL_NEXT = new Set(['it', 'that', 'this', 'to', 'by', 'what', 'business']);
+// "do you know", "as you know", "you know what"
+const YOU_KNOW_LITERAL_PREVIOUS = new Set([
+  'do', 'did', 'does', 'not', 'if', 'as', 'would', 'will', 'can', 'could', 'should', 'might', 'whether', 'how', 'what'
+]);
+const YOU_KNOW_LITERAL_NEXT = new Set([
+  'what', 'that', 'how', 'why', 'where', 'who', 'whether', 'when', 'it', 'him', 'her', 'them', 'me', 'us', 'this', 'about', 'the'
+]);
+
+// German "weißt du, was ..." and the like are questions, not fillers
+const WEISST_DU_LITERAL_NEXT = new Set(['was', 'wie', 'wo', 'ob', 'dass', 'warum', 'wann', 'wer']);
+
+const setOffOnly = ({ setOff }: PhraseContext) => setOff;
+
+interface DisfluencyRules {
+  // Whether an occurrence of an ambiguous lexicon phrase is a disfluency
+  contextRules: Record<string, (context: PhraseContext) => boolean>;
+  // Editing terms that retract what came before ("thirty, sorry, forty units")
+  selfCorrections: { words: string[]; needsBreak: boolean }[];
+  // Doubled words that are grammatical ("that that", "had had")
+  grammaticalDoubles: Set<string>;
+}
+
+const DISFLUENCY_RULES: Record<NegotiationLanguage, DisfluencyRules> = {
+  en: {
+    contextRules: {
+      'like': ({ previous, setOff }) => setOff && !LIKE_LITERAL_PREVIOUS.has(previous ?? ''),
+      'i mean': ({ next, clauseStart }) => clauseStart && !MEAN_LITERAL_NEXT.has(next ?? ''),
+      'you know': ({ previous, next, setOff }) =>
+        !YOU_KNOW_LITERAL_PREVIOUS.has(previous ?? '') && (setOff || !YOU_KNOW_LITERAL_NEXT.has(next ?? '')),
+      'kind of': ({ previous }) => !DETERMINERS.has(previous ?? ''),
+      'sort of': ({ previous }) => !DETERMINERS.has(previous ?? '')
+    },
+    selfCorrections: [
+      { words: ['or', 'rather'], needsBreak: false },
+      { words: ['let', 'me', 'rephrase'], needsBreak: false },
+      { words: ['scratch', 'that'], needsBreak: false },
+      { words: ['no', 'wait'], needsBreak: true },
+      { words: ['sorry'], needsBreak: true },
+      { words: ['correction'], needsBreak: true }
+    ],
+    grammaticalDoubles: new Set(['that', 'had'])
+  },
+  de: {
+    contextRules: {
+      'weißt du': ({ next }) => !WEISST_DU_LITERAL_NEXT.has(next ?? '')
+    },
+    selfCorrections: [
+      { words: ['beziehungsweise'], needsBreak: false },
+      { words: ['oder', 'besser', 'gesagt'], needsBreak: false },
+      { words: ['nein', 'warte'], needsBreak: true },
+      { words: ['entschuldigung'], needsBreak: true }
+    ],
+    // "die Firma, die die Preise setzt"
+    grammaticalDoubles: new Set(['die', 'der', 'das', 'sie'])
+  },
+  es: {
+    // "este contrato", "un buen acuerdo": demonstrative and adjective unless set off
+    contextRules: {
+      'este': setOffOnly,
+      'bueno': setOffOnly,
+      'pues': setOffOnly,
+      'vale': setOffOnly,
+      'sabes': setOffOnly
+    },
+    selfCorrections: [
+      { words: ['o', 'mejor', 'dicho'], needsBreak: false },
+      { words: ['perdón'], needsBreak: true },
+      { words: ['digo'], needsBreak: true }
+    ],
+    grammaticalDoubles: new Set()
+  },
+  fr: {
+    // "quel genre de contrat", "quoi qu'il arrive"
+    contextRules: {
+      'genre': setOffOnly,
+      'quoi': setOffOnly,
+      'tu sais': setOffOnly
+    },
+    selfCorrections: [
+      { words: ['ou', 'plutôt'], needsBreak: false },
+      { words: ['pardon'], needsBreak: true },
+      { words: ['je', 'veux', 'dire'], needsBreak: true }
+    ],
+    // "nous nous sommes engagés"
+    grammaticalDoubles: new Set(['nous', 'vous'])
+  }
+};
+
+const MAX_REPEATED_PHRASE_WORDS = 3;
+
+/**
+ * Normalized words with their character spans and the punctuation before
+ * them. The words line up with normalizeRhetoricTokens(text).
+ */
+const readSpokenWords = (text: string, language: NegotiationLanguage): SpokenWord[] => {
+  const spoken: SpokenWord[] = [];
+  let previousEnd = 0;
+  for (const raw of text.matchAll(RAW_WORD_PATTERN)) {
+    const start = raw.index ?? 0;
+    const end = start + raw[0].length;
+    const gap = text.slice(previousEnd, start);
+    const cutOffBefore = spoken.length > 0 && CUT_OFF_PATTERN.test(gap);
+    const breakBefore = cutOffBefore || CLAUSE_BREAK_PATTERN.test(gap);
+    normalizeRhetoricTokens(raw[0], language).forEach((word, index) => {
+      spoken.push({
+        word,
+        start,
+        end,
+        breakBefore: index === 0 && breakBefore,
+        cutOffBefore: index === 0 && cutOffBefore
+      });
+    });
+    previousEnd = end;
+  }
+  return spoken;
+};
+
+const contextAt = (spoken: SpokenWord[], start: number, length: number): PhraseContext => {
+  const end = start + length;
+  const previous = spoken[start - 1]?.word;
+  return {
+    previous,
+    next: spoken[end]?.word,
+    setOff: start === 0 || spoken[start].breakBefore || end === spoken.length || spoken[end].breakBefore,
+    clauseStart: start === 0 || spoken[start].breakBefore || CONNECTIVES.has(previous ?? '')
+  };
+};
+
+const sameWords = (spoken: SpokenWord[], first: number, second: number, length: number) => {
+  for (let offset = 0; offset < length; offset++) {
+    if (spoken[first + offset].word !== spoken[second + offset].word) return false;
+  }
+  return true;
+};
+
+export const EMPTY_DISFLUENCY_COUNTS: DisfluencyCounts = { filledPauses: 0, repetitions: 0, restarts: 0, hedges: 0 };
+
+const COUNT_FIELD: Record<DisfluencyKind, keyof DisfluencyCounts> = {
+  FILLED_PAUSE: 'filledPauses',
+  REPETITION: 'repetitions',
+  RESTART: 'restarts',
+  HEDGE: 'hedges'
+};
+
+/**
+ * Finds filled pauses, repetitions, restarts and hedges in an utterance,
+ * using the editing terms and context rules of the lexicon's language.
+ * Each word belongs to at most one marker: a doubled "um" is two filled
+ * pauses rather than a repetition, and "I- I think" is a repetition rather
+ * than a restart.
+ */
+export const analyzeDisfluency = (text: string, lexicon: CompiledLexicon = DEFAULT_LEXICON): DisfluencyBreakdown => {
+  const rules = DISFLUENCY_RULES[lexicon.language];
+  const spoken = readSpokenWords(text, lexicon.language);
+  const claimed = new Array<boolean>(spoken.length).fill(false);
+  const breakdown: DisfluencyBreakdown = { ...EMPTY_DISFLUENCY_COUNTS, total: 0, markers: [] };
+
+  const mark = (kind: DisfluencyKind, phrase: string, from: number, to: number) => {
+    for (let index = from; index <= to; index++) claimed[index] = true;
+    breakdown.markers.push({ kind, phrase, start: spoken[from].start, end: spoken[to].end });
+    breakdown[COUNT_FIELD[kind]]++;
+    breakdown.total++;
+  };
+  const isFree = (from: number, length: number) => claimed.slice(from, from + length).every(taken => !taken);
+
+  // 1. Filled pauses and hedges from the lexicon, where context allows
+  matchLexicon(spoken.map(entry => entry.word).join(' '), lexicon)
+    .filter(match => match.category === 'hesitation' || match.category === 'hedge')
+    .forEach(match => {
+      if (!isFree(match.start, match.length)) return;
+      const rule = rules.contextRules[match.phrase];
+      if (rule && !rule(contextAt(spoken, match.start, match.length))) return;
+      mark(match.category === 'hedge' ? 'HEDGE' : 'FILLED_PAUSE', match.phrase, match.start, match.start + match.length - 1);
+    });
+
+  // 2. Self-corrections set off from the words they retract
+  for (let start = 1; start < spoken.length; start++) {
+    const correction = rules.selfCorrections.find(({ words, needsBreak }) =>
+      (!needsBreak || spoken[start].breakBefore)
+      && words.every((word, offset) => spoken[start + offset]?.word === word)
+    );
+    if (correction && isFree(start, correction.words.length)) {
+      mark('RESTART', correction.words.join(' '), start, start + correction.words.length - 1);
+    }
+  }
+
+  // 3. Repeated words and short phrases; the first copy is the disfluent one
+  for (let start = 0; start < spoken.length; start++) {
+    for (let length = MAX_REPEATED_PHRASE_WORDS; length >= 1; length--) {
+      if (start + length * 2 > spoken.length) continue;
+      if (!isFree(start, length * 2) || !sameWords(spoken, start, start + length, length)) continue;
+      if (length === 1 && rules.grammaticalDoubles.has(spoken[start].word)) continue;
+      mark('REPETITION', spoken.slice(start, start + length).map(entry => entry.word).join(' '), start, start + length - 1);
+      break;
+    }
+  }
+
+  // 4. Words abandoned mid-flow
+  spoken.forEach((entry, index) => {
+    if (entry.cutOffBefore && !claimed[index - 1]) {
+      mark('RESTART', `${spoken[index - 1].word}-`, index - 1, index - 1);
+    }
+  });
+
+  breakdown.markers.sort((a, b) => a.start - b.start);
+  return breakdown;
+};
+
+/**
+ * Disfluencies of every kind in a metric sample.
+ */
+export const totalDisfluency = ({ disfluency }: Pick<NegotiationEntropyMetric, 'disfluency'>): number =>
+  disfluency.filledPauses + disfluency.repetitions + disfluency.restarts + disfluency.hedges;
+
+/**
+ * The counts alone, as stored on a metric sample.
+ */
+export const toDisfluencyCounts = ({ filledPauses, repetitions, restarts, hedges }: DisfluencyBreakdown): DisfluencyCounts =>
+  ({ filledPauses, repetitions, restarts, hedges });
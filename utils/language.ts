@@ -0,0 +1,27 @@
+import { NegotiationLanguage } from "../types";
+
+export const DEFAULT_LANGUAGE: NegotiationLanguage = 'en';
+
+export const SUPPORTED_LANGUAGES: NegotiationLanguage[] = ['en', 'de', 'es', 'fr'];
+
+interface LanguageProfile {
+  name: string; // English name, as quoted in prompts
+  locale: string; // BCP-47 tag for speech recognition and synthesis
+}
+
+export const LANGUAGE_PROFILES: Record<NegotiationLanguage, LanguageProfile> = {
+  en: { name: 'English', locale: 'en-US' },
+  de: { name: 'German', locale: 'de-DE' },
+  es: { name: 'Spanish', locale: 'es-ES' },
+  fr: { name: 'French', locale: 'fr-FR' }
+};
+
+export const isNegotiationLanguage = (value: unknown): value is NegotiationLanguage =>
+  typeof value === 'string' && SUPPORTED_LANGUAGES.includes(value as NegotiationLanguage);
+
+/**
+ * Language of a scenario, or of a stored row whose language column may be
+ * missing or hold a value this build does not support.
+ */
+export const resolveLanguage = (value: unknown): NegotiationLanguage =>
+  isNegotiationLanguage(value) ? value : DEFAULT_LANGUAGE;
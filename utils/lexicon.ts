@@ -0,0 +1,183 @@
+import { LexiconCategory, LexiconEntries, LexiconMatch, LexiconPack, NegotiationLanguage, ScenarioLexiconConfig } from "../types";
+import { DEFAULT_LANGUAGE } from "./language";
+import { normalizeRhetoricTokens } from "./rhetoricAlignment";
+import { stemToken } from "./semanticAdherence";
+import coreEn from "../data/lexicons/core-en.json";
+import fillersEn from "../data/lexicons/fillers-en.json";
+import coreDe from "../data/lexicons/core-de.json";
+import fillersDe from "../data/lexicons/fillers-de.json";
+import coreEs from "../data/lexicons/core-es.json";
+import fillersEs from "../data/lexicons/fillers-es.json";
+import coreFr from "../data/lexicons/core-fr.json";
+import fillersFr from "../data/lexicons/fillers-fr.json";
+
+export const LEXICON_CATEGORIES: LexiconCategory[] = ['aggression', 'conciliatory', 'logic', 'hesitation', 'hedge', 'negation', 'intensifier'];
+
+export const isLexiconCategory = (value: string): value is LexiconCategory =>
+  (LEXICON_CATEGORIES as string[]).includes(value);
+
+// Packs every lexicon of a language starts from; scenario packs and overrides layer on top
+export const BASE_LEXICON_PACKS: Record<NegotiationLanguage, LexiconPack[]> = {
+  en: [coreEn as LexiconPack, fillersEn as LexiconPack],
+  de: [coreDe as LexiconPack, fillersDe as LexiconPack],
+  es: [coreEs as LexiconPack, fillersEs as LexiconPack],
+  fr: [coreFr as LexiconPack, fillersFr as LexiconPack]
+};
+
+export const DEFAULT_LEXICON_PACKS: LexiconPack[] = BASE_LEXICON_PACKS[DEFAULT_LANGUAGE];
+
+export const packLanguage = (pack: LexiconPack): NegotiationLanguage => pack.language ?? DEFAULT_LANGUAGE;
+
+interface CompiledPhrase {
+  category: LexiconCategory;
+  phrase: string;
+  weight: number;
+  words: string[]; // Stemmed when `stemmed`
+  stemmed: boolean;
+}
+
+export interface CompiledLexicon {
+  signature: string; // e.g. "core-en@1.0.0+fillers-en@1.0.0+overrides"
+  language: NegotiationLanguage; // Tokenization and stemming rules the phrases were compiled with
+  phraseCount: number;
+  // Phrases by their first word: "r:<word>" for exact, "s:<stem>" for stemmed
+  index: Map<string, CompiledPhrase[]>;
+}
+
+/**
+ * Merges packs (later packs win per phrase) and overrides into a phrase index.
+ * Override phrases keep the stemming of the pack phrase they replace and are
+ * stemmed otherwise. A weight of 0 removes the phrase.
+ */
+export const compileLexicon = (
+  packs: LexiconPack[],
+  overrides?: ScenarioLexiconConfig['overrides'],
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): CompiledLexicon => {
+  const phraseKey = (phrase: string) => normalizeRhetoricTokens(phrase, language).join(' ');
+  const merged = new Map<string, { category: LexiconCategory; phrase: string; weight: number; stemmed: boolean }>();
+
+  const apply = (category: LexiconCategory, entries: LexiconEntries, stemming: boolean | null) => {
+    Object.entries(entries).forEach(([rawPhrase, weight]) => {
+      const phrase = phraseKey(rawPhrase);
+      if (!phrase) return;
+      const id = `${category}:${phrase}`;
+      const stemmed = stemming ?? merged.get(id)?.stemmed ?? true;
+      merged.set(id, { category, phrase, weight, stemmed });
+    });
+  };
+
+  packs.forEach(pack => {
+    LEXICON_CATEGORIES.forEach(category => {
+      const entries = pack.categories[category];
+      if (entries) apply(category, entries, pack.stemming);
+    });
+  });
+  if (overrides) {
+    LEXICON_CATEGORIES.forEach(category => {
+      const entries = overrides[category];
+      if (entries) apply(category, entries, null);
+    });
+  }
+
+  const index = new Map<string, CompiledPhrase[]>();
+  let phraseCount = 0;
+  merged.forEach(entry => {
+    if (entry.weight === 0) return;
+    const words = entry.phrase.split(' ').map(word => (entry.stemmed ? stemToken(word, language) : word));
+    const key = `${entry.stemmed ? 's' : 'r'}:${words[0]}`;
+    const bucket = index.get(key) || [];
+    bucket.push({ ...entry, words });
+    index.set(key, bucket);
+    phraseCount++;
+  });
+
+  // Longest phrases first so "sort of" wins over a bare "sort"
+  index.forEach(bucket => bucket.sort((a, b) => b.words.length - a.words.length));
+
+  const signature = [
+    ...packs.map(pack => `${pack.id}@${pack.version}`),
+    ...(overrides && Object.keys(overrides).length > 0 ? ['overrides'] : [])
+  ].join('+');
+
+  return { signature, language, phraseCount, index };
+};
+
+export const DEFAULT_LEXICON: CompiledLexicon = compileLexicon(DEFAULT_LEXICON_PACKS);
+
+const baseLexicons = new Map<NegotiationLanguage, CompiledLexicon>([[DEFAULT_LANGUAGE, DEFAULT_LEXICON]]);
+
+/**
+ * The base packs of a language, compiled once.
+ */
+export const baseLexiconFor = (language: NegotiationLanguage): CompiledLexicon => {
+  let lexicon = baseLexicons.get(language);
+  if (!lexicon) {
+    lexicon = compileLexicon(BASE_LEXICON_PACKS[language], undefined, language);
+    baseLexicons.set(language, lexicon);
+  }
+  return lexicon;
+};
+
+/**
+ * Finds every lexicon phrase in the text. Within a category matches do not
+ * overlap and the longest phrase starting at a word wins; different
+ * categories may match the same words.
+ */
+export const matchLexicon = (text: string, lexicon: CompiledLexicon = DEFAULT_LEXICON): LexiconMatch[] => {
+  const words = normalizeRhetoricTokens(text, lexicon.language);
+  const stems = words.map(word => stemToken(word, lexicon.language));
+  const coveredUntil: Partial<Record<LexiconCategory, number>> = {};
+  const matches: LexiconMatch[] = [];
+
+  for (let start = 0; start < words.length; start++) {
+    const candidates = [
+      ...(lexicon.index.get(`r:${words[start]}`) || []),
+      ...(lexicon.index.get(`s:${stems[start]}`) || [])
+    ].sort((a, b) => b.words.length - a.words.length);
+
+    candidates.forEach(candidate => {
+      if ((coveredUntil[candidate.category] ?? 0) > start) return;
+      const source = candidate.stemmed ? stems : words;
+      const fits = candidate.words.every((word, offset) => source[start + offset] === word);
+      if (!fits) return;
+
+      matches.push({
+        category: candidate.category,
+        phrase: candidate.phrase,
+        weight: candidate.weight,
+        start,
+        length: candidate.words.length
+      });
+      coveredUntil[candidate.category] = start + candidate.words.length;
+    });
+  }
+
+  return matches;
+};
+
+/**
+ * Character span of every normalized word in the original text, without
+ * surrounding punctuation. Words split out of one token (a contraction,
+ * "this—it") share that token's span.
+ */
+export const locateNormalizedWords = (
+  text: string,
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): { start: number; end: number }[] => {
+  const spans: { start: number; end: number }[] = [];
+  const tokenPattern = /\S+/g;
+  const wordCharacter = /[\p{L}\p{M}\p{N}]/u;
+  let token: RegExpExecArray | null;
+  while ((token = tokenPattern.exec(text)) !== null) {
+    const characters = [...token[0]];
+    const leading = characters.findIndex(character => wordCharacter.test(character));
+    const trailing = characters.length - 1 - [...characters].reverse().findIndex(character => wordCharacter.test(character));
+    // Offsets in UTF-16 units, as String.slice expects
+    const start = token.index + characters.slice(0, Math.max(0, leading)).join('').length;
+    const end = token.index + characters.slice(0, trailing + 1).join('').length;
+    const span = { start, end };
+    normalizeRhetoricTokens(token[0], language).forEach(() => spans.push(span));
+  }
+  return spans;
+};
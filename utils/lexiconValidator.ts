@@ -0,0 +1,121 @@
+import { LexiconEntries, LexiconPack, ScenarioLexiconConfig } from "../types";
+import { isLexiconCategory, LEXICON_CATEGORIES } from "./lexicon";
+import { SUPPORTED_LANGUAGES, isNegotiationLanguage } from "./language";
+
+export const LEXICON_SCHEMA_VERSION = 1;
+
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,63}$/;
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+$/;
+
+export interface LexiconPackValidationResult {
+  pack: LexiconPack | null; // Null whenever errors is non-empty
+  errors: string[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const validateEntries = (value: unknown, path: string, errors: string[]): LexiconEntries | undefined => {
+  if (value === undefined) return undefined;
+  if (!isPlainObject(value)) {
+    errors.push(`${path} must be an object of phrase weights`);
+    return undefined;
+  }
+  Object.entries(value).forEach(([phrase, weight]) => {
+    if (phrase.trim().length === 0) errors.push(`${path} contains an empty phrase`);
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      errors.push(`${path}["${phrase}"] must be a non-negative number`);
+    }
+  });
+  return value as LexiconEntries;
+};
+
+const validateCategories = (value: unknown, path: string, errors: string[]) => {
+  if (!isPlainObject(value)) {
+    errors.push(`${path} must be an object`);
+    return {};
+  }
+  Object.keys(value)
+    .filter(category => !isLexiconCategory(category))
+    .forEach(category => errors.push(`${path}.${category} is not one of ${LEXICON_CATEGORIES.join(', ')}`));
+
+  const categories: LexiconPack['categories'] = {};
+  LEXICON_CATEGORIES.forEach(category => {
+    const entries = validateEntries(value[category], `${path}.${category}`, errors);
+    if (entries) categories[category] = entries;
+  });
+  return categories;
+};
+
+/**
+ * Validates a lexicon pack (typically parsed from JSON) before registration.
+ */
+export const validateLexiconPack = (candidate: unknown): LexiconPackValidationResult => {
+  const errors: string[] = [];
+
+  if (!isPlainObject(candidate)) {
+    return { pack: null, errors: ['lexicon pack must be a JSON object'] };
+  }
+
+  if (candidate.schemaVersion !== LEXICON_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be ${LEXICON_SCHEMA_VERSION}`);
+  }
+  if (typeof candidate.id !== 'string' || !PACK_ID_PATTERN.test(candidate.id)) {
+    errors.push('id must be 2-64 lowercase letters, digits or dashes (e.g. procurement-en)');
+  }
+  if (typeof candidate.version !== 'string' || !SEMVER_PATTERN.test(candidate.version)) {
+    errors.push('version must be a semantic version (e.g. 1.2.0)');
+  }
+  if (candidate.language !== undefined && !isNegotiationLanguage(candidate.language)) {
+    errors.push(`language must be one of ${SUPPORTED_LANGUAGES.join(', ')}`);
+  }
+  if (candidate.description !== undefined && typeof candidate.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (typeof candidate.stemming !== 'boolean') {
+    errors.push('stemming must be a boolean');
+  }
+  const categories = validateCategories(candidate.categories, 'categories', errors);
+
+  if (errors.length > 0) {
+    return { pack: null, errors };
+  }
+
+  return {
+    pack: {
+      schemaVersion: candidate.schemaVersion,
+      id: candidate.id,
+      version: candidate.version,
+      ...(candidate.language !== undefined ? { language: candidate.language } : {}),
+      ...(candidate.description !== undefined ? { description: candidate.description } : {}),
+      stemming: candidate.stemming,
+      categories
+    },
+    errors
+  };
+};
+
+/**
+ * Validates a scenario's lexicon block. Pack ids are only checked for shape:
+ * custom packs may be registered in the browser after the scenario is saved.
+ */
+export const validateLexiconConfig = (value: unknown, errors: string[]): ScenarioLexiconConfig | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isPlainObject(value)) {
+    errors.push('lexicon must be an object');
+    return undefined;
+  }
+
+  const config: ScenarioLexiconConfig = {};
+  if (value.packs !== undefined) {
+    if (!Array.isArray(value.packs) || !value.packs.every((id: unknown) => typeof id === 'string' && PACK_ID_PATTERN.test(id))) {
+      errors.push('lexicon.packs must be an array of lexicon pack ids');
+    } else {
+      config.packs = value.packs;
+    }
+  }
+  if (value.overrides !== undefined) {
+    config.overrides = validateCategories(value.overrides, 'lexicon.overrides', errors);
+  }
+  return config;
+};
@@ -0,0 +1,289 @@
+import {
+  NegotiationOutcome,
+  NegotiationParameters,
+  OfflineNegotiationState,
+  OfflineSimulationResult,
+  ProbabilityManifold,
+  SimulationScenarioMatrix
+} from "../types";
+import { hashSeed, nextRandom, pickWeightedIndex } from "./seededRandom";
+
+export const NEGOTIATION_OUTCOMES: NegotiationOutcome[] = ['DEAL', 'WALK_AWAY', 'STALEMATE'];
+
+export const DEFAULT_NEGOTIATION_PARAMETERS: NegotiationParameters = {
+  openingOffer: null,
+  patience: 5,
+  maxTurns: 12
+};
+
+// Patience lost when the operator says nothing any manifold responds to
+export const MISS_PATIENCE_COST = 1;
+
+const SIMULATION_PREFIX = '[SIMULATION_MODE]: ';
+const FALLBACK_RESPONSE = 'I am not compelled by that argument. Please restructure your leverage.';
+
+const CLOSING_LINES: Record<NegotiationOutcome, string> = {
+  DEAL: 'We have an agreement. Send over the paperwork.',
+  WALK_AWAY: "I've heard enough. We're walking away from the table.",
+  STALEMATE: "We're going in circles. Let's table this until one of us has something new."
+};
+
+export const resolveNegotiationParameters = (scenario: SimulationScenarioMatrix): NegotiationParameters => ({
+  ...DEFAULT_NEGOTIATION_PARAMETERS,
+  ...scenario.negotiationParameters
+});
+
+/**
+ * Opening state. The seed defaults to one derived from the scenario id, so
+ * callers wanting varied runs pass a per-session seed.
+ */
+export const createNegotiationState = (
+  scenario: SimulationScenarioMatrix,
+  seed: number = hashSeed(scenario.id)
+): OfflineNegotiationState => {
+  const parameters = resolveNegotiationParameters(scenario);
+  return {
+    turn: 0,
+    currentOffer: parameters.openingOffer,
+    patience: parameters.patience,
+    runningYield: null,
+    firedCount: 0,
+    lastFiredTurn: {},
+    pendingFollowUps: [],
+    lastFiredKey: null,
+    outcome: null,
+    seed,
+    rngState: seed
+  };
+};
+
+export const DEFAULT_MANIFOLD_WEIGHT = 1;
+
+const describeManifold = (scenario: SimulationScenarioMatrix, index: number) => {
+  const key = scenario.probabilityManifolds[index].key;
+  return key ? `#${index + 1} (${key})` : `#${index + 1}`;
+};
+
+/**
+ * Checks whether a manifold may fire on the next turn.
+ * Returns the reason it is held back, or null when it is eligible.
+ */
+export const explainIneligibility = (
+  manifold: ProbabilityManifold,
+  index: number,
+  state: OfflineNegotiationState
+): string | null => {
+  const upcomingTurn = state.turn + 1;
+  const conditions = manifold.preconditions;
+
+  if (conditions) {
+    if (conditions.minPatience !== undefined && state.patience < conditions.minPatience) return `patience ${state.patience} < ${conditions.minPatience}`;
+    if (conditions.maxPatience !== undefined && state.patience > conditions.maxPatience) return `patience ${state.patience} > ${conditions.maxPatience}`;
+    if (conditions.minRunningYield !== undefined && (state.runningYield === null || state.runningYield < conditions.minRunningYield)) {
+      return `running yield below ${conditions.minRunningYield}`;
+    }
+    if (conditions.maxRunningYield !== undefined && state.runningYield !== null && state.runningYield > conditions.maxRunningYield) {
+      return `running yield above ${conditions.maxRunningYield}`;
+    }
+    if (conditions.minTurn !== undefined && upcomingTurn < conditions.minTurn) return `turn ${upcomingTurn} < ${conditions.minTurn}`;
+    if (conditions.afterManifolds && !conditions.afterManifolds.includes(state.lastFiredKey ?? '')) {
+      return `requires a preceding ${conditions.afterManifolds.join(' | ')}`;
+    }
+  }
+
+  const lastFired = state.lastFiredTurn[index];
+  if (manifold.cooldownTurns && lastFired !== undefined && upcomingTurn - lastFired <= manifold.cooldownTurns) {
+    return `cooling down until turn ${lastFired + manifold.cooldownTurns + 1}`;
+  }
+
+  return null;
+};
+
+/**
+ * Evaluation order for the next turn: follow-ups of the previous manifold
+ * first (in the order they were declared), then the rest by position.
+ */
+const resolveEvaluationOrder = (scenario: SimulationScenarioMatrix, branchIndices: number[]): number[] => {
+  const remaining = scenario.probabilityManifolds.map((_, index) => index).filter(index => !branchIndices.includes(index));
+  return [...branchIndices, ...remaining];
+};
+
+interface ManifoldSelection {
+  firedIndex: number | null;
+  reason: string;
+  rngState: number;
+}
+
+/**
+ * Chooses among the eligible matches. Matching follow-ups of the previous
+ * manifold form a priority tier; within a tier the winner is a weighted draw.
+ */
+const selectManifold = (
+  scenario: SimulationScenarioMatrix,
+  state: OfflineNegotiationState,
+  matchingIndices: number[],
+  branchIndices: number[]
+): ManifoldSelection => {
+  if (matchingIndices.length === 0) {
+    return { firedIndex: null, reason: 'no eligible trigger matched', rngState: state.rngState };
+  }
+
+  const branchMatches = matchingIndices.filter(index => branchIndices.includes(index));
+  const tier = branchMatches.length > 0 ? branchMatches : matchingIndices;
+  const tierLabel = branchMatches.length > 0 ? ` among follow-ups of ${state.lastFiredKey ?? 'the previous manifold'}` : '';
+
+  if (tier.length === 1) {
+    const reason = matchingIndices.length === 1
+      ? 'only eligible match'
+      : `follow-up of ${state.lastFiredKey ?? 'the previous manifold'} takes precedence`;
+    return { firedIndex: tier[0], reason, rngState: state.rngState };
+  }
+
+  const weights = tier.map(index => scenario.probabilityManifolds[index].weight ?? DEFAULT_MANIFOLD_WEIGHT);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const draw = nextRandom(state.rngState);
+  const firedIndex = tier[pickWeightedIndex(weights, draw.value)];
+  const odds = tier
+    .map((index, i) => `${describeManifold(scenario, index)} ${Math.round((weights[i] / total) * 100)}%`)
+    .join(', ');
+
+  return {
+    firedIndex,
+    reason: `weighted draw ${draw.value.toFixed(3)}${tierLabel} [${odds}]`,
+    rngState: draw.state
+  };
+};
+
+const applyTurn = (
+  scenario: SimulationScenarioMatrix,
+  state: OfflineNegotiationState,
+  fired: ProbabilityManifold | null,
+  firedIndex: number | null
+): OfflineNegotiationState => {
+  const turn = state.turn + 1;
+  const next: OfflineNegotiationState = { ...state, turn, lastFiredTurn: { ...state.lastFiredTurn } };
+
+  if (fired && firedIndex !== null) {
+    const effects = fired.effects || {};
+    next.patience = state.patience + (effects.patienceDelta ?? 0);
+    if (next.currentOffer !== null && effects.offerAdjustment !== undefined) {
+      next.currentOffer = next.currentOffer * (1 + effects.offerAdjustment);
+    }
+    next.runningYield = ((state.runningYield ?? 0) * state.firedCount + fired.outcomeYield) / (state.firedCount + 1);
+    next.firedCount = state.firedCount + 1;
+    next.lastFiredTurn[firedIndex] = turn;
+    next.pendingFollowUps = fired.followUps || [];
+    next.lastFiredKey = fired.key ?? null;
+    next.outcome = effects.outcome ?? null;
+  } else {
+    next.patience = state.patience - MISS_PATIENCE_COST;
+    next.pendingFollowUps = [];
+    next.lastFiredKey = null;
+  }
+
+  // Exhausted patience outranks the turn limit
+  if (!next.outcome && next.patience <= 0) next.outcome = 'WALK_AWAY';
+  if (!next.outcome && turn >= resolveNegotiationParameters(scenario).maxTurns) next.outcome = 'STALEMATE';
+
+  return next;
+};
+
+const formatOffer = (scenario: SimulationScenarioMatrix, offer: number) => {
+  const unit = scenario.persona?.reservationPrice.unit;
+  const rounded = Math.round(offer * 100) / 100;
+  return unit === 'PERCENT' ? `${rounded}%` : unit === 'USD' ? `$${rounded.toLocaleString('en-US')}` : String(rounded);
+};
+
+/**
+ * Advances the offline negotiation by one operator utterance. Pure: the
+ * caller owns the state and stores the returned `state` for the next turn.
+ */
+export const advanceNegotiation = (
+  scenario: SimulationScenarioMatrix,
+  state: OfflineNegotiationState,
+  userPayload: string
+): OfflineSimulationResult => {
+  if (state.outcome) {
+    return {
+      response: `${SIMULATION_PREFIX}${CLOSING_LINES[state.outcome]} [OUTCOME: ${state.outcome}]`,
+      firedIndex: null,
+      outcomeYield: null,
+      matchingIndices: [],
+      invalidIndices: [],
+      blockedIndices: [],
+      selectionReason: `negotiation already ended in ${state.outcome}`,
+      concluded: false,
+      state
+    };
+  }
+
+  const lowerPayload = userPayload.toLowerCase();
+  const matchingIndices: number[] = [];
+  const invalidIndices: number[] = [];
+  const blockedIndices: number[] = [];
+
+  const branchIndices = state.pendingFollowUps
+    .map(key => scenario.probabilityManifolds.findIndex(m => m.key === key))
+    .filter(index => index >= 0);
+
+  resolveEvaluationOrder(scenario, branchIndices).forEach(index => {
+    const manifold = scenario.probabilityManifolds[index];
+    let matched: boolean;
+    try {
+      matched = new RegExp(manifold.triggerCondition).test(lowerPayload);
+    } catch {
+      invalidIndices.push(index);
+      return;
+    }
+    if (!matched) return;
+
+    if (explainIneligibility(manifold, index, state)) {
+      blockedIndices.push(index);
+    } else {
+      matchingIndices.push(index);
+    }
+  });
+
+  const selection = selectManifold(scenario, state, matchingIndices, branchIndices);
+  const { firedIndex } = selection;
+  const fired = firedIndex !== null ? scenario.probabilityManifolds[firedIndex] : null;
+  let rngState = selection.rngState;
+  let selectionReason = selection.reason;
+
+  let response = FALLBACK_RESPONSE;
+  if (fired) {
+    const candidates = [fired.syntheticResponse, ...(fired.alternativeResponses || [])];
+    let responseIndex = 0;
+    if (candidates.length > 1) {
+      const draw = nextRandom(rngState);
+      responseIndex = Math.floor(draw.value * candidates.length);
+      rngState = draw.state;
+    }
+    response = candidates[responseIndex];
+    selectionReason = `${describeManifold(scenario, firedIndex as number)}: ${selectionReason}`;
+    if (candidates.length > 1) selectionReason += ` | response ${responseIndex + 1}/${candidates.length}`;
+  }
+
+  const nextState = applyTurn(scenario, { ...state, rngState }, fired, firedIndex);
+
+  if (fired?.effects?.offerAdjustment !== undefined && nextState.currentOffer !== null) {
+    response += ` [CURRENT OFFER: ${formatOffer(scenario, nextState.currentOffer)}]`;
+  }
+  if (nextState.outcome) {
+    // Effect-driven outcomes speak for themselves; limits get a closing line
+    if (!fired?.effects?.outcome) response += ` ${CLOSING_LINES[nextState.outcome]}`;
+    response += ` [OUTCOME: ${nextState.outcome}]`;
+  }
+
+  return {
+    response: `${SIMULATION_PREFIX}${response}`,
+    firedIndex,
+    outcomeYield: fired ? fired.outcomeYield : null,
+    matchingIndices,
+    invalidIndices,
+    blockedIndices,
+    selectionReason,
+    concluded: nextState.outcome !== null,
+    state: nextState
+  };
+};
@@ -0,0 +1,352 @@
+import {
+  DialogueTransmissionVector,
+  NegotiationLanguage,
+  OfferLadder,
+  OfferLadderRung,
+  OfferMention,
+  ReservationPrice,
+  SimulationScenarioMatrix,
+  ZoneOfPossibleAgreement
+} from "../types";
+import { DEFAULT_LANGUAGE } from "./language";
+
+/**
+ * Numeric offers in the dialogue: currency amounts, percentages and
+ * spelled-out numbers ("twenty percent plus equity"), attributed to the side
+ * that stated them and ordered into an offer/counter-offer ladder.
+ */
+
+type LadderLine = Pick<DialogueTransmissionVector, 'id' | 'origin' | 'payload'>;
+
+interface OfferVocabulary {
+  decimalSeparator: '.' | ',';
+  currency: string[]; // Currency words after the figure
+  percent: string[];
+  scales: Record<string, number>;
+  changePreposition: string; // Regex source linking a change verb to its size ("by" in "lower it by 15%")
+  changeVerbs: { down: string[]; up: string[] };
+  changeAfter: { down: string[]; up: string[] }; // Words right after the figure ("15% off")
+}
+
+const OFFER_VOCABULARY: Record<NegotiationLanguage, OfferVocabulary> = {
+  en: {
+    decimalSeparator: '.',
+    currency: ['dollars?', 'usd', 'euros?', 'eur', 'pounds?', 'gbp', 'bucks'],
+    percent: ['percent', 'per cent', 'pct', 'percentage points?', 'points?'],
+    scales: { k: 1e3, thousand: 1e3, grand: 1e3, m: 1e6, mm: 1e6, mn: 1e6, million: 1e6, millions: 1e6, bn: 1e9, billion: 1e9, billions: 1e9 },
+    changePreposition: 'by',
+    changeVerbs: {
+      down: ['lower(?:ing)?', 'reduc(?:e|ing)', 'cut(?:ting)?', 'drop(?:ping)?', 'decreas(?:e|ing)', 'com(?:e|ing) down', 'trim(?:ming)?'],
+      up: ['rais(?:e|ing)', 'increas(?:e|ing)', 'bump(?:ing)?', 'go(?:ing)? up', 'lift(?:ing)?', 'improv(?:e|ing)']
+    },
+    changeAfter: { down: ['off', 'less', 'lower', 'cheaper', 'discount', 'reduction'], up: ['more', 'higher', 'extra', 'increase', 'on top'] }
+  },
+  de: {
+    decimalSeparator: ',',
+    currency: ['euro', 'eur', 'dollar', 'usd'],
+    percent: ['prozent', 'prozentpunkte?'],
+    scales: { tausend: 1e3, tsd: 1e3, mio: 1e6, million: 1e6, millionen: 1e6, mrd: 1e9, milliarde: 1e9, milliarden: 1e9 },
+    changePreposition: 'um',
+    changeVerbs: { down: ['senken', 'reduzieren', 'kürzen', 'nachlassen', 'runtergehen'], up: ['erhöhen', 'anheben', 'aufstocken', 'raufgehen'] },
+    changeAfter: { down: ['weniger', 'rabatt', 'nachlass', 'günstiger'], up: ['mehr', 'höher', 'aufschlag'] }
+  },
+  es: {
+    decimalSeparator: ',',
+    currency: ['dólares', 'euros?', 'usd', 'eur'],
+    percent: ['por ciento', 'puntos?'],
+    scales: { mil: 1e3, 'mil millones': 1e9, millón: 1e6, millones: 1e6 },
+    changePreposition: '(?:en|un)(?:\\s+un)?',
+    changeVerbs: { down: ['bajar', 'reducir', 'rebajar', 'recortar', 'bajamos', 'reducimos'], up: ['subir', 'aumentar', 'incrementar', 'subimos', 'aumentamos'] },
+    changeAfter: { down: ['menos', 'de descuento', 'de rebaja'], up: ['más', 'adicional'] }
+  },
+  fr: {
+    decimalSeparator: ',',
+    currency: ['euros?', 'dollars?', 'eur', 'usd'],
+    percent: ['pour cent', 'pourcent', 'points?'],
+    scales: { mille: 1e3, k: 1e3, million: 1e6, millions: 1e6, md: 1e9, milliard: 1e9, milliards: 1e9 },
+    changePreposition: 'de',
+    changeVerbs: { down: ['baisser', 'réduire', 'diminuer', 'baissons', 'réduisons'], up: ['augmenter', 'relever', 'monter', 'augmentons'] },
+    changeAfter: { down: ['de moins', 'de remise', 'de réduction', 'de rabais'], up: ['de plus', 'supplémentaires?'] }
+  }
+};
+
+// Figures with a scale this large are money even without a currency marker ("a 1.2 billion valuation")
+const IMPLICIT_CURRENCY_SCALE = 1e6;
+
+const WORD_EDGE_BEFORE = '(?<![\\p{L}\\p{M}\\p{N}])';
+const WORD_EDGE_AFTER = '(?![\\p{L}\\p{M}\\p{N}])';
+
+// Digits with grouping or decimal separators; a space only groups before exactly three digits
+const NUMERAL = '\\d+(?:(?:[.,]|[ \\u00a0\\u202f](?=\\d{3}(?!\\d)))\\d+)*';
+
+const alternation = (words: string[]) => [...words].sort((a, b) => b.length - a.length).join('|');
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ');
+
+interface CompiledVocabulary {
+  figure: RegExp; // Global
+  spelled: RegExp; // Global; English number words
+  percentWord: RegExp;
+  changeBefore: { down: RegExp; up: RegExp };
+  changeAfter: { down: RegExp; up: RegExp };
+}
+
+const compiledVocabularies = new Map<NegotiationLanguage, CompiledVocabulary>();
+
+const ENGLISH_UNITS: Record<string, number> = {
+  a: 1, zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19
+};
+const ENGLISH_TENS: Record<string, number> = {
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+const ENGLISH_SCALES: Record<string, number> = { thousand: 1e3, million: 1e6, billion: 1e9 };
+
+const vocabularyFor = (language: NegotiationLanguage): CompiledVocabulary => {
+  let compiled = compiledVocabularies.get(language);
+  if (!compiled) {
+    const vocabulary = OFFER_VOCABULARY[language];
+    const scales = `(?:${alternation(Object.keys(vocabulary.scales))})${WORD_EDGE_AFTER}\\.?`;
+    const marker = `%|[$€£]|(?:${alternation([...vocabulary.currency, ...vocabulary.percent])})${WORD_EDGE_AFTER}`;
+    const numberWord = alternation([...Object.keys(ENGLISH_UNITS), ...Object.keys(ENGLISH_TENS), 'hundred', ...Object.keys(ENGLISH_SCALES)]);
+    const edged = (words: string[]) => `${WORD_EDGE_BEFORE}(?:${alternation(words)})${WORD_EDGE_AFTER}`;
+
+    compiled = {
+      figure: new RegExp(
+        `(?<symbol>[$€£]\\s?)?${WORD_EDGE_BEFORE}(?<number>${NUMERAL})(?:\\s?(?<scale>${scales}))?(?:\\s?(?<marker>${marker}))?`,
+        'giu'
+      ),
+      spelled: new RegExp(
+        `${WORD_EDGE_BEFORE}(?<words>(?:${numberWord})(?:[\\s-]+(?:and[\\s-]+)?(?:point|${numberWord}))*)${WORD_EDGE_AFTER}` +
+        `(?:\\s+(?<marker>${alternation([...OFFER_VOCABULARY.en.currency, ...OFFER_VOCABULARY.en.percent])})${WORD_EDGE_AFTER})?`,
+        'giu'
+      ),
+      percentWord: new RegExp(`^(?:%|${alternation(vocabulary.percent)})$`, 'iu'),
+      changeBefore: {
+        down: new RegExp(`${edged(vocabulary.changeVerbs.down)}[^.;!?]*?${WORD_EDGE_BEFORE}(?:${vocabulary.changePreposition})\\s*$`, 'iu'),
+        up: new RegExp(`${edged(vocabulary.changeVerbs.up)}[^.;!?]*?${WORD_EDGE_BEFORE}(?:${vocabulary.changePreposition})\\s*$`, 'iu')
+      },
+      changeAfter: {
+        down: new RegExp(`^\\s*${edged(vocabulary.changeAfter.down)}`, 'iu'),
+        up: new RegExp(`^\\s*${edged(vocabulary.changeAfter.up)}`, 'iu')
+      }
+    };
+    compiledVocabularies.set(language, compiled);
+  }
+  return compiled;
+};
+
+/**
+ * Reads a numeral whose separators may group thousands or mark decimals.
+ * Where only one kind appears once, it is a decimal mark if the language
+ * uses it as one or if it is not followed by exactly three digits.
+ */
+export const parseNumeral = (raw: string, language: NegotiationLanguage = DEFAULT_LANGUAGE): number => {
+  const compact = raw.replace(/[\s  ]/g, '');
+  const separators = compact.match(/[.,]/g) || [];
+  let decimalMark: string | null = null;
+
+  if (new Set(separators).size === 2) {
+    decimalMark = compact[Math.max(compact.lastIndexOf('.'), compact.lastIndexOf(','))];
+  } else if (separators.length === 1) {
+    const separator = separators[0];
+    const digitsAfter = compact.length - compact.indexOf(separator) - 1;
+    if (separator === OFFER_VOCABULARY[language].decimalSeparator || digitsAfter !== 3) decimalMark = separator;
+  }
+
+  const [whole, fraction = ''] = decimalMark
+    ? [compact.slice(0, compact.lastIndexOf(decimalMark)), compact.slice(compact.lastIndexOf(decimalMark) + 1)]
+    : [compact];
+  return Number(`${whole.replace(/[.,]/g, '')}.${fraction.replace(/[.,]/g, '') || '0'}`);
+};
+
+/**
+ * Value of a run of English number words ("one point two billion",
+ * "twenty-five"), or null when the words do not form a number.
+ */
+export const parseSpelledNumber = (phrase: string): number | null => {
+  const words = phrase.toLowerCase().split(/[\s-]+/).filter(word => word && word !== 'and');
+  let total = 0;
+  let current = 0;
+  let decimals: string | null = null;
+  let sawNumber = false;
+
+  for (const word of words) {
+    if (decimals !== null && word in ENGLISH_UNITS && ENGLISH_UNITS[word] < 10 && word !== 'a') {
+      decimals += ENGLISH_UNITS[word];
+      continue;
+    }
+    if (decimals !== null) {
+      if (!decimals) return null;
+      current += Number(`0.${decimals}`);
+      decimals = null;
+    }
+
+    if (word === 'point') {
+      if (!sawNumber) return null;
+      decimals = '';
+    } else if (word in ENGLISH_UNITS) {
+      current += ENGLISH_UNITS[word];
+    } else if (word in ENGLISH_TENS) {
+      current += ENGLISH_TENS[word];
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (word in ENGLISH_SCALES) {
+      total += (current || 1) * ENGLISH_SCALES[word];
+      current = 0;
+    } else {
+      return null;
+    }
+    sawNumber = true;
+  }
+
+  if (decimals) current += Number(`0.${decimals}`);
+  return sawNumber && decimals !== '' ? total + current : null;
+};
+
+const changeDirection = (text: string, start: number, end: number, vocabulary: CompiledVocabulary): OfferMention['change'] => {
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+  if (vocabulary.changeBefore.down.test(before) || vocabulary.changeAfter.down.test(after)) return 'DOWN';
+  if (vocabulary.changeBefore.up.test(before) || vocabulary.changeAfter.up.test(after)) return 'UP';
+  return null;
+};
+
+/**
+ * Every currency amount and percentage in one message, in reading order.
+ * Bare numbers ("40 trucks") are not offers and are skipped. Spelled-out
+ * numbers are read in English only.
+ */
+export const extractOffers = (text: string, language: NegotiationLanguage = DEFAULT_LANGUAGE): OfferMention[] => {
+  const vocabulary = vocabularyFor(language);
+  const scales = OFFER_VOCABULARY[language].scales;
+  const mentions: OfferMention[] = [];
+
+  const classify = (marker: string | undefined, symbol: boolean, multiplier: number): OfferMention['unit'] | null => {
+    if (marker && vocabulary.percentWord.test(normalizeWord(marker))) return 'PERCENT';
+    if (symbol || marker) return 'USD';
+    return multiplier >= IMPLICIT_CURRENCY_SCALE ? 'USD' : null;
+  };
+
+  const push = (value: number, unit: OfferMention['unit'] | null, start: number, end: number) => {
+    if (unit === null || !Number.isFinite(value)) return;
+    if (mentions.some(mention => start < mention.end && end > mention.start)) return;
+    mentions.push({ value, unit, change: changeDirection(text, start, end, vocabulary), phrase: text.slice(start, end), start, end });
+  };
+
+  for (const match of text.matchAll(vocabulary.figure)) {
+    const { symbol, number, scale, marker } = match.groups!;
+    const multiplier = scale ? scales[normalizeWord(scale)] ?? 1 : 1;
+    const start = match.index ?? 0;
+    // A sentence-final period is not part of an abbreviated scale ("1,2 Mio.")
+    const length = match[0].trimEnd().replace(/\.$/, '').length;
+    push(parseNumeral(number, language) * multiplier, classify(marker, !!symbol, multiplier), start, start + length);
+  }
+
+  if (language === 'en') {
+    for (const match of text.matchAll(vocabulary.spelled)) {
+      const { words, marker } = match.groups!;
+      const value = parseSpelledNumber(words);
+      if (value === null) continue;
+      const lastWord = words.toLowerCase().split(/[\s-]+/).pop() ?? '';
+      const start = match.index ?? 0;
+      push(value, classify(marker, false, ENGLISH_SCALES[lastWord] ?? 1), start, start + match[0].length);
+    }
+  }
+
+  return mentions.sort((a, b) => a.start - b.start);
+};
+
+// Resolved changes are kept to cents (or hundredths of a point) so repeated figures compare equal
+const roundValue = (value: number) => Math.round(value * 100) / 100;
+
+const sameValue = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+
+/**
+ * Values both reservation points allow. Each side contributes one bound; the
+ * zone is open on the side of an unconfigured walk-away point, and null when
+ * the bounds do not overlap or nothing is configured.
+ */
+export const computeZopa = (
+  counterpart: ReservationPrice | null,
+  operator: ReservationPrice | null
+): ZoneOfPossibleAgreement | null => {
+  const prices = [counterpart, operator].filter((price): price is ReservationPrice => price !== null);
+  if (prices.length === 0) return null;
+  const high = prices.find(price => price.bound === 'CEILING')?.value ?? null;
+  const low = prices.find(price => price.bound === 'FLOOR')?.value ?? null;
+  if (high !== null && low !== null && low > high) return null;
+  return { low, high };
+};
+
+/**
+ * Builds the offer/counter-offer ladder of a conversation: at most one rung
+ * per message, in the unit the scenario's reservation price is set in.
+ * Relative changes are applied to the speaker's previous offer, or to the
+ * latest offer on the table when the speaker has none. A figure that repeats
+ * the other side's offer is a quote, unless it is the only one in the message
+ * (then it is acceptance).
+ */
+export const buildOfferLadder = (
+  lines: LadderLine[],
+  scenario?: Pick<SimulationScenarioMatrix, 'persona' | 'operatorReservationPrice'> | null,
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): OfferLadder | null => {
+  const mentionsByLine = lines.map(line => extractOffers(line.payload, language));
+  const counterpartReservation = scenario?.persona?.reservationPrice ?? null;
+  const unit = counterpartReservation?.unit ?? mentionsByLine.flat().find(mention => mention.change === null)?.unit;
+  if (!unit) return null;
+
+  const configuredOperator = scenario?.operatorReservationPrice ?? null;
+  const operatorReservation = configuredOperator && configuredOperator.unit === unit ? configuredOperator : null;
+
+  const rungs: Omit<OfferLadderRung, 'concession'>[] = [];
+  lines.forEach((line, index) => {
+    const lastOwn = [...rungs].reverse().find(rung => rung.side === line.origin);
+    const base = lastOwn ?? rungs[rungs.length - 1];
+    const theirs = rungs.filter(rung => rung.side !== line.origin).map(rung => rung.value);
+
+    const candidates = mentionsByLine[index].flatMap(mention => {
+      if (mention.change === null) return mention.unit === unit ? [{ mention, value: mention.value }] : [];
+      if (!base) return [];
+      const sign = mention.change === 'UP' ? 1 : -1;
+      if (mention.unit === unit) return [{ mention, value: base.value + sign * mention.value }];
+      // A percentage change of a currency offer
+      if (mention.unit === 'PERCENT') return [{ mention, value: base.value * (1 + (sign * mention.value) / 100) }];
+      return [];
+    });
+    if (candidates.length === 0) return;
+
+    const ownFigures = candidates.filter(candidate => !theirs.some(value => sameValue(value, candidate.value)));
+    const pool = ownFigures.length > 0 ? ownFigures : candidates;
+    const chosen = pool[pool.length - 1];
+    rungs.push({ step: rungs.length + 1, vectorId: line.id, side: line.origin, value: roundValue(chosen.value), phrase: chosen.mention.phrase });
+  });
+  if (rungs.length === 0) return null;
+
+  let operatorWantsHigher: boolean | null = counterpartReservation
+    ? counterpartReservation.bound === 'CEILING'
+    : operatorReservation ? operatorReservation.bound === 'FLOOR' : null;
+  if (operatorWantsHigher === null) {
+    const firstOperator = rungs.find(rung => rung.side === 'OPERATOR');
+    const firstCounterpart = rungs.find(rung => rung.side === 'SYNTHETIC_AGENT');
+    if (firstOperator && firstCounterpart && !sameValue(firstOperator.value, firstCounterpart.value)) {
+      operatorWantsHigher = firstOperator.value > firstCounterpart.value;
+    }
+  }
+
+  return {
+    unit,
+    rungs: rungs.map((rung, index) => {
+      const previous = [...rungs.slice(0, index)].reverse().find(earlier => earlier.side === rung.side);
+      if (!previous || operatorWantsHigher === null) return { ...rung, concession: null };
+      // Conceding moves a side away from the direction its interest points
+      const wantsHigher = rung.side === 'OPERATOR' ? operatorWantsHigher : !operatorWantsHigher;
+      return { ...rung, concession: roundValue(wantsHigher ? previous.value - rung.value : rung.value - previous.value) };
+    }),
+    operatorWantsHigher,
+    counterpartReservation,
+    operatorReservation,
+    zopa: computeZopa(counterpartReservation, operatorReservation)
+  };
+};
@@ -0,0 +1,123 @@
+import { AnalysisGrade, StrategicAnalysisReport } from "../types";
+
+export const VALID_GRADES: AnalysisGrade[] = ['S', 'A', 'B', 'C', 'F'];
+
+export interface ReportValidationResult {
+  report: StrategicAnalysisReport;
+  issues: string[];
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * A grade read from the model or the database; anything outside the enum is ungraded.
+ */
+export const parseGrade = (value: unknown): AnalysisGrade | null =>
+  VALID_GRADES.find(grade => grade === value) ?? null;
+
+/**
+ * Reads an array of objects whose listed keys must all be non-empty strings.
+ * Malformed entries are dropped and reported rather than passed through.
+ */
+const readRecordArray = <K extends string>(
+  source: Record<string, unknown>,
+  field: string,
+  keys: K[],
+  issues: string[]
+): Record<K, string>[] => {
+  const value = source[field];
+  if (!Array.isArray(value)) {
+    issues.push(`${field} must be an array`);
+    return [];
+  }
+
+  const entries: Record<K, string>[] = [];
+  value.forEach((item, index) => {
+    if (!item || typeof item !== 'object') {
+      issues.push(`${field}[${index}] must be an object`);
+      return;
+    }
+    const record = item as Record<string, unknown>;
+    const missing = keys.filter(key => !isNonEmptyString(record[key]));
+    if (missing.length > 0) {
+      issues.push(`${field}[${index}].${missing.join(', ')} must be a non-empty string`);
+      return;
+    }
+    entries.push(Object.fromEntries(keys.map(key => [key, (record[key] as string).trim()])) as Record<K, string>);
+  });
+  return entries;
+};
+
+/**
+ * Validates an untrusted model output against StrategicAnalysisReport.
+ * Always returns a structurally complete report; `issues` lists every repair applied.
+ * An invalid grade is left null rather than guessed.
+ */
+export const validateStrategicAnalysisReport = (candidate: unknown): ReportValidationResult => {
+  const issues: string[] = [];
+
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+    issues.push('report must be a JSON object');
+    candidate = {};
+  }
+  const source = candidate as Record<string, unknown>;
+
+  const strengths = readRecordArray(source, 'strengths', ['point', 'example'], issues);
+  const missedOpportunities = readRecordArray(source, 'missedOpportunities', ['context', 'betterAlternative'], issues);
+  const psychologicalTacticsDetected = readRecordArray(source, 'psychologicalTacticsDetected', ['tacticName', 'description'], issues);
+
+  let confidenceTrajectoryAnalysis = '';
+  if (isNonEmptyString(source.confidenceTrajectoryAnalysis)) {
+    confidenceTrajectoryAnalysis = source.confidenceTrajectoryAnalysis.trim();
+  } else {
+    issues.push('confidenceTrajectoryAnalysis must be a non-empty string');
+  }
+
+  const trainingRecommendations: string[] = [];
+  if (Array.isArray(source.trainingRecommendations)) {
+    source.trainingRecommendations.forEach((item, index) => {
+      if (isNonEmptyString(item)) {
+        trainingRecommendations.push(item.trim());
+      } else {
+        issues.push(`trainingRecommendations[${index}] must be a non-empty string`);
+      }
+    });
+  } else {
+    issues.push('trainingRecommendations must be an array');
+  }
+
+  const overallGrade = parseGrade(source.overallGrade);
+  if (!overallGrade) {
+    issues.push(`overallGrade must be one of ${VALID_GRADES.join(', ')}`);
+  }
+
+  return {
+    report: {
+      strengths,
+      missedOpportunities,
+      psychologicalTacticsDetected,
+      confidenceTrajectoryAnalysis,
+      trainingRecommendations,
+      overallGrade
+    },
+    issues
+  };
+};
+
+/**
+ * Parses raw model text (tolerating stray code fences) and validates it.
+ */
+export const parseStrategicAnalysisReport = (rawText: string): ReportValidationResult => {
+  const cleanJson = rawText.replace(/```json/g, '').replace(/```/g, '').trim();
+
+  let candidate: unknown;
+  try {
+    candidate = JSON.parse(cleanJson || '{}');
+  } catch (error: any) {
+    const fallback = validateStrategicAnalysisReport({});
+    return { report: fallback.report, issues: [`response is not valid JSON: ${error.message}`] };
+  }
+
+  return validateStrategicAnalysisReport(candidate);
+};
@@ -0,0 +1,116 @@
+import { NegotiationLanguage, RhetoricAlignment, RhetoricEdit } from "../types";
+import { DEFAULT_LANGUAGE } from "./language";
+
+// Expanded before punctuation is stripped so "can't" and "cannot" align with "can not"
+const ENGLISH_CONTRACTIONS: [RegExp, string][] = [
+  [/\bwon't\b/g, 'will not'],
+  [/\bcan't\b/g, 'can not'],
+  [/\bcannot\b/g, 'can not'],
+  [/\bshan't\b/g, 'shall not'],
+  [/\bain't\b/g, 'is not'],
+  [/\blet's\b/g, 'let us'],
+  [/n't\b/g, ' not'],
+  [/'re\b/g, ' are'],
+  [/'m\b/g, ' am'],
+  [/'ll\b/g, ' will'],
+  [/'ve\b/g, ' have'],
+  [/'d\b/g, ' would'],
+  // Possessive and "is" contractions are ambiguous; keep the stem only
+  [/'s\b/g, '']
+];
+
+// French elisions ("l'offre", "qu'il") and the rest simply split at the apostrophe
+const CONTRACTIONS: Record<NegotiationLanguage, [RegExp, string][]> = {
+  en: ENGLISH_CONTRACTIONS,
+  de: [],
+  es: [],
+  fr: []
+};
+
+/**
+ * Normalizes free text into comparable words: Unicode-composed and
+ * lowercased, typographic apostrophes folded, contractions expanded and
+ * punctuation removed. Letters of every script survive, so "Überprüfung"
+ * and "demandé" stay whole.
+ */
+export const normalizeRhetoricTokens = (text: string, language: NegotiationLanguage = DEFAULT_LANGUAGE): string[] => {
+  let normalized = text.normalize('NFC').toLowerCase().replace(/[‘’ʼ`]/g, "'");
+  CONTRACTIONS[language].forEach(([pattern, expansion]) => {
+    normalized = normalized.replace(pattern, expansion);
+  });
+  return normalized
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 0);
+};
+
+/**
+ * Aligns two word sequences with Levenshtein distance and backtraces the
+ * matrix into an edit script. The backtrace runs from the end, so on ties
+ * gaps are placed as late as possible and substitutions pair words early.
+ * The backtrace needs the full matrix: score partial transcriptions with
+ * computeRhetoricDeviation and align finished utterances only.
+ */
+export const alignTokens = (source: string[], target: string[]): RhetoricAlignment => {
+  const rows = source.length;
+  const cols = target.length;
+
+  const matrix: number[][] = [];
+  for (let i = 0; i <= rows; i++) {
+    matrix[i] = [i];
+  }
+  for (let j = 0; j <= cols; j++) {
+    matrix[0][j] = j;
+  }
+
+  for (let i = 1; i <= rows; i++) {
+    for (let j = 1; j <= cols; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1, // Deletion
+        matrix[i][j - 1] + 1, // Insertion
+        matrix[i - 1][j - 1] + cost // Match or substitution
+      );
+    }
+  }
+
+  const edits: RhetoricEdit[] = [];
+  let i = rows;
+  let j = cols;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && source[i - 1] === target[j - 1] && matrix[i][j] === matrix[i - 1][j - 1]) {
+      edits.push({ operation: 'MATCH', source: source[i - 1], target: target[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && matrix[i][j] === matrix[i - 1][j] + 1) {
+      edits.push({ operation: 'DELETE', source: source[i - 1], target: null });
+      i--;
+    } else if (j > 0 && matrix[i][j] === matrix[i][j - 1] + 1) {
+      edits.push({ operation: 'INSERT', source: null, target: target[j - 1] });
+      j--;
+    } else {
+      edits.push({ operation: 'SUBSTITUTE', source: source[i - 1], target: target[j - 1] });
+      i--;
+      j--;
+    }
+  }
+
+  return {
+    distance: matrix[rows][cols],
+    edits: edits.reverse(),
+    sourceTokenCount: rows,
+    targetTokenCount: cols
+  };
+};
+
+/**
+ * Word-level alternative to computeLevenshteinDeviation: compares the
+ * operator's phrasing to the scenario target after normalization, so a
+ * paraphrase costs a few words rather than dozens of characters.
+ */
+export const alignRhetoric = (
+  operatorText: string,
+  targetPattern: string,
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): RhetoricAlignment =>
+  alignTokens(normalizeRhetoricTokens(operatorText, language), normalizeRhetoricTokens(targetPattern, language));
@@ -0,0 +1,353 @@
+import {
+  CounterpartPersona,
+  DifficultyLevel,
+  ManifoldEffects,
+  ManifoldPreconditions,
+  NegotiationParameters,
+  ProbabilityManifold,
+  ReservationPrice,
+  SimulationScenarioMatrix
+} from "../types";
+import { isNegotiationLanguage, SUPPORTED_LANGUAGES } from "./language";
+import { validateLexiconConfig } from "./lexiconValidator";
+import { NEGOTIATION_OUTCOMES } from "./negotiationStateMachine";
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['LOW_YIELD', 'HIGH_YIELD', 'HOSTILE_TAKEOVER'];
+
+const SCENARIO_ID_PATTERN = /^[A-Z0-9][A-Z0-9-]{2,63}$/;
+const MANIFOLD_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export interface ScenarioValidationResult {
+  scenario: SimulationScenarioMatrix | null; // Null whenever errors is non-empty
+  errors: string[];
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+const PRECONDITION_BOUNDS: (keyof ManifoldPreconditions)[] = ['minPatience', 'maxPatience', 'minRunningYield', 'maxRunningYield', 'minTurn'];
+
+/**
+ * Compiles a trigger condition the same way processOfflineSimulation does.
+ * Returns the syntax error message, or null when the pattern is usable.
+ */
+export const compileTriggerCondition = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+};
+
+const validateReservationPrice = (value: unknown, path: string, errors: string[]) => {
+  if (!value || typeof value !== 'object') {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  const price = value as Record<string, unknown>;
+  if (!isFiniteNumber(price.value) || price.value < 0) {
+    errors.push(`${path}.value must be a non-negative number`);
+  }
+  if (price.unit !== 'USD' && price.unit !== 'PERCENT') {
+    errors.push(`${path}.unit must be USD or PERCENT`);
+  }
+  if (price.bound !== 'CEILING' && price.bound !== 'FLOOR') {
+    errors.push(`${path}.bound must be CEILING or FLOOR`);
+  }
+};
+
+/**
+ * The operator's walk-away point must face the persona's: in the same unit,
+ * with the opposite bound, or the two cannot enclose a zone of agreement.
+ */
+const validateOperatorReservationPrice = (
+  value: unknown,
+  persona: CounterpartPersona | undefined,
+  errors: string[]
+): ReservationPrice | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const before = errors.length;
+  validateReservationPrice(value, 'operatorReservationPrice', errors);
+  if (errors.length > before) return undefined;
+
+  const price = value as ReservationPrice;
+  const counterpart = persona?.reservationPrice;
+  if (counterpart && price.unit !== counterpart.unit) {
+    errors.push('operatorReservationPrice.unit must match persona.reservationPrice.unit');
+  }
+  if (counterpart && price.bound === counterpart.bound) {
+    errors.push('operatorReservationPrice.bound must be the opposite of persona.reservationPrice.bound');
+  }
+  return { value: price.value, unit: price.unit, bound: price.bound };
+};
+
+const validateDifficultyStyles = (value: unknown, errors: string[]): void => {
+  if (value === undefined) return;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('persona.difficultyStyles must be an object keyed by difficulty level');
+    return;
+  }
+
+  Object.entries(value).forEach(([level, style]) => {
+    const path = `persona.difficultyStyles.${level}`;
+    if (!(DIFFICULTY_LEVELS as string[]).includes(level)) {
+      errors.push(`${path} is not one of ${DIFFICULTY_LEVELS.join(', ')}`);
+      return;
+    }
+    if (!style || typeof style !== 'object' || Array.isArray(style)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    ['conduct', 'tone'].forEach(field => {
+      const text = (style as Record<string, unknown>)[field];
+      if (text !== undefined && !isNonEmptyString(text)) errors.push(`${path}.${field} must be a non-empty string`);
+    });
+  });
+};
+
+const validatePersona = (value: unknown, errors: string[]): CounterpartPersona | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object') {
+    errors.push('persona must be an object');
+    return undefined;
+  }
+
+  const persona = value as Record<string, any>;
+  ['role', 'batna', 'tone'].forEach(field => {
+    if (!isNonEmptyString(persona[field])) errors.push(`persona.${field} must be a non-empty string`);
+  });
+  if (!Array.isArray(persona.hiddenGoals) || !persona.hiddenGoals.every(isNonEmptyString)) {
+    errors.push('persona.hiddenGoals must be an array of non-empty strings');
+  }
+
+  validateReservationPrice(persona.reservationPrice, 'persona.reservationPrice', errors);
+  validateDifficultyStyles(persona.difficultyStyles, errors);
+
+  return persona as CounterpartPersona;
+};
+
+const validateKeyList = (value: unknown, path: string, knownKeys: Set<string>, errors: string[]): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every(isNonEmptyString)) {
+    errors.push(`${path} must be an array of manifold keys`);
+    return undefined;
+  }
+  value.filter(key => !knownKeys.has(key)).forEach(key => errors.push(`${path} references unknown manifold key "${key}"`));
+  return value;
+};
+
+/**
+ * Validates the state-machine fields of a manifold and returns only the
+ * declared ones, so legacy manifolds stay plain trigger/response rules.
+ */
+const validateManifoldBehaviour = (
+  manifold: Record<string, any>,
+  path: string,
+  knownKeys: Set<string>,
+  errors: string[]
+): Partial<ProbabilityManifold> => {
+  const behaviour: Partial<ProbabilityManifold> = {};
+
+  if (manifold.key !== undefined) behaviour.key = manifold.key;
+
+  if (manifold.weight !== undefined) {
+    if (!isFiniteNumber(manifold.weight) || manifold.weight <= 0) {
+      errors.push(`${path}.weight must be a positive number`);
+    } else {
+      behaviour.weight = manifold.weight;
+    }
+  }
+
+  if (manifold.alternativeResponses !== undefined) {
+    if (!Array.isArray(manifold.alternativeResponses) || !manifold.alternativeResponses.every(isNonEmptyString)) {
+      errors.push(`${path}.alternativeResponses must be an array of non-empty strings`);
+    } else {
+      behaviour.alternativeResponses = manifold.alternativeResponses.map((response: string) => response.trim());
+    }
+  }
+
+  if (manifold.preconditions !== undefined) {
+    const conditions = manifold.preconditions;
+    if (!conditions || typeof conditions !== 'object' || Array.isArray(conditions)) {
+      errors.push(`${path}.preconditions must be an object`);
+    } else {
+      const validated: ManifoldPreconditions = {};
+      PRECONDITION_BOUNDS.forEach(bound => {
+        if (conditions[bound] === undefined) return;
+        if (!isFiniteNumber(conditions[bound])) {
+          errors.push(`${path}.preconditions.${bound} must be a number`);
+        } else {
+          (validated as Record<string, number>)[bound] = conditions[bound];
+        }
+      });
+      const afterManifolds = validateKeyList(conditions.afterManifolds, `${path}.preconditions.afterManifolds`, knownKeys, errors);
+      if (afterManifolds) validated.afterManifolds = afterManifolds;
+      behaviour.preconditions = validated;
+    }
+  }
+
+  if (manifold.cooldownTurns !== undefined) {
+    if (!isNonNegativeInteger(manifold.cooldownTurns)) {
+      errors.push(`${path}.cooldownTurns must be a non-negative integer`);
+    } else {
+      behaviour.cooldownTurns = manifold.cooldownTurns;
+    }
+  }
+
+  const followUps = validateKeyList(manifold.followUps, `${path}.followUps`, knownKeys, errors);
+  if (followUps) behaviour.followUps = followUps;
+
+  if (manifold.effects !== undefined) {
+    const effects = manifold.effects;
+    if (!effects || typeof effects !== 'object' || Array.isArray(effects)) {
+      errors.push(`${path}.effects must be an object`);
+    } else {
+      const validated: ManifoldEffects = {};
+      if (effects.patienceDelta !== undefined) {
+        if (isFiniteNumber(effects.patienceDelta)) validated.patienceDelta = effects.patienceDelta;
+        else errors.push(`${path}.effects.patienceDelta must be a number`);
+      }
+      if (effects.offerAdjustment !== undefined) {
+        if (isFiniteNumber(effects.offerAdjustment) && effects.offerAdjustment > -1) validated.offerAdjustment = effects.offerAdjustment;
+        else errors.push(`${path}.effects.offerAdjustment must be a number greater than -1`);
+      }
+      if (effects.outcome !== undefined) {
+        if (NEGOTIATION_OUTCOMES.includes(effects.outcome)) validated.outcome = effects.outcome;
+        else errors.push(`${path}.effects.outcome must be one of ${NEGOTIATION_OUTCOMES.join(', ')}`);
+      }
+      behaviour.effects = validated;
+    }
+  }
+
+  return behaviour;
+};
+
+const validateNegotiationParameters = (value: unknown, errors: string[]): NegotiationParameters | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('negotiationParameters must be an object');
+    return undefined;
+  }
+
+  const parameters = value as Record<string, any>;
+  if (parameters.openingOffer !== null && (!isFiniteNumber(parameters.openingOffer) || parameters.openingOffer < 0)) {
+    errors.push('negotiationParameters.openingOffer must be null or a non-negative number');
+  }
+  if (!isNonNegativeInteger(parameters.patience) || parameters.patience === 0) {
+    errors.push('negotiationParameters.patience must be a positive integer');
+  }
+  if (!isNonNegativeInteger(parameters.maxTurns) || parameters.maxTurns === 0) {
+    errors.push('negotiationParameters.maxTurns must be a positive integer');
+  }
+
+  return {
+    openingOffer: parameters.openingOffer,
+    patience: parameters.patience,
+    maxTurns: parameters.maxTurns
+  };
+};
+
+/**
+ * Validates an authored scenario before it is saved. Every triggerCondition
+ * is compiled so an invalid regex never reaches the simulation engine.
+ */
+export const validateScenario = (candidate: unknown): ScenarioValidationResult => {
+  const errors: string[] = [];
+
+  if (!candidate || typeof candidate !== 'object' || Array.isArray(candidate)) {
+    return { scenario: null, errors: ['scenario must be a JSON object'] };
+  }
+  const source = candidate as Record<string, any>;
+
+  if (typeof source.id !== 'string' || !SCENARIO_ID_PATTERN.test(source.id)) {
+    errors.push('id must be 3-64 uppercase letters, digits or dashes (e.g. SCN-DELTA-02)');
+  }
+  if (!isNonEmptyString(source.designation)) {
+    errors.push('designation must be a non-empty string');
+  }
+  if (!isNonEmptyString(source.targetRhetoricPattern)) {
+    errors.push('targetRhetoricPattern must be a non-empty string');
+  }
+  if (!DIFFICULTY_LEVELS.includes(source.difficultyLevel)) {
+    errors.push(`difficultyLevel must be one of ${DIFFICULTY_LEVELS.join(', ')}`);
+  }
+  if (source.language !== undefined && !isNegotiationLanguage(source.language)) {
+    errors.push(`language must be one of ${SUPPORTED_LANGUAGES.join(', ')}`);
+  }
+
+  const behaviours: Partial<ProbabilityManifold>[] = [];
+  if (!Array.isArray(source.probabilityManifolds) || source.probabilityManifolds.length === 0) {
+    errors.push('probabilityManifolds must be a non-empty array');
+  } else {
+    // Keys are collected first so branches may point forward in the list
+    const knownKeys = new Set<string>();
+    source.probabilityManifolds.forEach((manifold: any, index: number) => {
+      if (!manifold || typeof manifold !== 'object' || manifold.key === undefined) return;
+      if (typeof manifold.key !== 'string' || !MANIFOLD_KEY_PATTERN.test(manifold.key)) {
+        errors.push(`probabilityManifolds[${index}].key must be 1-64 lowercase letters, digits, dashes or underscores`);
+      } else if (knownKeys.has(manifold.key)) {
+        errors.push(`probabilityManifolds[${index}].key "${manifold.key}" is already used`);
+      } else {
+        knownKeys.add(manifold.key);
+      }
+    });
+
+    source.probabilityManifolds.forEach((manifold: any, index: number) => {
+      const path = `probabilityManifolds[${index}]`;
+      if (!manifold || typeof manifold !== 'object') {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+      if (!isNonEmptyString(manifold.triggerCondition)) {
+        errors.push(`${path}.triggerCondition must be a non-empty string`);
+      } else {
+        const syntaxError = compileTriggerCondition(manifold.triggerCondition);
+        if (syntaxError) errors.push(`${path}.triggerCondition is not a valid regex: ${syntaxError}`);
+      }
+      if (!isNonEmptyString(manifold.syntheticResponse)) {
+        errors.push(`${path}.syntheticResponse must be a non-empty string`);
+      }
+      if (typeof manifold.outcomeYield !== 'number' || manifold.outcomeYield < 0 || manifold.outcomeYield > 1) {
+        errors.push(`${path}.outcomeYield must be a number between 0 and 1`);
+      }
+      behaviours[index] = validateManifoldBehaviour(manifold, path, knownKeys, errors);
+    });
+  }
+
+  const persona = validatePersona(source.persona, errors);
+  const operatorReservationPrice = validateOperatorReservationPrice(source.operatorReservationPrice, persona, errors);
+  const negotiationParameters = validateNegotiationParameters(source.negotiationParameters, errors);
+  const lexicon = validateLexiconConfig(source.lexicon, errors);
+
+  if (errors.length > 0) {
+    return { scenario: null, errors };
+  }
+
+  return {
+    scenario: {
+      id: source.id,
+      designation: source.designation.trim(),
+      targetRhetoricPattern: source.targetRhetoricPattern.trim(),
+      difficultyLevel: source.difficultyLevel,
+      ...(source.language !== undefined ? { language: source.language } : {}),
+      probabilityManifolds: source.probabilityManifolds.map((m: any, index: number) => ({
+        triggerCondition: m.triggerCondition,
+        syntheticResponse: m.syntheticResponse.trim(),
+        outcomeYield: m.outcomeYield,
+        ...behaviours[index]
+      })),
+      ...(persona ? { persona } : {}),
+      ...(operatorReservationPrice ? { operatorReservationPrice } : {}),
+      ...(negotiationParameters ? { negotiationParameters } : {}),
+      ...(lexicon ? { lexicon } : {})
+    },
+    errors
+  };
+};
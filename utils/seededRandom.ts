@@ -0,0 +1,43 @@
+/**
+ * Small, serializable PRNG (mulberry32). The whole generator state is one
+ * 32-bit integer, so it can live inside plain state objects and be replayed.
+ */
+
+export interface RandomDraw {
+  value: number; // Uniform in [0, 1)
+  state: number; // Generator state for the next draw
+}
+
+/**
+ * Derives a 32-bit seed from text (FNV-1a), e.g. a session id.
+ */
+export const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const nextRandom = (state: number): RandomDraw => {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+};
+
+/**
+ * Picks an index with probability proportional to its weight.
+ * `draw` is a uniform value in [0, 1).
+ */
+export const pickWeightedIndex = (weights: number[], draw: number): number => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let threshold = draw * total;
+  for (let i = 0; i < weights.length; i++) {
+    threshold -= weights[i];
+    if (threshold < 0) return i;
+  }
+  return weights.length - 1;
+};
@@ -0,0 +1,148 @@
+import { NegotiationLanguage } from "../types";
+import { DEFAULT_LANGUAGE } from "./language";
+import { normalizeRhetoricTokens } from "./rhetoricAlignment";
+import { hashSeed } from "./seededRandom";
+
+/**
+ * Local semantic adherence: both texts are embedded as hashed bag-of-features
+ * vectors (stems, stem bigrams and character trigrams) and compared by cosine
+ * similarity. No model download and no Gemini call, so it runs on every
+ * partial transcript. Character trigrams let inflections and close
+ * derivations ("mitigate" / "mitigation") overlap where exact words do not.
+ */
+
+export const EMBEDDING_DIMENSIONS = 512;
+
+// Feature families weigh differently: shared stems say more than shared letters
+const STEM_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.75;
+const TRIGRAM_WEIGHT = 0.25;
+
+const STOPWORDS: Record<NegotiationLanguage, Set<string>> = {
+  en: new Set([
+    'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'for', 'by', 'with', 'as', 'from',
+    'is', 'are', 'was', 'were', 'be', 'been', 'am', 'it', 'its', 'this', 'that', 'these', 'those',
+    'i', 'we', 'you', 'he', 'she', 'they', 'me', 'us', 'our', 'your', 'my', 'their', 'so', 'do', 'does'
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'und', 'oder', 'aber',
+    'zu', 'in', 'im', 'an', 'am', 'auf', 'für', 'von', 'vom', 'mit', 'bei', 'aus', 'ist', 'sind', 'war',
+    'sein', 'es', 'ich', 'wir', 'sie', 'er', 'uns', 'unser', 'unsere', 'ihr', 'ihre', 'dass', 'so'
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'y', 'o', 'pero', 'de', 'del', 'a', 'al', 'en',
+    'por', 'para', 'con', 'es', 'son', 'ser', 'está', 'que', 'yo', 'nosotros', 'usted', 'ustedes', 'su',
+    'sus', 'nuestro', 'nuestra', 'lo', 'se', 'me', 'nos'
+  ]),
+  fr: new Set([
+    'le', 'la', 'les', 'l', 'un', 'une', 'des', 'du', 'de', 'd', 'et', 'ou', 'mais', 'à', 'au', 'aux', 'en',
+    'pour', 'par', 'avec', 'est', 'sont', 'être', 'ce', 'cette', 'que', 'qu', 'je', 'nous', 'vous', 'il',
+    'elle', 'ils', 'notre', 'votre', 'nos', 'vos', 'se', 'ne', 'pas'
+  ])
+};
+
+interface StemmingRules {
+  suffixes: string[]; // Longest first; a stem must keep at least three letters
+  keepEndings: string[]; // Words ending like this are left alone ("process")
+  dropFinalE: boolean; // So "schedule" and "schedules" meet
+}
+
+const STEMMING_RULES: Record<NegotiationLanguage, StemmingRules> = {
+  en: {
+    suffixes: ['ational', 'ations', 'ation', 'ments', 'ment', 'ness', 'ings', 'ing', 'ies', 'ied', 'ed', 'ly', 's'],
+    keepEndings: ['ss'],
+    dropFinalE: true
+  },
+  de: {
+    suffixes: ['ungen', 'heiten', 'keiten', 'ung', 'heit', 'keit', 'lich', 'isch', 'ern', 'em', 'en', 'er', 'es', 'e', 'n', 's'],
+    keepEndings: ['ss'],
+    dropFinalE: false
+  },
+  es: {
+    suffixes: ['amientos', 'amiento', 'aciones', 'ación', 'mente', 'ando', 'iendo', 'ados', 'adas', 'idos', 'idas', 'ado', 'ada', 'ido', 'ida', 'es', 'as', 'os', 'a', 'o', 'e', 's'],
+    keepEndings: [],
+    dropFinalE: false
+  },
+  fr: {
+    suffixes: ['issements', 'issement', 'ations', 'ation', 'ements', 'ement', 'ées', 'és', 'ée', 'ent', 'es', 'er', 'ez', 'é', 'e', 's'],
+    keepEndings: [],
+    dropFinalE: false
+  }
+};
+
+/**
+ * Crude suffix-stripping stemmer, enough to fold plurals and tense
+ * ("schedules", "Lieferungen", "demandé") onto a shared stem.
+ */
+export const stemToken = (token: string, language: NegotiationLanguage = DEFAULT_LANGUAGE): string => {
+  const rules = STEMMING_RULES[language];
+  let stem = token;
+  if (!rules.keepEndings.some(ending => stem.endsWith(ending))) {
+    const suffix = rules.suffixes.find(candidate => stem.length - candidate.length >= 3 && stem.endsWith(candidate));
+    if (suffix) stem = stem.slice(0, -suffix.length);
+  }
+  return rules.dropFinalE && stem.length > 3 && stem.endsWith('e') ? stem.slice(0, -1) : stem;
+};
+
+const contentStems = (text: string, language: NegotiationLanguage): string[] =>
+  normalizeRhetoricTokens(text, language)
+    .filter(token => !STOPWORDS[language].has(token))
+    .map(token => stemToken(token, language));
+
+const addFeature = (vector: Float32Array, feature: string, weight: number) => {
+  vector[hashSeed(feature) % EMBEDDING_DIMENSIONS] += weight;
+};
+
+/**
+ * Embeds text into a fixed-size hashed feature vector (unnormalized).
+ */
+export const embedText = (text: string, language: NegotiationLanguage = DEFAULT_LANGUAGE): Float32Array => {
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+  const stems = contentStems(text, language);
+
+  stems.forEach((stem, index) => {
+    addFeature(vector, `w:${stem}`, STEM_WEIGHT);
+    if (index > 0) addFeature(vector, `b:${stems[index - 1]} ${stem}`, BIGRAM_WEIGHT);
+    const padded = `^${stem}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  // Sublinear term frequency so one repeated word cannot dominate
+  for (let i = 0; i < vector.length; i++) {
+    if (vector[i] > 0) vector[i] = 1 + Math.log(1 + vector[i]);
+  }
+  return vector;
+};
+
+export const cosineSimilarity = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+};
+
+// The target only changes with the scenario, so its embedding is reused
+let cachedTarget: { text: string; language: NegotiationLanguage; vector: Float32Array } | null = null;
+
+/**
+ * Semantic adherence of an utterance to the target rhetoric (0.0 to 1.0).
+ * Returns 0 when either side has no content words.
+ */
+export const computeSemanticAdherence = (
+  utterance: string,
+  targetPattern: string,
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): number => {
+  if (cachedTarget?.text !== targetPattern || cachedTarget.language !== language) {
+    cachedTarget = { text: targetPattern, language, vector: embedText(targetPattern, language) };
+  }
+  return Math.max(0, Math.min(1, cosineSimilarity(embedText(utterance, language), cachedTarget.vector)));
+};
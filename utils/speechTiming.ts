@@ -0,0 +1,154 @@
+/**
+ * Speech timing from the microphone's RMS stream: a hysteresis voice-activity
+ * detector turns RMS frames into voiced segments, and each transcription
+ * chunk is timed by the voiced segments between its arrival and the previous
+ * one. Typed input is timed the same way from keystroke timestamps.
+ */
+
+export interface ActivitySegment {
+  start: number; // Wall-clock ms
+  end: number;
+}
+
+export interface SpeechTimingStats {
+  speakingMs: number; // Voiced time inside the window
+  elapsedMs: number; // First voiced moment to last
+  pauseCount: number;
+  longestPauseMs: number;
+  speechToSilenceRatio: number; // Capped at MAX_SPEECH_TO_SILENCE_RATIO when there was no silence
+}
+
+export interface VoiceActivityThresholds {
+  onsetRms: number; // RMS that opens a voiced segment
+  releaseRms: number; // RMS below which the segment starts to close
+  hangoverMs: number; // Quiet time tolerated before the segment closes
+}
+
+export const DEFAULT_VAD_THRESHOLDS: VoiceActivityThresholds = {
+  onsetRms: 0.02,
+  releaseRms: 0.01,
+  hangoverMs: 200
+};
+
+// Silences shorter than this are articulation, not pauses
+export const MIN_SPEECH_PAUSE_MS = 250;
+export const MIN_TYPING_PAUSE_MS = 1000;
+
+// Activity credited to each keystroke
+export const KEYSTROKE_ACTIVITY_MS = 300;
+
+// Below this much voiced (or typed) time a words-per-minute figure is noise
+export const MIN_MEASURABLE_SPEECH_MS = 500;
+
+export const MAX_SPEECH_TO_SILENCE_RATIO = 10;
+
+// Closed segments older than this are dropped
+const SEGMENT_RETENTION_MS = 5 * 60 * 1000;
+
+export class VoiceActivityDetector {
+  private segments: ActivitySegment[] = [];
+  private openSegment: ActivitySegment | null = null;
+
+  constructor(private thresholds: VoiceActivityThresholds = DEFAULT_VAD_THRESHOLDS) {}
+
+  /**
+   * Feeds one RMS frame captured at `timestampMs`.
+   */
+  public ingest(rms: number, timestampMs: number): void {
+    const open = this.openSegment;
+    if (!open) {
+      if (rms >= this.thresholds.onsetRms) {
+        this.openSegment = { start: timestampMs, end: timestampMs };
+      }
+      return;
+    }
+
+    if (rms >= this.thresholds.releaseRms) {
+      open.end = timestampMs;
+    } else if (timestampMs - open.end > this.thresholds.hangoverMs) {
+      this.segments.push(open);
+      this.openSegment = null;
+      this.prune(timestampMs - SEGMENT_RETENTION_MS);
+    }
+  }
+
+  /**
+   * Voiced segments overlapping [from, to], clipped to it. Includes the
+   * segment still open, up to its latest voiced frame.
+   */
+  public segmentsBetween(from: number, to: number): ActivitySegment[] {
+    const all = this.openSegment ? [...this.segments, this.openSegment] : this.segments;
+    return all
+      .filter(segment => segment.end >= from && segment.start <= to)
+      .map(segment => ({ start: Math.max(segment.start, from), end: Math.min(segment.end, to) }));
+  }
+
+  public reset(): void {
+    this.segments = [];
+    this.openSegment = null;
+  }
+
+  private prune(before: number): void {
+    this.segments = this.segments.filter(segment => segment.end >= before);
+  }
+}
+
+/**
+ * Activity segments from discrete events such as keystrokes, each credited
+ * with `activityMs` and merged where they touch.
+ */
+export const activityFromEvents = (timestamps: number[], activityMs: number = KEYSTROKE_ACTIVITY_MS): ActivitySegment[] => {
+  const segments: ActivitySegment[] = [];
+  [...timestamps].sort((a, b) => a - b).forEach(timestamp => {
+    const last = segments[segments.length - 1];
+    if (last && timestamp <= last.end) {
+      last.end = Math.max(last.end, timestamp + activityMs);
+    } else {
+      segments.push({ start: timestamp, end: timestamp + activityMs });
+    }
+  });
+  return segments;
+};
+
+/**
+ * Pause statistics over a run of activity segments. Leading and trailing
+ * silence is not counted: only the gaps between voiced stretches.
+ */
+export const summarizeSpeechTiming = (
+  segments: ActivitySegment[],
+  minPauseMs: number = MIN_SPEECH_PAUSE_MS
+): SpeechTimingStats => {
+  const ordered = [...segments].sort((a, b) => a.start - b.start);
+  if (ordered.length === 0) {
+    return { speakingMs: 0, elapsedMs: 0, pauseCount: 0, longestPauseMs: 0, speechToSilenceRatio: 0 };
+  }
+
+  let speakingMs = 0;
+  let pauseCount = 0;
+  let longestPauseMs = 0;
+  let coveredUntil = ordered[0].start;
+
+  ordered.forEach(segment => {
+    const gap = segment.start - coveredUntil;
+    if (gap >= minPauseMs) {
+      pauseCount++;
+      longestPauseMs = Math.max(longestPauseMs, gap);
+    }
+    // Overlapping segments only count their uncovered part
+    speakingMs += Math.max(0, segment.end - Math.max(segment.start, coveredUntil));
+    coveredUntil = Math.max(coveredUntil, segment.end);
+  });
+
+  const elapsedMs = coveredUntil - ordered[0].start;
+  const silenceMs = elapsedMs - speakingMs;
+
+  return {
+    speakingMs,
+    elapsedMs,
+    pauseCount,
+    longestPauseMs,
+    speechToSilenceRatio: silenceMs > 0
+      ? Math.min(MAX_SPEECH_TO_SILENCE_RATIO, speakingMs / silenceMs)
+      : speakingMs > 0 ? MAX_SPEECH_TO_SILENCE_RATIO : 0
+  };
+};
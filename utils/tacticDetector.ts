@@ -0,0 +1,376 @@
+import { DialogueTransmissionVector, NegotiationLanguage, NegotiationTactic, TacticDetection } from "../types";
+import { DEFAULT_LANGUAGE } from "./language";
+
+/**
+ * Rule-plus-pattern tactic detection, cheap enough to run on every message as
+ * it renders. A phrase pattern finds the cue; the conversation so far decides
+ * whether the cue is the tactic (a flinch only follows a number, a nibble
+ * only follows agreement).
+ */
+
+type TranscriptLine = Pick<DialogueTransmissionVector, 'origin' | 'payload'>;
+
+export const NEGOTIATION_TACTICS: NegotiationTactic[] = [
+  'ANCHORING',
+  'FLINCH',
+  'NIBBLING',
+  'GOOD_COP_BAD_COP',
+  'DEADLINE_PRESSURE',
+  'FALSE_CONCESSION',
+  'BATNA_REVEAL'
+];
+
+export const TACTIC_LABELS: Record<NegotiationTactic, string> = {
+  ANCHORING: 'Anchoring',
+  FLINCH: 'Flinch',
+  NIBBLING: 'Nibbling',
+  GOOD_COP_BAD_COP: 'Good cop / bad cop',
+  DEADLINE_PRESSURE: 'Deadline pressure',
+  FALSE_CONCESSION: 'False concession',
+  BATNA_REVEAL: 'BATNA reveal'
+};
+
+interface TacticPatterns {
+  amountUnits: string[]; // Words that make a bare number a price or quantity on the table
+  anchor: string[]; // Offer framing that pins a number
+  flinch: string[]; // Visible shock
+  nibble: string[]; // A small extra asked for on top
+  agreement: string[]; // The deal is (nearly) settled
+  authority: string[]; // An absent hard-liner
+  sympathy: string[]; // Personal goodwill from the one at the table
+  deadline: string[];
+  concession: string[]; // Concession framing
+  batna: string[]; // An alternative to this deal
+}
+
+// Alternatives are regex sources; an apostrophe also matches the typographic one
+const TACTIC_PATTERNS: Record<NegotiationLanguage, TacticPatterns> = {
+  en: {
+    amountUnits: ['dollars?', 'euros?', 'pounds?', 'percent', 'thousand', 'million', 'billion', 'grand', 'k', 'm', 'bn'],
+    anchor: [
+      'we can offer', "(?:we|i)(?:'re| are| am|'m) (?:offering|asking(?: for)?|looking at)", '(?:our|my) (?:offer|price|budget|number) is',
+      '(?:starting|opening) (?:at|offer|price)', 'the (?:list|asking|market) (?:price|rate) is', 'how about', '(?:would|will) you (?:accept|take)'
+    ],
+    flinch: [
+      'what\\s?\\?', 'wow', 'whoa', "you(?:'re| are) (?:kidding|joking)", "you can(?:'t|not) be serious", 'are you serious',
+      'no way', '(?:outrageous|ridiculous|absurd)', "that(?:'s| is) (?:insane|crazy|way too (?:high|low|much))"
+    ],
+    nibble: [
+      'one (?:more|last|small) thing', 'just one more', '(?:also )?throw in', "while we(?:'re| are) at it",
+      'before we (?:sign|close|finalize)', 'oh,? and', 'on top of that', '(?:could|can) you also'
+    ],
+    agreement: [
+      "(?:it's|that's|we have) a deal", 'agreed', 'we (?:can )?agree', 'we (?:can )?accept', "let's (?:sign|close|do it)",
+      "(?:sounds|that's|that is) (?:good|fair|acceptable)", 'works for (?:us|me)'
+    ],
+    authority: [
+      'my (?:boss|manager|director|board|cfo|ceo|partners?|superiors?|head office|legal team|finance team)',
+      '(?:the|our) (?:board|cfo|ceo|head office|legal team|finance team|higher-ups)'
+    ],
+    sympathy: [
+      "i(?:'d| would) (?:love|like) to help", "i(?:'m| am) (?:on your side|trying to help)", 'personally', 'between (?:you and me|us)',
+      'if it were up to me', 'i (?:really )?want to (?:help|make this work)', 'off the record'
+    ],
+    deadline: [
+      'deadline', 'by (?:the )?(?:end of (?:the )?(?:day|week|month|quarter)|tomorrow|tonight|today|noon|midnight|monday|tuesday|wednesday|thursday|friday)',
+      'expir(?:es|ing)', 'valid (?:until|through)', 'last chance', '(?:today|this week) only', 'within (?:\\d+|the next|an?) (?:minutes?|hours?|days?|weeks?)',
+      'running out of time', 'time is running out', '(?:the )?clock is ticking', 'now or never'
+    ],
+    concession: [
+      'as a (?:special )?favou?r', "(?:we|i)(?:'ve| have) already (?:come down|moved|conceded|given (?:you )?(?:a lot|plenty))",
+      "this is (?:a |our )?(?:huge|big|major|significant|generous) (?:concession|discount)", "i(?:'m| am) (?:sticking my neck out|bending over backwards)",
+      'just for you'
+    ],
+    batna: [
+      '(?:another|other|competing|a better|better) (?:offers?|bids?|suppliers?|vendors?|buyers?|bidders?|quotes?)',
+      '(?:we|i) (?:can|could|will) (?:always )?(?:walk away|go elsewhere|take (?:it|our business) elsewhere)',
+      'our (?:alternative|fallback|plan b|batna)', '(?:your )?competitors? (?:offered|quoted|(?:is|are) offering)',
+      "otherwise we(?:'ll| will) (?:go|move) (?:with|to)"
+    ]
+  },
+  de: {
+    amountUnits: ['euro', 'dollar', 'prozent', 'tausend', 'millionen?', 'milliarden?', 'mio', 'mrd'],
+    anchor: [
+      'wir (?:bieten|können (?:ihnen )?(?:\\S+ )?anbieten)', 'unser (?:angebot|preis|budget) (?:ist|liegt bei)', '(?:ich|wir) (?:verlangen|erwarten)',
+      'der (?:listen|markt)preis (?:ist|liegt bei)', 'wie wäre es mit'
+    ],
+    flinch: [
+      'was\\s?\\?', 'wie bitte', 'sie scherzen', 'das kann nicht ihr ernst sein', 'im ernst\\s?\\?', '(?:lächerlich|absurd|unverschämt)',
+      'viel zu (?:hoch|niedrig|teuer)'
+    ],
+    nibble: [
+      'noch (?:eine|eins) (?:sache|kleinigkeit)', 'eine letzte sache', 'könnten sie (?:auch )?noch', 'legen sie noch', 'obendrauf',
+      'bevor wir unterschreiben', 'ach,? und'
+    ],
+    agreement: ['einverstanden', 'abgemacht', 'wir sind uns einig', 'das passt', 'das klingt (?:gut|fair)', 'wir nehmen an'],
+    authority: [
+      'mein(?:e)? (?:chef(?:in)?|vorgesetzte[rn]?|vorstand|geschäftsführung|finanzabteilung|rechtsabteilung|partner)',
+      '(?:der|die|unser(?:e)?) (?:vorstand|geschäftsführung|finanzabteilung|rechtsabteilung|zentrale)'
+    ],
+    sympathy: ['ich (?:würde|möchte) ihnen (?:gerne )?helfen', 'persönlich', 'unter uns', 'wenn es nach mir ginge', 'ich bin auf ihrer seite'],
+    deadline: [
+      'frist', 'bis (?:morgen|heute abend|ende der woche|ende des monats|montag|freitag)', 'läuft (?:morgen |heute )?ab', 'nur (?:noch )?heute',
+      'gültig bis', 'letzte chance', 'innerhalb von \\d+ (?:stunden|tagen)', 'die zeit läuft', 'jetzt oder nie'
+    ],
+    concession: [
+      'als (?:besonderes )?entgegenkommen', 'ausnahmsweise', '(?:wir sind|ich bin) (?:ihnen )?(?:schon|bereits) entgegengekommen',
+      'das ist ein (?:großes|riesiges|enormes) zugeständnis', 'nur für sie'
+    ],
+    batna: [
+      '(?:ein |einen )?(?:anderen?|anderes|alternativen?|alternatives|besseren?|besseres) (?:angebote?|lieferanten?|anbieter|käufer|bieter)',
+      '(?:wir|ich) (?:können|könnten) (?:jederzeit )?(?:woanders hingehen|aussteigen)', 'ihr(?:e)? (?:konkurrenz|wettbewerber) (?:bietet|bieten)',
+      'unsere alternative'
+    ]
+  },
+  es: {
+    amountUnits: ['dólares', 'euros?', 'por ciento', 'mil', 'millones', 'millón'],
+    anchor: [
+      '(?:le |les )?podemos ofrecer', 'ofrecemos', 'nuestra (?:oferta|propuesta) es', 'nuestro (?:precio|presupuesto) es', '(?:pedimos|esperamos)',
+      'el precio de (?:lista|mercado) es', 'qué tal'
+    ],
+    flinch: ['qué\\s?\\?', 'en serio\\s?\\?', 'está bromeando', 'no puede ser', '(?:ridículo|absurdo|una locura)', 'demasiado (?:alto|bajo|caro)'],
+    nibble: [
+      'una (?:última )?cosa más', 'una última cosa', 'podría(?:n)? (?:también )?incluir', 'antes de firmar', 'ya que estamos',
+      'además,? (?:incluyan|añadan)'
+    ],
+    agreement: ['de acuerdo', 'trato hecho', 'aceptamos', 'acepto', 'me parece (?:bien|justo)'],
+    authority: [
+      'mi (?:jefe|jefa|director|directora|junta|socio|gerente)',
+      '(?:la|el|nuestra|nuestro) (?:junta directiva|dirección|director financiero|departamento legal|central)'
+    ],
+    sympathy: ['me gustaría ayudarle', 'quisiera ayudarle', 'personalmente', 'entre nosotros', 'si (?:fuera|dependiera) de mí', 'estoy de su lado'],
+    deadline: [
+      'plazo', 'fecha límite', 'para (?:mañana|esta noche|el viernes|el lunes|fin de mes)', 'vence', 'caduca', 'válid[ao] hasta',
+      'última oportunidad', 'solo (?:por )?hoy', 'en (?:las próximas )?\\d+ (?:horas|días)', 'se acaba el tiempo', 'ahora o nunca'
+    ],
+    concession: [
+      'como (?:un )?favor(?: especial)?', '(?:ya )?(?:hemos|he) (?:bajado|cedido|rebajado) (?:mucho|bastante)', 'es una (?:gran|enorme) concesión',
+      'solo para usted', 'excepcionalmente'
+    ],
+    batna: [
+      'otr[ao]s? (?:ofertas?|proveedor(?:es)?|comprador(?:es)?|opci(?:ón|ones)|postores?)', 'una oferta mejor',
+      '(?:podemos|puedo) (?:irnos|ir) a otra parte', '(?:su|la) competencia (?:nos )?ofrece', 'nuestra alternativa'
+    ]
+  },
+  fr: {
+    amountUnits: ['dollars?', 'euros?', 'pour cent', 'mille', 'millions?', 'milliards?'],
+    anchor: [
+      'nous (?:pouvons|pourrions) vous (?:offrir|proposer)', 'nous (?:offrons|proposons)', 'notre (?:offre|prix|budget) est',
+      'nous (?:demandons|attendons)', 'le prix (?:du marché|catalogue) est', 'que diriez-vous de'
+    ],
+    flinch: [
+      'quoi\\s?\\?', 'pardon\\s?\\?', 'vous plaisantez', "c'est (?:ridicule|absurde|une blague|scandaleux)", 'sérieusement\\s?\\?',
+      'beaucoup trop (?:cher|élevé|bas)', 'pas question'
+    ],
+    nibble: [
+      '(?:encore )?une (?:dernière )?(?:petite )?chose', '(?:pourriez|pouvez)-vous aussi', 'avant de signer', "tant qu'on y est",
+      'en plus,? (?:ajoutez|incluez)', 'ah,? et'
+    ],
+    agreement: ["d'accord", 'marché conclu', "c'est entendu", 'ça marche', 'nous acceptons', "j'accepte", 'ça me (?:va|convient)'],
+    authority: [
+      'mon (?:patron|chef|directeur|associé|conseil)', 'ma (?:direction|patronne|directrice|hiérarchie)',
+      "(?:le|notre) (?:conseil d'administration|directeur financier|service juridique|siège)", '(?:la|notre) direction'
+    ],
+    sympathy: ["j'aimerais vous aider", 'je (?:veux|voudrais) vous aider', 'personnellement', 'entre nous', "si ça ne tenait qu'à moi", 'je suis de votre côté'],
+    deadline: [
+      'date limite', 'délai', "(?:d'ici|avant) (?:demain|ce soir|lundi|vendredi|la fin (?:du mois|de la semaine))", 'expire', "valable jusqu'",
+      'dernière chance', "aujourd'hui seulement", '(?:sous|dans les) \\d+ (?:heures|jours)', 'le temps presse', 'maintenant ou jamais'
+    ],
+    concession: [
+      '(?:à titre de|comme une) faveur', "(?:nous avons|j'ai) déjà (?:baissé|cédé|fait un effort)", "c'est une (?:énorme|grosse|grande) concession",
+      'rien que pour vous', 'exceptionnellement'
+    ],
+    batna: [
+      "(?:une |d')?autres? (?:offres?|fournisseurs?|acheteurs?|options?|propositions?)", 'une meilleure offre',
+      '(?:nous pouvons|je peux) (?:toujours )?aller voir ailleurs', '(?:vos|votre) concurrents? (?:propose|proposent|offre|offrent)',
+      'notre alternative', 'plan b'
+    ]
+  }
+};
+
+const WORD_EDGE_BEFORE = '(?<![\\p{L}\\p{M}\\p{N}])';
+const WORD_EDGE_AFTER = '(?![\\p{L}\\p{M}\\p{N}])';
+
+const cuePattern = (alternatives: string[]): RegExp =>
+  new RegExp(`${WORD_EDGE_BEFORE}(?:${alternatives.join('|').replace(/'/g, "['’]")})${WORD_EDGE_AFTER}`, 'iu');
+
+interface CompiledTacticPatterns {
+  amount: RegExp; // Global
+  anchor: RegExp;
+  flinch: RegExp;
+  nibble: RegExp;
+  agreement: RegExp;
+  authority: RegExp;
+  sympathy: RegExp;
+  deadline: RegExp;
+  concession: RegExp;
+  batna: RegExp;
+}
+
+const compiledPatterns = new Map<NegotiationLanguage, CompiledTacticPatterns>();
+
+const patternsFor = (language: NegotiationLanguage): CompiledTacticPatterns => {
+  let compiled = compiledPatterns.get(language);
+  if (!compiled) {
+    const source = TACTIC_PATTERNS[language];
+    const units = `(?:${source.amountUnits.join('|')})${WORD_EDGE_AFTER}`;
+    compiled = {
+      amount: new RegExp(`[$€£]\\s?\\d[\\d.,]*(?:\\s?${units})?|${WORD_EDGE_BEFORE}\\d[\\d.,]*\\s?(?:%|[$€£]|${units})`, 'giu'),
+      anchor: cuePattern(source.anchor),
+      flinch: cuePattern(source.flinch),
+      nibble: cuePattern(source.nibble),
+      agreement: cuePattern(source.agreement),
+      authority: cuePattern(source.authority),
+      sympathy: cuePattern(source.sympathy),
+      deadline: cuePattern(source.deadline),
+      concession: cuePattern(source.concession),
+      batna: cuePattern(source.batna)
+    };
+    compiledPatterns.set(language, compiled);
+  }
+  return compiled;
+};
+
+// Amounts as written, normalized so a repeated figure compares equal
+const amountsIn = (text: string, patterns: CompiledTacticPatterns): { key: string; start: number; end: number }[] =>
+  [...text.matchAll(patterns.amount)].map(match => ({
+    key: match[0].toLowerCase().replace(/\s+/g, ''),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+
+const detection = (tactic: NegotiationTactic, text: string, start: number, end: number): TacticDetection =>
+  ({ tactic, cue: text.slice(start, end), start, end });
+
+const cueIn = (tactic: NegotiationTactic, text: string, pattern: RegExp): TacticDetection | null => {
+  const match = pattern.exec(text);
+  return match ? detection(tactic, text, match.index, match.index + match[0].length) : null;
+};
+
+/**
+ * Tactics in one message, given the messages before it. At most one
+ * detection per tactic, ordered by where its cue starts.
+ */
+export const detectTactics = (
+  line: TranscriptLine,
+  earlier: TranscriptLine[],
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): TacticDetection[] => {
+  const patterns = patternsFor(language);
+  const text = line.payload;
+  const amounts = amountsIn(text, patterns);
+  const ownEarlier = earlier.filter(previous => previous.origin === line.origin);
+  const lastReply = [...earlier].reverse().find(previous => previous.origin !== line.origin);
+  const detections: (TacticDetection | null)[] = [];
+
+  // Anchoring: the first figure anyone puts on the table, framed as an offer
+  const earlierAmounts = earlier.some(previous => amountsIn(previous.payload, patterns).length > 0);
+  if (amounts.length > 0 && !earlierAmounts && patterns.anchor.test(text)) {
+    detections.push(detection('ANCHORING', text, amounts[0].start, amounts[0].end));
+  }
+
+  // Flinch: shock at the figure the other side just named
+  if (lastReply && amountsIn(lastReply.payload, patterns).length > 0) {
+    detections.push(cueIn('FLINCH', text, patterns.flinch));
+  }
+
+  // Nibbling: an extra asked for once the deal looks settled
+  if (earlier.some(previous => patterns.agreement.test(previous.payload))) {
+    detections.push(cueIn('NIBBLING', text, patterns.nibble));
+  }
+
+  // Good cop / bad cop: a hard-liner away from the table and a friend at it
+  if (patterns.sympathy.test(text) || ownEarlier.some(previous => patterns.sympathy.test(previous.payload))) {
+    detections.push(cueIn('GOOD_COP_BAD_COP', text, patterns.authority));
+  }
+
+  detections.push(cueIn('DEADLINE_PRESSURE', text, patterns.deadline));
+
+  // False concession: concession framing without moving off a figure already named
+  const ownAmounts = new Set(ownEarlier.flatMap(previous => amountsIn(previous.payload, patterns).map(amount => amount.key)));
+  if (amounts.every(amount => ownAmounts.has(amount.key))) {
+    detections.push(cueIn('FALSE_CONCESSION', text, patterns.concession));
+  }
+
+  detections.push(cueIn('BATNA_REVEAL', text, patterns.batna));
+
+  return detections
+    .filter((found): found is TacticDetection => found !== null)
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Tactics of every message in a conversation, in message order.
+ */
+export const annotateTactics = (
+  lines: TranscriptLine[],
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): TacticDetection[][] =>
+  lines.map((line, index) => detectTactics(line, lines.slice(0, index), language));
+
+// Detections of one message, remembered with the text they were detected on
+export interface TacticAnnotation {
+  id: string;
+  payload: string;
+  detections: TacticDetection[];
+}
+
+/**
+ * annotateTactics that reuses `previous` for the unchanged start of the
+ * conversation (same ids and payloads, in order) and detects only from the
+ * first message that differs. A message's tactics depend only on the
+ * messages before it, so the reused entries stay exact.
+ */
+export const extendTacticAnnotations = (
+  lines: (TranscriptLine & Pick<DialogueTransmissionVector, 'id'>)[],
+  previous: TacticAnnotation[],
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): TacticAnnotation[] => {
+  let reused = 0;
+  while (
+    reused < lines.length && reused < previous.length
+    && previous[reused].id === lines[reused].id && previous[reused].payload === lines[reused].payload
+  ) {
+    reused++;
+  }
+
+  const annotations = previous.slice(0, reused);
+  for (let index = reused; index < lines.length; index++) {
+    const line = lines[index];
+    annotations.push({ id: line.id, payload: line.payload, detections: detectTactics(line, lines.slice(0, index), language) });
+  }
+  return annotations;
+};
+
+export const tacticsOf = (detections: TacticDetection[]): NegotiationTactic[] =>
+  NEGOTIATION_TACTICS.filter(tactic => detections.some(found => found.tactic === tactic));
+
+/**
+ * Tactics of a turn's prompt and response, for storage with the turn.
+ */
+export const detectTurnTactics = (
+  prompt: string,
+  response: string,
+  history: TranscriptLine[],
+  language: NegotiationLanguage = DEFAULT_LANGUAGE
+): { promptTactics: NegotiationTactic[]; responseTactics: NegotiationTactic[] } => {
+  const promptLine: TranscriptLine = { origin: 'OPERATOR', payload: prompt };
+  return {
+    promptTactics: tacticsOf(detectTactics(promptLine, history, language)),
+    responseTactics: tacticsOf(detectTactics({ origin: 'SYNTHETIC_AGENT', payload: response }, [...history, promptLine], language))
+  };
+};
+
+/**
+ * Tactic labels from a stored JSON column; unknown labels are dropped. Null
+ * when the column was never written or does not hold a list.
+ */
+export const parseStoredTactics = (value: unknown): NegotiationTactic[] | null => {
+  if (typeof value !== 'string') return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? NEGOTIATION_TACTICS.filter(tactic => parsed.includes(tactic)) : null;
+  } catch {
+    return null;
+  }
+};
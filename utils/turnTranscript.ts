@@ -0,0 +1,54 @@
+import type { NegotiationTurn } from "@prisma/client";
+import { DialogueTransmissionVector, NegotiationTurnRecord, YieldSource } from "../types";
+import { NEGOTIATION_OUTCOMES } from "./negotiationStateMachine";
+import { parseStoredTactics } from "./tacticDetector";
+
+const YIELD_SOURCES: YieldSource[] = ['MANIFOLD', 'JUDGE'];
+
+// A stored label narrowed to its union; unknown labels read as null
+const parseLabel = <T extends string>(labels: T[], value: string | null): T | null =>
+  labels.find(label => label === value) ?? null;
+
+/**
+ * A stored NegotiationTurn row as the API returns it: ISO timestamp and
+ * parsed tactic labels.
+ */
+export const toTurnRecord = (row: NegotiationTurn): NegotiationTurnRecord => ({
+  id: row.id,
+  prompt: row.prompt,
+  response: row.response,
+  latencyMs: row.latencyMs,
+  cacheHit: row.cacheHit,
+  timestamp: new Date(row.timestamp).toISOString(),
+  outcomeYield: row.outcomeYield,
+  yieldSource: parseLabel(YIELD_SOURCES, row.yieldSource),
+  negotiationOutcome: parseLabel(NEGOTIATION_OUTCOMES, row.negotiationOutcome),
+  promptTactics: parseStoredTactics(row.promptTactics),
+  responseTactics: parseStoredTactics(row.responseTactics)
+});
+
+/**
+ * Expands stored turns into the operator/agent vector pairs of the transcript,
+ * shared by the replay and the analysis prompt. The operator prompt is placed
+ * at the moment the request reached the server.
+ */
+export const expandTurns = (turns: NegotiationTurnRecord[]): DialogueTransmissionVector[] =>
+  turns.flatMap((turn) => {
+    const respondedAt = new Date(turn.timestamp).getTime();
+    return [
+      {
+        id: `${turn.id}-prompt`,
+        origin: 'OPERATOR' as const,
+        payload: turn.prompt,
+        timestamp: respondedAt - turn.latencyMs,
+        metadata: { tactics: turn.promptTactics ?? undefined }
+      },
+      {
+        id: `${turn.id}-response`,
+        origin: 'SYNTHETIC_AGENT' as const,
+        payload: turn.response,
+        timestamp: respondedAt,
+        metadata: { thinkingDurationMs: turn.latencyMs, tactics: turn.responseTactics ?? undefined }
+      }
+    ];
+  });